@@ -5,13 +5,40 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useAIManager } from '../hooks/useAIManager';
+import { useChatSessions } from '../hooks/useChatSessions';
+import { ChatSessionList } from './ChatSessionList';
+import { CitedAnswer } from './CitedAnswer';
+import { DocumentViewer, SourceLocation } from './DocumentViewer';
+import { AISettingsPanel } from './AISettingsPanel';
+import { VaultUnlockDialog } from './VaultUnlockDialog';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Card } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
-import { Loader2, Send, Bot } from 'lucide-react';
-import type { AIProvider } from '../services/ai/types';
+import { Loader2, Send, Bot, Settings, Lock, LockOpen } from 'lucide-react';
+import type { AIProvider, RAGResponse, RetrievedChunk } from '../services/ai/types';
+import type { StoredMessage } from '../utils/persistentStorage';
+import { toChatHistory } from '../utils/chatHistory';
+import { formatSourceCitation } from '../utils/citationUtils';
+
+/**
+ * Assistant message fields kept with the answer so it can be revisited later
+ */
+function answerDetails(response: RAGResponse): Partial<StoredMessage> {
+    return {
+        sources: response.sources,
+        provider: response.provider,
+        fallbackFrom: response.fallbackFrom,
+        model: response.model,
+        usage: response.usage,
+        searchQuery: response.rewrittenQuery,
+        grounding: response.grounding,
+        context: response.context,
+        processingTime: response.processingTime,
+        error: !!response.error,
+    };
+}
 
 export function AIChat() {
     const {
@@ -21,39 +48,71 @@ export function AIChat() {
         switchProvider,
         isInitialized,
         providerStatuses,
-        getAvailableProviders
+        getAvailableProviders,
+        providerSettings,
+        ragSettings,
+        saveSettings,
+        vaultStatus,
+        unlockVault,
+        lockVault,
+        resetVault
     } = useAIManager();
+    const sessions = useChatSessions();
+    const { messages, appendMessage } = sessions;
 
     const [question, setQuestion] = useState('');
     const [answer, setAnswer] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [streaming, setStreaming] = useState(true);
-    const [conversation, setConversation] = useState<Array<{ role: 'user' | 'assistant', content: string }>>([]);
+    const [judgeAnswers, setJudgeAnswers] = useState(false);
+    const [viewing, setViewing] = useState<SourceLocation | null>(null);
+    const [settingsOpen, setSettingsOpen] = useState(false);
+    const [unlockOpen, setUnlockOpen] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
+    // Ask for the passphrase once at session start when keys are stored encrypted
+    const unlockPrompted = useRef(false);
+    useEffect(() => {
+        if (isInitialized && vaultStatus === 'locked' && !unlockPrompted.current) {
+            unlockPrompted.current = true;
+            setUnlockOpen(true);
+        }
+    }, [isInitialized, vaultStatus]);
+
+    // Settings would overwrite the encrypted keys while locked, so unlock first
+    const openSettings = () => (vaultStatus === 'locked' ? setUnlockOpen(true) : setSettingsOpen(true));
+
+    // Streaming preference from the saved settings
+    useEffect(() => {
+        if (ragSettings) setStreaming(ragSettings.enableStreaming);
+    }, [ragSettings]);
+
     // Scroll to bottom of messages
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [conversation]);
+    }, [messages]);
 
     const handleAsk = async () => {
         if (!question.trim() || isLoading) return;
 
-        // Add user question to conversation
-        const userMessage = { role: 'user' as const, content: question };
-        setConversation(prev => [...prev, userMessage]);
+        // Earlier turns of this session, then the question itself
+        const history = toChatHistory(messages);
         setQuestion('');
         setIsLoading(true);
         setAnswer('');
 
         try {
+            await appendMessage({ role: 'user', content: question });
+
             if (streaming) {
                 // Streaming mode
                 let fullAnswer = '';
 
-                await queryStream(
+                const response = await queryStream(
                     {
                         query: question,
+                        history,
+                        groundingJudge: judgeAnswers,
                         stream: true,
                     },
                     (chunk) => {
@@ -65,22 +124,25 @@ export function AIChat() {
                 );
 
                 // Add assistant response to conversation
-                setConversation(prev => [...prev, { role: 'assistant', content: fullAnswer }]);
+                await appendMessage({ role: 'assistant', content: fullAnswer, ...answerDetails(response) });
             } else {
                 // Normal mode
                 const response = await query({
                     query: question,
+                    history,
+                    groundingJudge: judgeAnswers,
                     stream: false,
                 });
 
                 // Add assistant response to conversation
-                setConversation(prev => [...prev, { role: 'assistant', content: response.answer }]);
+                await appendMessage({ role: 'assistant', content: response.answer, ...answerDetails(response) });
                 setAnswer(response.answer);
             }
         } catch (error: any) {
             const errorMessage = `❌ Lỗi: ${error.message || 'Unknown error'}`;
             setAnswer(errorMessage);
-            setConversation(prev => [...prev, { role: 'assistant', content: errorMessage }]);
+            await appendMessage({ role: 'assistant', content: errorMessage, error: true })
+                .catch(storageError => console.error('[Chat] Failed to save message:', storageError));
         } finally {
             setIsLoading(false);
         }
@@ -132,21 +194,49 @@ export function AIChat() {
                             ))}
                         </SelectContent>
                     </Select>
+                    {vaultStatus === 'unlocked' && (
+                        <Button variant="ghost" size="icon" title="Khóa khóa API" onClick={lockVault}>
+                            <LockOpen className="h-4 w-4" />
+                        </Button>
+                    )}
+                    {vaultStatus === 'locked' && (
+                        <Button variant="ghost" size="icon" title="Mở khóa khóa API" onClick={() => setUnlockOpen(true)}>
+                            <Lock className="h-4 w-4" />
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="icon" title="Cài đặt AI" onClick={openSettings}>
+                        <Settings className="h-4 w-4" />
+                    </Button>
                 </div>
             </div>
 
-            <div className="space-y-4">
+            <div className="flex gap-4">
+            {/* Saved sessions */}
+            <div className="w-56 shrink-0 h-[26rem]">
+                <ChatSessionList
+                    sessions={sessions.sessions}
+                    activeId={sessions.activeId}
+                    search={sessions.search}
+                    onSearchChange={sessions.setSearch}
+                    onSelect={sessions.select}
+                    onNew={sessions.startNew}
+                    onRename={sessions.rename}
+                    onDelete={sessions.remove}
+                />
+            </div>
+
+            <div className="space-y-4 flex-1 min-w-0">
                 {/* Conversation history */}
                 <div className="h-64 overflow-y-auto border rounded-lg p-4 bg-gray-50">
-                    {conversation.length === 0 ? (
+                    {messages.length === 0 ? (
                         <div className="flex items-center justify-center h-full text-gray-500">
                             Bắt đầu cuộc trò chuyện bằng cách đặt câu hỏi...
                         </div>
                     ) : (
                         <div className="space-y-4">
-                            {conversation.map((message, index) => (
+                            {messages.map((message) => (
                                 <div
-                                    key={index}
+                                    key={message.id}
                                     className={`p-3 rounded-lg ${message.role === 'user'
                                             ? 'bg-blue-100 ml-8'
                                             : 'bg-green-100 mr-8'
@@ -155,7 +245,41 @@ export function AIChat() {
                                     <div className="font-semibold mb-1">
                                         {message.role === 'user' ? 'Bạn' : 'Trợ lý AI'}
                                     </div>
-                                    <div className="whitespace-pre-wrap">{message.content}</div>
+                                    {message.searchQuery && (
+                                        <div className="text-xs text-gray-500 italic mb-1">
+                                            Tìm kiếm với: {message.searchQuery}
+                                        </div>
+                                    )}
+                                    {message.role === 'assistant' && message.sources && message.sources.length > 0 ? (
+                                        <CitedAnswer
+                                            content={message.content}
+                                            sources={message.sources}
+                                            grounding={message.grounding}
+                                            onOpenSource={(source: RetrievedChunk) => setViewing({ ...source, text: source.content })}
+                                        />
+                                    ) : (
+                                        <div className="whitespace-pre-wrap">{message.content}</div>
+                                    )}
+                                    {message.role === 'assistant' && message.model && (
+                                        <div className="mt-1 text-xs text-gray-500">
+                                            {message.provider} · {message.model}
+                                            {message.fallbackFrom && (
+                                                <span className="text-amber-700"> (thay cho {message.fallbackFrom} đang lỗi)</span>
+                                            )}
+                                            {message.usage && ` · ${message.usage.totalTokens} tokens`}
+                                            {message.context && message.context.dropped.length > 0 && (
+                                                <span
+                                                    className="text-amber-700"
+                                                    title={message.context.dropped
+                                                        .map((source) => formatSourceCitation(source))
+                                                        .join('\n')}
+                                                >
+                                                    {' · '}{message.context.dropped.length} đoạn bị lược bỏ do vượt giới hạn ngữ cảnh
+                                                </span>
+                                            )}
+                                            {' · '}{new Date(message.createdAt).toLocaleString('vi-VN')}
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                             {isLoading && answer && (
@@ -200,20 +324,44 @@ export function AIChat() {
 
                 {/* Options */}
                 <div className="flex items-center justify-between">
-                    <label className="flex items-center gap-2 text-sm">
-                        <input
-                            type="checkbox"
-                            checked={streaming}
-                            onChange={(e) => setStreaming(e.target.checked)}
-                        />
-                        Phản hồi thời gian thực
-                    </label>
+                    <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={streaming}
+                                onChange={(e) => setStreaming(e.target.checked)}
+                            />
+                            Phản hồi thời gian thực
+                        </label>
+                        <label className="flex items-center gap-2 text-sm" title="Mô hình AI kiểm tra lại từng câu trả lời với tài liệu nguồn (tốn thêm một lượt gọi)">
+                            <input
+                                type="checkbox"
+                                checked={judgeAnswers}
+                                onChange={(e) => setJudgeAnswers(e.target.checked)}
+                            />
+                            Kiểm chứng bằng AI
+                        </label>
+                    </div>
 
                     <div className="text-sm text-gray-600">
                         Nhà cung cấp hiện tại: <span className="font-semibold capitalize">{currentProvider}</span>
                     </div>
                 </div>
             </div>
+            </div>
+
+            <DocumentViewer source={viewing} onClose={() => setViewing(null)} />
+            {providerSettings && ragSettings && (
+                <AISettingsPanel
+                    open={settingsOpen}
+                    onOpenChange={setSettingsOpen}
+                    providerSettings={providerSettings}
+                    ragSettings={ragSettings}
+                    vaultStatus={vaultStatus}
+                    onSave={saveSettings}
+                />
+            )}
+            <VaultUnlockDialog open={unlockOpen} onOpenChange={setUnlockOpen} onUnlock={unlockVault} onReset={resetVault} />
         </Card>
     );
 }
\ No newline at end of file
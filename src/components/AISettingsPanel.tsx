@@ -0,0 +1,493 @@
+/**
+ * AI Settings Panel
+ * Edits provider keys, models, endpoints, fallback order, retries, timeouts and RAG options.
+ * Saved settings take effect immediately, without reloading the page. The first API keys
+ * saved ask for the passphrase that encrypts them.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, RefreshCw } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { OpenAIProvider } from '@/services/ai/providers/openai';
+import { GeminiProvider } from '@/services/ai/providers/gemini';
+import { AnthropicProvider } from '@/services/ai/providers/anthropic';
+import { GroqProvider } from '@/services/ai/providers/groq';
+import { OllamaProvider } from '@/services/ai/providers/ollama';
+import { OpenAICompatibleProvider } from '@/services/ai/providers/openaiCompatible';
+import type { ProviderConfigs } from '@/services/ai/providerFactory';
+import { hasProviderKeys } from '@/services/ai/settings';
+import type { VaultStatus } from '@/hooks/useAIManager';
+import type { AIProvider, AIProviderSettings, RAGSettings, RerankerType } from '@/services/ai/types';
+import { DEFAULT_MODELS, PROVIDER_NAMES } from '@/services/ai/types';
+
+/**
+ * Fields of any provider's settings, as edited in the form
+ */
+interface ProviderForm {
+  apiKey?: string;
+  baseUrl?: string;
+  model: string;
+  headers?: Record<string, string>;
+  enabled: boolean;
+}
+
+const PROVIDERS = Object.keys(DEFAULT_MODELS) as AIProvider[];
+
+const SELF_HOSTED: AIProvider[] = ['ollama', 'openai-compatible'];
+
+const DEFAULT_BASE_URLS: Partial<Record<AIProvider, string>> = {
+  ollama: 'http://localhost:11434',
+  'openai-compatible': 'http://localhost:8000/v1',
+};
+
+const SUGGESTED_MODELS: Partial<Record<AIProvider, string[]>> = {
+  openai: OpenAIProvider.getAvailableModels(),
+  gemini: GeminiProvider.getAvailableModels(),
+  anthropic: AnthropicProvider.getAvailableModels(),
+  groq: GroqProvider.getAvailableModels(),
+  ollama: OllamaProvider.getRecommendedModels().map((model) => model.name),
+};
+
+function providerForm(configs: ProviderConfigs, name: AIProvider): ProviderForm {
+  return (
+    (configs[name] as ProviderForm | undefined) ?? {
+      apiKey: SELF_HOSTED.includes(name) ? undefined : '',
+      baseUrl: DEFAULT_BASE_URLS[name],
+      model: DEFAULT_MODELS[name],
+      enabled: false,
+    }
+  );
+}
+
+interface AISettingsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  providerSettings: AIProviderSettings;
+  ragSettings: RAGSettings;
+  vaultStatus: VaultStatus;
+  onSave: (providers: AIProviderSettings, rag: RAGSettings, passphrase?: string) => Promise<void>;
+}
+
+/**
+ * Shortest passphrase accepted for the key vault
+ */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
+  open,
+  onOpenChange,
+  providerSettings,
+  ragSettings,
+  vaultStatus,
+  onSave,
+}) => {
+  const { toast } = useToast();
+  const [providers, setProviders] = useState(providerSettings);
+  const [rag, setRag] = useState(ragSettings);
+  const [headersText, setHeadersText] = useState('');
+  const [discovered, setDiscovered] = useState<string[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+
+  // Start from the current settings each time the panel opens
+  useEffect(() => {
+    if (!open) return;
+    setProviders(providerSettings);
+    setRag(ragSettings);
+    const headers = providerSettings.providers['openai-compatible']?.headers;
+    setHeadersText(headers ? JSON.stringify(headers, null, 2) : '');
+    setDiscovered([]);
+    setPassphrase('');
+    setPassphraseConfirm('');
+  }, [open, providerSettings, ragSettings]);
+
+  // Keys are about to be stored for the first time
+  const needsPassphrase = vaultStatus === 'none' && hasProviderKeys(providers, import.meta.env);
+
+  const updateProvider = (name: AIProvider, changes: Partial<ProviderForm>) => {
+    setProviders((current) => ({
+      ...current,
+      providers: {
+        ...current.providers,
+        [name]: { ...providerForm(current.providers, name), ...changes },
+      } as ProviderConfigs,
+    }));
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    setProviders((current) => {
+      const order = [...current.fallbackOrder];
+      const target = index + offset;
+      if (target < 0 || target >= order.length) return current;
+      [order[index], order[target]] = [order[target], order[index]];
+      return { ...current, fallbackOrder: order };
+    });
+  };
+
+  const parseHeaders = (): Record<string, string> | undefined | null => {
+    if (!headersText.trim()) return undefined;
+    try {
+      const headers = JSON.parse(headersText);
+      return headers && typeof headers === 'object' && !Array.isArray(headers) ? headers : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const handleDiscoverModels = async () => {
+    const config = providerForm(providers.providers, 'openai-compatible');
+    if (!config.baseUrl) return;
+
+    setIsDiscovering(true);
+    try {
+      const server = new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        headers: parseHeaders() ?? undefined,
+      });
+      const models = await server.listModels();
+      setDiscovered(models);
+      if (models.length === 0) {
+        toast({ title: 'Không tìm thấy model', description: `Máy chủ ${config.baseUrl} không trả về model nào.`, variant: 'destructive' });
+      }
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const headers = parseHeaders();
+    if (headers === null) {
+      toast({ title: 'Header không hợp lệ', description: 'Nhập header dạng JSON, ví dụ {"X-Tenant": "acme"}.', variant: 'destructive' });
+      return;
+    }
+
+    if (needsPassphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({ title: 'Cần mật khẩu', description: `Mật khẩu bảo vệ khóa API phải có ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự.`, variant: 'destructive' });
+      return;
+    }
+    if (needsPassphrase && passphrase !== passphraseConfirm) {
+      toast({ title: 'Mật khẩu không khớp', description: 'Nhập lại mật khẩu xác nhận.', variant: 'destructive' });
+      return;
+    }
+
+    const compatible = providers.providers['openai-compatible'];
+    const next: AIProviderSettings = compatible
+      ? { ...providers, providers: { ...providers.providers, 'openai-compatible': { ...compatible, headers } } }
+      : providers;
+
+    setIsSaving(true);
+    try {
+      await onSave(next, rag, needsPassphrase ? passphrase : undefined);
+      toast({ title: 'Đã lưu cài đặt AI', description: 'Nhà cung cấp đã được cấu hình lại.' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Không lưu được cài đặt',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Cài đặt AI</SheetTitle>
+          <SheetDescription>
+            Khóa API, model và máy chủ của từng nhà cung cấp. Cài đặt được lưu trên trình duyệt này.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-4">
+          {/* Providers */}
+          {PROVIDERS.map((name) => {
+            const config = providerForm(providers.providers, name);
+            const suggestions = name === 'openai-compatible' ? discovered : SUGGESTED_MODELS[name] ?? [];
+
+            return (
+              <div key={name} className="space-y-2 border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`${name}-enabled`} className="font-semibold">{PROVIDER_NAMES[name]}</Label>
+                  <Switch
+                    id={`${name}-enabled`}
+                    checked={config.enabled}
+                    onCheckedChange={(enabled) => updateProvider(name, { enabled })}
+                  />
+                </div>
+
+                {config.enabled && (
+                  <div className="space-y-2">
+                    {config.baseUrl !== undefined && (
+                      <Input
+                        placeholder="Địa chỉ máy chủ"
+                        value={config.baseUrl}
+                        onChange={(e) => updateProvider(name, { baseUrl: e.target.value })}
+                      />
+                    )}
+                    {name !== 'ollama' && (
+                      <Input
+                        type="password"
+                        placeholder={name === 'openai-compatible' ? 'Khóa API (nếu máy chủ yêu cầu)' : 'Khóa API'}
+                        value={config.apiKey ?? ''}
+                        onChange={(e) => updateProvider(name, { apiKey: e.target.value })}
+                      />
+                    )}
+                    <div className="flex gap-2">
+                      <Input
+                        list={`${name}-models`}
+                        placeholder={name === 'openai-compatible' ? 'Model (để trống để dùng model đầu tiên)' : 'Model'}
+                        value={config.model}
+                        onChange={(e) => updateProvider(name, { model: e.target.value })}
+                      />
+                      {name === 'openai-compatible' && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          title="Lấy danh sách model từ máy chủ"
+                          onClick={handleDiscoverModels}
+                          disabled={isDiscovering || !config.baseUrl}
+                        >
+                          {isDiscovering ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                    <datalist id={`${name}-models`}>
+                      {suggestions.map((model) => (
+                        <option key={model} value={model} />
+                      ))}
+                    </datalist>
+                    {name === 'openai-compatible' && (
+                      <Textarea
+                        placeholder='Header bổ sung (JSON), ví dụ {"X-Tenant": "acme"}'
+                        value={headersText}
+                        onChange={(e) => setHeadersText(e.target.value)}
+                        rows={2}
+                        className="font-mono text-xs"
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <Separator />
+
+          {/* Provider selection and fallback */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label>Nhà cung cấp mặc định</Label>
+              <Select
+                value={providers.defaultProvider}
+                onValueChange={(value) => setProviders({ ...providers, defaultProvider: value as AIProvider })}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDERS.map((name) => (
+                    <SelectItem key={name} value={name}>{PROVIDER_NAMES[name]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="auto-fallback">Tự động chuyển nhà cung cấp khi lỗi</Label>
+              <Switch
+                id="auto-fallback"
+                checked={providers.enableAutoFallback}
+                onCheckedChange={(enableAutoFallback) => setProviders({ ...providers, enableAutoFallback })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Thứ tự dự phòng</Label>
+              {providers.fallbackOrder.map((name, index) => (
+                <div key={name} className="flex items-center justify-between text-sm border rounded px-2 py-1">
+                  <span>
+                    {index + 1}. {PROVIDER_NAMES[name]}
+                    {!providerForm(providers.providers, name).enabled && (
+                      <span className="text-gray-400"> (tắt)</span>
+                    )}
+                  </span>
+                  <div className="flex">
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => moveFallback(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => moveFallback(index, 1)}
+                      disabled={index === providers.fallbackOrder.length - 1}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="max-retries">Số lần thử lại</Label>
+                <Input
+                  id="max-retries"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={providers.maxRetries}
+                  onChange={(e) => setProviders({ ...providers, maxRetries: Math.max(0, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="timeout">Thời gian chờ (giây)</Label>
+                <Input
+                  id="timeout"
+                  type="number"
+                  min={5}
+                  value={providers.timeout / 1000}
+                  onChange={(e) => setProviders({ ...providers, timeout: Math.max(5, Number(e.target.value)) * 1000 })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Retrieval and prompting */}
+          <div className="space-y-3">
+            <h3 className="font-semibold">Truy xuất tài liệu</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="top-k">Số đoạn truy xuất</Label>
+                <Input
+                  id="top-k"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={rag.defaultTopK}
+                  onChange={(e) => setRag({ ...rag, defaultTopK: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="threshold">Ngưỡng tương đồng</Label>
+                <Input
+                  id="threshold"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={rag.defaultThreshold}
+                  onChange={(e) => setRag({ ...rag, defaultThreshold: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="max-context">Giới hạn ngữ cảnh (token)</Label>
+                <Input
+                  id="max-context"
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={rag.maxContextLength}
+                  onChange={(e) => setRag({ ...rag, maxContextLength: Math.max(1000, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Sắp xếp lại kết quả</Label>
+                <Select value={rag.reranker} onValueChange={(value) => setRag({ ...rag, reranker: value as RerankerType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Không</SelectItem>
+                    <SelectItem value="cross-encoder">Cross-encoder (cục bộ)</SelectItem>
+                    <SelectItem value="llm">Mô hình AI</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {rag.reranker !== 'none' && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="rerank-candidates">Số ứng viên</Label>
+                    <Input
+                      id="rerank-candidates"
+                      type="number"
+                      min={rag.rerankTopK}
+                      max={100}
+                      value={rag.rerankCandidates}
+                      onChange={(e) => setRag({ ...rag, rerankCandidates: Math.max(1, Number(e.target.value)) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rerank-top-k">Giữ lại sau sắp xếp</Label>
+                    <Input
+                      id="rerank-top-k"
+                      type="number"
+                      min={1}
+                      value={rag.rerankTopK}
+                      onChange={(e) => setRag({ ...rag, rerankTopK: Math.max(1, Number(e.target.value)) })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="enable-streaming">Hiển thị câu trả lời dần (streaming)</Label>
+              <Switch
+                id="enable-streaming"
+                checked={rag.enableStreaming}
+                onCheckedChange={(enableStreaming) => setRag({ ...rag, enableStreaming })}
+              />
+            </div>
+          </div>
+
+          {needsPassphrase && (
+            <div className="space-y-2 border border-amber-300 bg-amber-50 rounded-lg p-3">
+              <Label>Mật khẩu bảo vệ khóa API</Label>
+              <p className="text-xs text-gray-600">
+                Khóa API được mã hóa bằng mật khẩu này trước khi lưu. Bạn sẽ nhập lại mật khẩu ở mỗi phiên làm việc;
+                nếu quên, cần nhập lại các khóa.
+              </p>
+              <Input
+                type="password"
+                placeholder="Mật khẩu"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                placeholder="Nhập lại mật khẩu"
+                value={passphraseConfirm}
+                onChange={(e) => setPassphraseConfirm(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Hủy</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Lưu
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
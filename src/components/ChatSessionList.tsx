@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit, MessageSquare, MoreHorizontal, Plus, Search, Trash2 } from 'lucide-react';
+import { StoredConversation } from '@/utils/persistentStorage';
+
+interface ChatSessionListProps {
+  sessions: StoredConversation[];
+  activeId: string | null;
+  search: string;
+  onSearchChange: (search: string) => void;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  sessions,
+  activeId,
+  search,
+  onSearchChange,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}) => {
+  const [sessionToRename, setSessionToRename] = useState<StoredConversation | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [sessionToDelete, setSessionToDelete] = useState<StoredConversation | null>(null);
+
+  const handleOpenRename = (session: StoredConversation) => {
+    setSessionToRename(session);
+    setNewTitle(session.title);
+  };
+
+  const handleRename = () => {
+    if (sessionToRename) {
+      onRename(sessionToRename.id, newTitle);
+      setSessionToRename(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (sessionToDelete) {
+      onDelete(sessionToDelete.id);
+      setSessionToDelete(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <Button variant="outline" size="sm" className="mb-2" onClick={onNew}>
+        <Plus className="mr-2 h-4 w-4" />
+        Cuộc trò chuyện mới
+      </Button>
+
+      <div className="relative mb-2">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(e) => onSearchChange(e.target.value)}
+          placeholder="Tìm cuộc trò chuyện..."
+          className="pl-8 h-9"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {sessions.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-4">
+            {search ? 'Không tìm thấy cuộc trò chuyện nào' : 'Chưa có cuộc trò chuyện nào'}
+          </p>
+        ) : (
+          sessions.map(session => (
+            <div key={session.id} className="flex items-center">
+              <Button
+                variant={session.id === activeId ? 'secondary' : 'ghost'}
+                className="flex-1 justify-start text-left h-auto py-1.5 min-w-0"
+                onClick={() => onSelect(session.id)}
+              >
+                <MessageSquare className="mr-2 h-4 w-4 shrink-0" />
+                <div className="min-w-0">
+                  <div className="truncate text-sm">{session.title}</div>
+                  <div className="text-xs text-gray-500 font-normal">
+                    {new Date(session.updatedAt).toLocaleDateString('vi-VN')} · {session.messageCount} tin nhắn
+                  </div>
+                </div>
+              </Button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 ml-1 shrink-0">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleOpenRename(session)}>
+                    <Edit className="mr-2 h-4 w-4" />
+                    Đổi tên
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setSessionToDelete(session)}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Xóa
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Rename Dialog */}
+      <Dialog open={!!sessionToRename} onOpenChange={(open) => !open && setSessionToRename(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Đổi tên cuộc trò chuyện</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSessionToRename(null)}>Hủy</Button>
+            <Button onClick={handleRename}>Lưu</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!sessionToDelete} onOpenChange={(open) => !open && setSessionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xác nhận xóa cuộc trò chuyện</AlertDialogTitle>
+            <AlertDialogDescription>
+              Bạn có chắc chắn muốn xóa "{sessionToDelete?.title}"? Toàn bộ tin nhắn và nguồn trích dẫn sẽ bị xóa.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-500 hover:bg-red-600">
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
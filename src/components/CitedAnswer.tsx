@@ -0,0 +1,137 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ExternalLink, FileText } from 'lucide-react';
+import type { GroundingReport, RetrievedChunk, SentenceSupport } from '@/services/ai/types';
+import { formatPageRange, formatSourceCitation, parseCitations } from '@/utils/citationUtils';
+import { DOCUMENT_STATUS_LABELS } from '@/utils/documentVersioning';
+
+interface CitedAnswerProps {
+  content: string;
+  sources: RetrievedChunk[];
+  grounding?: GroundingReport;
+  onOpenSource?: (source: RetrievedChunk) => void;
+}
+
+interface SourcePopoverProps {
+  number: number;
+  source: RetrievedChunk;
+  onOpen?: (source: RetrievedChunk) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Source chunk behind a citation marker: document, page, article path and text
+ */
+const SourcePopover: React.FC<SourcePopoverProps> = ({ number, source, onOpen, children }) => (
+  <Popover>
+    <PopoverTrigger asChild>{children}</PopoverTrigger>
+    <PopoverContent className="w-96" align="start">
+      <div className="flex items-start gap-2 mb-2">
+        <FileText className="h-4 w-4 mt-0.5 shrink-0 text-gray-500" />
+        <div className="min-w-0">
+          <div className="font-semibold text-sm">[{number}] {source.documentName}</div>
+          <div className="text-xs text-gray-500">
+            {[formatPageRange(source.pageStart, source.pageEnd), source.sectionPath].filter(Boolean).join(' · ')}
+          </div>
+        </div>
+        {source.documentStatus && source.documentStatus !== 'effective' && (
+          <Badge variant="outline" className="shrink-0">{DOCUMENT_STATUS_LABELS[source.documentStatus]}</Badge>
+        )}
+      </div>
+      <div className="max-h-60 overflow-y-auto text-sm whitespace-pre-wrap border-t pt-2">
+        {source.content}
+      </div>
+      {onOpen && (
+        <Button variant="outline" size="sm" className="mt-2 w-full" onClick={() => onOpen(source)}>
+          <ExternalLink className="h-3 w-3 mr-1" />
+          Mở tài liệu
+        </Button>
+      )}
+    </PopoverContent>
+  </Popover>
+);
+
+/**
+ * Why a sentence is marked as unsupported
+ */
+function unsupportedReason(sentence: SentenceSupport): string {
+  const reason = sentence.unsupportedNumbers
+    ? `Số liệu không có trong tài liệu nguồn: ${sentence.unsupportedNumbers.join(', ')}`
+    : 'Không tìm thấy nội dung này trong tài liệu nguồn';
+  return `${reason} (độ tin cậy ${Math.round(sentence.score * 100)}%)`;
+}
+
+/**
+ * Answer text with clickable [n] markers, followed by the sources it cites.
+ * Sentences the grounding check could not support are shown in red.
+ */
+export const CitedAnswer: React.FC<CitedAnswerProps> = ({ content, sources, grounding, onOpenSource }) => {
+  const { cited } = parseCitations(content, sources);
+  // Answers without markers still list what was retrieved
+  const listed = cited.length > 0 ? cited : sources.map((_, index) => index + 1);
+  const unsupported = grounding?.sentences.filter(sentence => !sentence.supported) ?? [];
+
+  const renderText = (text: string) =>
+    parseCitations(text, sources).segments.map((segment, index) =>
+      segment.type === 'text' ? (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ) : (
+        <SourcePopover key={index} number={segment.number} source={segment.source} onOpen={onOpenSource}>
+          <button
+            type="button"
+            className="align-super text-[10px] font-semibold text-blue-700 hover:underline px-0.5"
+            title={formatSourceCitation(segment.source)}
+          >
+            [{segment.number}]
+          </button>
+        </SourcePopover>
+      )
+    );
+
+  // Unsupported sentences split the answer into plain and marked parts
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  unsupported.forEach((sentence, index) => {
+    parts.push(<React.Fragment key={`text-${index}`}>{renderText(content.slice(cursor, sentence.start))}</React.Fragment>);
+    parts.push(
+      <span
+        key={`claim-${index}`}
+        className="text-red-700 bg-red-50 underline decoration-dotted"
+        title={unsupportedReason(sentence)}
+      >
+        {renderText(content.slice(sentence.start, sentence.end))}
+      </span>
+    );
+    cursor = sentence.end;
+  });
+  parts.push(<React.Fragment key="text-end">{renderText(content.slice(cursor))}</React.Fragment>);
+
+  return (
+    <div>
+      <div className="whitespace-pre-wrap">{parts}</div>
+
+      {unsupported.length > 0 && (
+        <div className="mt-2 flex items-center gap-1 text-xs text-red-700">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {unsupported.length}/{grounding!.sentences.length} câu không được tài liệu nguồn hỗ trợ — kiểm tra lại trước khi sử dụng số liệu
+        </div>
+      )}
+
+      {listed.length > 0 && (
+        <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+          <div className="font-medium">{cited.length > 0 ? 'Nguồn trích dẫn:' : 'Tài liệu tham khảo:'}</div>
+          {listed.map(number => (
+            <SourcePopover key={number} number={number} source={sources[number - 1]} onOpen={onOpenSource}>
+              <button type="button" className="block text-left hover:underline">
+                [{number}] {formatSourceCitation(sources[number - 1])}
+                {sources[number - 1].sectionPath && ` (${sources[number - 1].sectionPath})`}
+              </button>
+            </SourcePopover>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,18 +1,31 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { FileX } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock, FileX } from 'lucide-react';
 import { DocumentItem } from '@/hooks/useDocuments';
+import { DocumentStatus, DocumentVersionInfo, DOCUMENT_STATUS_LABELS, getDocumentStatus } from '@/utils/documentVersioning';
+import { DocumentVersionDialog } from '@/components/DocumentVersionDialog';
 
 interface DocumentListProps {
   documents: DocumentItem[];
   onDelete: (id: string) => void;
+  onUpdateVersion?: (id: string, changes: DocumentVersionInfo) => void;
 }
 
-export const DocumentList: React.FC<DocumentListProps> = ({ 
-  documents, 
-  onDelete 
+const STATUS_VARIANTS: Record<Exclude<DocumentStatus, 'effective'>, 'destructive' | 'secondary' | 'outline'> = {
+  expired: 'destructive',
+  superseded: 'secondary',
+  pending: 'outline'
+};
+
+export const DocumentList: React.FC<DocumentListProps> = ({
+  documents,
+  onDelete,
+  onUpdateVersion
 }) => {
+  const [editing, setEditing] = React.useState<DocumentItem | null>(null);
+
   if (documents.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500">
@@ -21,7 +34,11 @@ export const DocumentList: React.FC<DocumentListProps> = ({
     );
   }
 
+  const successorName = (doc: DocumentItem) =>
+    documents.find(other => other.id === doc.supersededBy)?.name;
+
   return (
+    <>
     <table className="min-w-full divide-y divide-gray-200">
       <thead className="bg-gray-50">
         <tr>
@@ -33,20 +50,57 @@ export const DocumentList: React.FC<DocumentListProps> = ({
         </tr>
       </thead>
       <tbody className="bg-white divide-y divide-gray-200">
-        {documents.map((doc) => (
-          <tr key={doc.id}>
-            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{doc.name}</td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 uppercase">{doc.type}</td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{doc.size}</td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{doc.dateAdded}</td>
-            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-              <Button variant="ghost" size="sm" onClick={() => onDelete(doc.id)}>
-                <FileX className="h-4 w-4 text-red-500" />
-              </Button>
-            </td>
-          </tr>
-        ))}
+        {documents.map((doc) => {
+          const status = getDocumentStatus(doc);
+          return (
+            <tr key={doc.id}>
+              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                <div className="flex items-center gap-2">
+                  <span className={status === 'effective' ? undefined : 'text-gray-500'}>{doc.name}</span>
+                  {status !== 'effective' && (
+                    <Badge
+                      variant={STATUS_VARIANTS[status]}
+                      title={status === 'superseded' && successorName(doc) ? `Thay thế bởi ${successorName(doc)}` : undefined}
+                    >
+                      {DOCUMENT_STATUS_LABELS[status]}
+                    </Badge>
+                  )}
+                </div>
+                {(doc.effectiveFrom || doc.expiredOn) && (
+                  <div className="text-xs text-gray-500 font-normal">
+                    {doc.effectiveFrom && `Hiệu lực từ ${doc.effectiveFrom}`}
+                    {doc.effectiveFrom && doc.expiredOn && ' · '}
+                    {doc.expiredOn && `Hết hiệu lực ${doc.expiredOn}`}
+                  </div>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 uppercase">{doc.type}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{doc.size}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{doc.dateAdded}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                {onUpdateVersion && (
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(doc)} title="Hiệu lực văn bản">
+                    <CalendarClock className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => onDelete(doc.id)}>
+                  <FileX className="h-4 w-4 text-red-500" />
+                </Button>
+              </td>
+            </tr>
+          );
+        })}
       </tbody>
     </table>
+
+    {onUpdateVersion && (
+      <DocumentVersionDialog
+        document={editing}
+        documents={documents}
+        onSave={onUpdateVersion}
+        onClose={() => setEditing(null)}
+      />
+    )}
+    </>
   );
 };
@@ -6,14 +6,17 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Input } from '@/components/ui/input';
-import { Upload, Folder, AlertTriangle, FileText, Check } from 'lucide-react';
+import { Upload, Folder, FileText, Check } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { DocumentList } from '@/components/DocumentList';
 import { Folder as FolderType } from '@/hooks/useDocuments';
-import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 import { useAiModel } from '@/hooks/useAiModel';
-import { processDocument } from '@/utils/documentProcessor';
+import { useIngestionQueue } from '@/hooks/useIngestionQueue';
+import { IngestionQueuePanel } from '@/components/IngestionQueuePanel';
+import { UploadReviewDialog } from '@/components/UploadReviewDialog';
+import { inspectUploads, InspectedUpload } from '@/utils/ingestionQueue';
+import { DocumentStorage } from '@/utils/persistentStorage';
+import { DocumentVersionInfo } from '@/utils/documentVersioning';
 
 declare module 'react' {
   interface InputHTMLAttributes<T> extends HTMLAttributes<T> {
@@ -36,6 +39,7 @@ interface DocumentManagementProps {
   folderPath: FolderType[];
   currentFolderDocuments: any[];
   addDocument: (document: any) => void;
+  updateDocument: (id: string, changes: DocumentVersionInfo) => void;
   deleteDocument: (id: string) => void;
   getFolderPath: (folderId: string) => FolderType[];
   folders: FolderType[];
@@ -46,20 +50,50 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
   folderPath,
   currentFolderDocuments,
   addDocument,
+  updateDocument,
   deleteDocument,
   getFolderPath,
   folders
 }) => {
   const [isUploadDialogOpen, setIsUploadDialogOpen] = React.useState(false);
-  const [isProcessing, setIsProcessing] = React.useState(false);
-  const [processingProgress, setProcessingProgress] = React.useState(0);
-  const [processingFile, setProcessingFile] = React.useState('');
   const [includeSubfolders, setIncludeSubfolders] = React.useState(true);
   const [selectedFiles, setSelectedFiles] = React.useState<FileList | null>(null);
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
-  const { embeddingPipeline, selectedEmbeddingModel, loadEmbeddingModel } = useAiModel();
+  const { selectedEmbeddingModel } = useAiModel();
+  const [pendingReview, setPendingReview] = React.useState<{ uploads: InspectedUpload[]; folderId: string } | null>(null);
+  const ingestionQueue = useIngestionQueue(async (job) => {
+    const stored = job.result && await DocumentStorage.get(job.result.documentId);
+    const { regulationCode, version, effectiveFrom, expiredOn, supersededBy, supersedes } = stored ?? {};
+    const versionInfo = { regulationCode, version, effectiveFrom, expiredOn, supersededBy, supersedes };
+
+    if (job.replace) {
+      updateDocument(job.result?.documentId ?? job.documentId, versionInfo);
+      toast({
+        title: "Đã cập nhật phiên bản mới",
+        description: `Tài liệu "${job.documentName}" đã được thay thế`,
+      });
+    } else {
+      addDocument({
+        ...versionInfo,
+        id: job.result?.documentId,
+        name: job.documentName,
+        type: job.fileName.toLowerCase().endsWith('.pdf') ? 'pdf' : 'docx',
+        size: `${(job.fileSize / (1024 * 1024)).toFixed(1)} MB`,
+        folderId: job.folderId
+      });
+    }
+
+    // Older issues of the same regulation were marked as superseded while storing
+    if (regulationCode) {
+      for (const other of await DocumentStorage.findByRegulationCode(regulationCode)) {
+        const { supersededBy, supersedes, expiredOn } = other;
+        updateDocument(other.id, { supersededBy, supersedes, expiredOn });
+      }
+    }
+  });
+  const { enqueue } = ingestionQueue;
   
   const uploadForm = useForm<UploadFormValues>({
     resolver: zodResolver(uploadSchema),
@@ -72,75 +106,81 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
     uploadForm.setValue("folderId", selectedFolderId);
   }, [selectedFolderId, uploadForm]);
 
+  /**
+   * Hash the files first: duplicates and new versions of stored documents need a review
+   * before anything is queued. Returns the number of queued files, or null when deferred.
+   */
+  const queueUploads = async (files: File[], folderId: string): Promise<number | null> => {
+    const inspected = await inspectUploads(files, folderId);
+    if (inspected.some(upload => upload.duplicateOf || upload.previousVersion)) {
+      setPendingReview({ uploads: inspected, folderId });
+      return null;
+    }
+    await enqueue(inspected, folderId, selectedEmbeddingModel);
+    return inspected.length;
+  };
+
+  const handleReviewConfirm = async (replace: Set<InspectedUpload>) => {
+    if (!pendingReview) return;
+    const { uploads, folderId } = pendingReview;
+    setPendingReview(null);
+
+    try {
+      const accepted = uploads
+        .filter(upload => !upload.duplicateOf)
+        .map(upload => ({
+          file: upload.file,
+          contentHash: upload.contentHash,
+          replaceDocumentId: replace.has(upload) ? upload.previousVersion?.id : undefined
+        }));
+      await enqueue(accepted, folderId, selectedEmbeddingModel);
+
+      toast({
+        title: "Đã thêm vào hàng đợi",
+        description: `${accepted.length} tệp tin sẽ được xử lý trong nền (bỏ qua ${uploads.length - accepted.length} tệp trùng lặp)`,
+      });
+    } catch (error) {
+      console.error('Error queueing documents:', error);
+      toast({
+        title: "Lỗi khi xử lý tài liệu",
+        description: error instanceof Error ? error.message : "Có lỗi xảy ra khi xử lý tài liệu",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUpdateVersion = async (id: string, changes: DocumentVersionInfo) => {
+    try {
+      await DocumentStorage.update(id, changes);
+      updateDocument(id, changes);
+    } catch (error) {
+      console.error('Error updating document validity:', error);
+      toast({
+        title: "Lỗi khi cập nhật hiệu lực",
+        description: error instanceof Error ? error.message : "Có lỗi xảy ra khi cập nhật tài liệu",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleUploadSubmit = async (values: UploadFormValues) => {
     try {
-      setIsProcessing(true);
-      setProcessingProgress(0);
-      
-      const files = values.file;
-      const totalFiles = files.length;
+      const queued = await queueUploads(Array.from(values.file), values.folderId);
       
-      if (!embeddingPipeline) {
+      if (queued !== null) {
         toast({
-          title: "Đang tải model embedding",
-          description: "Vui lòng đợi trong khi model embedding đang được tải...",
+          title: "Đã thêm vào hàng đợi",
+          description: `${queued} tệp tin sẽ được xử lý trong nền`,
         });
-        await loadEmbeddingModel(selectedEmbeddingModel);
       }
-      
-      toast({
-        title: "Bắt đầu xử lý",
-        description: `Đang xử lý ${totalFiles} tệp tin...`,
-      });
-      
-      let processedFiles = 0;
-      let totalChunks = 0;
-      
-      for (let i = 0; i < totalFiles; i++) {
-        const file = files[i];
-        setProcessingFile(file.name);
-        
-        try {
-          const result = await processDocument(file, values.folderId, file.name, (progress) => {
-            const overallProgress = ((processedFiles + progress / 100) / totalFiles) * 100;
-            setProcessingProgress(overallProgress);
-          }, embeddingPipeline);
-          
-          totalChunks += result.chunks;
-          
-          const newDoc = {
-            name: file.name,
-            type: file.name.toLowerCase().endsWith('.pdf') ? 'pdf' : 'docx',
-            size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
-            folderId: values.folderId
-          };
-          
-          addDocument(newDoc);
-          processedFiles++;
-          
-        } catch (fileError) {
-          console.error(`Error processing file ${file.name}:`, fileError);
-          toast({
-            title: `Lỗi khi xử lý ${file.name}`,
-            description: fileError instanceof Error ? fileError.message : "Có lỗi xảy ra",
-            variant: "destructive",
-          });
-        }
-      }
-      
-      toast({
-        title: "Tải lên thành công",
-        description: `Đã xử lý ${processedFiles}/${totalFiles} tệp tin và trích xuất ${totalChunks} đoạn văn bản`,
-      });
     } catch (error) {
-      console.error('Error processing documents:', error);
+      console.error('Error queueing documents:', error);
       toast({
         title: "Lỗi khi xử lý tài liệu",
         description: error instanceof Error ? error.message : "Có lỗi xảy ra khi xử lý tài liệu",
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
       setSelectedFiles(null);
       uploadForm.reset();
       setIsUploadDialogOpen(false);
@@ -158,17 +198,6 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
     if (!allFiles || allFiles.length === 0) return;
     
     try {
-      setIsProcessing(true);
-      setProcessingProgress(0);
-      
-      if (!embeddingPipeline) {
-        toast({
-          title: "Đang tải model embedding",
-          description: "Vui lòng đợi trong khi model embedding đang được tải...",
-        });
-        await loadEmbeddingModel(selectedEmbeddingModel);
-      }
-      
       // Filter files based on subfolder option
       let filesToProcess: File[] = Array.from(allFiles);
       
@@ -199,58 +228,14 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
         });
       }
       
-      const totalFiles = filesToProcess.length;
-      let processedFiles = 0;
-      let totalChunks = 0;
+      const queued = await queueUploads(filesToProcess, selectedFolderId);
       
-      toast({
-        title: "Bắt đầu xử lý thư mục",
-        description: `Đang xử lý ${totalFiles} tệp tin...`,
-      });
-      
-      for (let i = 0; i < totalFiles; i++) {
-        const file = filesToProcess[i];
-        setProcessingFile(file.name);
-        
-        try {
-          const result = await processDocument(file, selectedFolderId, file.name, (progress) => {
-            const overallProgress = ((processedFiles + progress / 100) / totalFiles) * 100;
-            setProcessingProgress(overallProgress);
-          }, embeddingPipeline);
-          
-          totalChunks += result.chunks;
-          
-          const newDoc = {
-            name: file.name,
-            type: file.name.toLowerCase().endsWith('.pdf') ? 'pdf' : 'docx',
-            size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
-            folderId: selectedFolderId
-          };
-          
-          addDocument(newDoc);
-          
-          processedFiles++;
-          
-          if (processedFiles % 3 === 0 || processedFiles === totalFiles) {
-            toast({
-              title: `Đã xử lý ${processedFiles}/${totalFiles} tệp tin`,
-              description: `Đã trích xuất ${totalChunks} đoạn văn bản`,
-            });
-          }
-        } catch (fileError) {
-          console.error(`Error processing file ${file.name}:`, fileError);
-          toast({
-            title: `Lỗi khi xử lý tệp tin ${file.name}`,
-            description: fileError instanceof Error ? fileError.message : "Có lỗi xảy ra",
-            variant: "destructive",
-          });
-        }
+      if (queued !== null) {
+        toast({
+          title: "Đã thêm thư mục vào hàng đợi",
+          description: `${queued} tệp tin sẽ được xử lý trong nền, kể cả khi tải lại trang`,
+        });
       }
-      
-      toast({
-        title: "Xử lý thư mục hoàn tất",
-        description: `Đã xử lý ${processedFiles}/${totalFiles} tệp tin và trích xuất ${totalChunks} đoạn văn bản`,
-      });
     } catch (error) {
       console.error('Error processing folder:', error);
       toast({
@@ -259,7 +244,6 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
       if (folderInputRef.current) folderInputRef.current.value = '';
     }
   };
@@ -289,26 +273,20 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
         ))}
       </div>
       
-      {isProcessing && (
-        <Alert className="mb-4">
-          <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>Đang xử lý tài liệu</AlertTitle>
-          <AlertDescription>
-            <div className="mt-2">
-              <div className="flex justify-between mb-1">
-                <span>Đang xử lý: {processingFile}</span>
-                <span>{Math.round(processingProgress)}%</span>
-              </div>
-              <Progress value={processingProgress} className="h-2" />
-            </div>
-          </AlertDescription>
-        </Alert>
-      )}
+      <IngestionQueuePanel
+        jobs={ingestionQueue.jobs}
+        onPause={ingestionQueue.pause}
+        onResume={ingestionQueue.resume}
+        onRetry={ingestionQueue.retry}
+        onRetryFailed={ingestionQueue.retryFailed}
+        onRemove={ingestionQueue.remove}
+        onClearCompleted={ingestionQueue.clearCompleted}
+      />
       
       <div className="flex gap-4 mb-4">
         <Dialog open={isUploadDialogOpen} onOpenChange={setIsUploadDialogOpen}>
           <DialogTrigger asChild>
-            <Button variant="outline" disabled={isProcessing}>
+            <Button variant="outline">
               <Upload className="mr-2 h-4 w-4" />
               Tải lên tài liệu
             </Button>
@@ -386,12 +364,8 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
                 />
                 
                 <div className="flex justify-end">
-                  <Button type="submit" disabled={isProcessing}>
-                    {isProcessing ? (
-                      <>Đang xử lý...</>
-                    ) : (
-                      <>Tải lên</>
-                    )}
+                  <Button type="submit" disabled={uploadForm.formState.isSubmitting}>
+                    Tải lên
                   </Button>
                 </div>
               </form>
@@ -403,7 +377,6 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
           <Button 
             variant="outline" 
             onClick={handleFolderUpload}
-            disabled={isProcessing}
           >
             <Folder className="mr-2 h-4 w-4" />
             Nhập thư mục
@@ -440,8 +413,15 @@ export const DocumentManagement: React.FC<DocumentManagementProps> = ({
         <DocumentList 
           documents={currentFolderDocuments}
           onDelete={deleteDocument}
+          onUpdateVersion={handleUpdateVersion}
         />
       </div>
+
+      <UploadReviewDialog
+        uploads={pendingReview?.uploads ?? null}
+        onConfirm={handleReviewConfirm}
+        onCancel={() => setPendingReview(null)}
+      />
     </div>
   );
 };
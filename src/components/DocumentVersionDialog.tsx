@@ -0,0 +1,90 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DocumentItem } from '@/hooks/useDocuments';
+import { DocumentVersionInfo } from '@/utils/documentVersioning';
+
+interface DocumentVersionDialogProps {
+  document: DocumentItem | null;
+  documents: DocumentItem[]; // Candidates for "superseded by"
+  onSave: (id: string, changes: DocumentVersionInfo) => void;
+  onClose: () => void;
+}
+
+const NO_SUCCESSOR = 'none';
+
+export const DocumentVersionDialog: React.FC<DocumentVersionDialogProps> = ({
+  document,
+  documents,
+  onSave,
+  onClose
+}) => {
+  const [effectiveFrom, setEffectiveFrom] = React.useState('');
+  const [expiredOn, setExpiredOn] = React.useState('');
+  const [supersededBy, setSupersededBy] = React.useState(NO_SUCCESSOR);
+
+  React.useEffect(() => {
+    setEffectiveFrom(document?.effectiveFrom ?? '');
+    setExpiredOn(document?.expiredOn ?? '');
+    setSupersededBy(document?.supersededBy ?? NO_SUCCESSOR);
+  }, [document]);
+
+  const handleSave = () => {
+    if (!document) return;
+    // Empty fields clear the stored value
+    onSave(document.id, {
+      effectiveFrom: effectiveFrom || undefined,
+      expiredOn: expiredOn || undefined,
+      supersededBy: supersededBy === NO_SUCCESSOR ? undefined : supersededBy
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Hiệu lực văn bản</DialogTitle>
+          <DialogDescription>
+            {document?.name}
+            {document?.regulationCode && ` · ${document.regulationCode}${document.version ? `:${document.version}` : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="effectiveFrom">Có hiệu lực từ</Label>
+            <Input id="effectiveFrom" type="date" value={effectiveFrom} onChange={e => setEffectiveFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="expiredOn">Hết hiệu lực từ</Label>
+            <Input id="expiredOn" type="date" value={expiredOn} onChange={e => setExpiredOn(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Được thay thế bởi</Label>
+          <Select value={supersededBy} onValueChange={setSupersededBy}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SUCCESSOR}>Không có</SelectItem>
+              {documents.filter(doc => doc.id !== document?.id).map(doc => (
+                <SelectItem key={doc.id} value={doc.id}>{doc.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Hủy</Button>
+          <Button onClick={handleSave}>Lưu</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { DocumentFileStorage } from '@/utils/persistentStorage';
+import { openPdf } from '@/utils/ocrEngine';
+import { findChunkSpans, spanRect } from '@/utils/pdfHighlight';
+import { formatPageRange } from '@/utils/citationUtils';
+
+/**
+ * Where a retrieved passage lives, as needed to open and highlight it
+ */
+export interface SourceLocation {
+  documentId: string;
+  documentName: string;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+}
+
+interface DocumentViewerProps {
+  source: SourceLocation | null;
+  onClose: () => void;
+}
+
+type ViewerStatus = 'loading' | 'ready' | 'missing' | 'unsupported' | 'error';
+
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Rendered at a fixed width; the sheet scrolls vertically
+const RENDER_WIDTH = 720;
+
+const STATUS_MESSAGES: Partial<Record<ViewerStatus, string>> = {
+  missing: 'Không có tệp gốc cho tài liệu này (tài liệu được thêm trước khi lưu tệp gốc).',
+  unsupported: 'Trình xem chỉ hỗ trợ tệp PDF.',
+  error: 'Không mở được tệp PDF.'
+};
+
+/**
+ * PDF viewer that opens on the source's page and highlights the passage
+ * using the positions of the page's text items
+ */
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ source, onClose }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [status, setStatus] = useState<ViewerStatus>('loading');
+  const [pageNumber, setPageNumber] = useState(1);
+  const [highlights, setHighlights] = useState<HighlightBox[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Load the original file
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    setPdf(null);
+    setStatus('loading');
+    setPageNumber(source.pageStart ?? 1);
+
+    (async () => {
+      const file = await DocumentFileStorage.get(source.documentId);
+      if (!file) return setStatus('missing');
+      if (file.mimeType !== 'application/pdf') return setStatus('unsupported');
+
+      loaded = await openPdf(await file.blob.arrayBuffer());
+      if (cancelled) {
+        loaded.destroy();
+        return;
+      }
+      setPdf(loaded);
+      setStatus('ready');
+    })().catch(error => {
+      console.error('[Viewer] Failed to open document:', error);
+      if (!cancelled) setStatus('error');
+    });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [source]);
+
+  // Render the current page and highlight the passage on its pages
+  useEffect(() => {
+    if (!pdf || !source || !canvasRef.current) return;
+    let cancelled = false;
+    let renderTask: RenderTask | undefined;
+    const canvas = canvasRef.current;
+
+    (async () => {
+      setIsRendering(true);
+      setHighlights([]);
+
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: RENDER_WIDTH / baseViewport.width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+
+      renderTask = page.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport });
+      await renderTask.promise;
+
+      const firstPage = source.pageStart ?? 1;
+      const lastPage = source.pageEnd ?? firstPage;
+      if (cancelled || pageNumber < firstPage || pageNumber > lastPage) return;
+
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+      const boxes = findChunkSpans(items.map(item => item.str), source.text).map(span => {
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(spanRect(items[span.item], span));
+        return {
+          left: Math.min(x1, x2),
+          top: Math.min(y1, y2),
+          width: Math.abs(x2 - x1),
+          height: Math.abs(y2 - y1)
+        };
+      });
+      if (!cancelled) setHighlights(boxes);
+    })()
+      .catch(error => {
+        if (error?.name !== 'RenderingCancelledException') {
+          console.error('[Viewer] Failed to render page:', error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, source]);
+
+  // Bring the passage into view
+  const firstHighlightRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlights]);
+
+  const onSourcePages = !!source && pageNumber >= (source.pageStart ?? 1) && pageNumber <= (source.pageEnd ?? source.pageStart ?? 1);
+
+  return (
+    <Sheet open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="pr-6">{source?.documentName}</SheetTitle>
+          <SheetDescription>
+            {[formatPageRange(source?.pageStart, source?.pageEnd), source?.sectionPath].filter(Boolean).join(' · ')}
+          </SheetDescription>
+        </SheetHeader>
+
+        {status === 'ready' && pdf && (
+          <div className="flex items-center gap-2 my-3">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={pageNumber <= 1}
+              onClick={() => setPageNumber(page => page - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm">Trang {pageNumber} / {pdf.numPages}</span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={pageNumber >= pdf.numPages}
+              onClick={() => setPageNumber(page => page + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {isRendering && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+            {!isRendering && onSourcePages && highlights.length === 0 && (
+              <span className="text-xs text-gray-500">
+                Không định vị được đoạn trích trên trang này (có thể là bản quét)
+              </span>
+            )}
+          </div>
+        )}
+
+        {status === 'loading' && (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Đang mở tài liệu...</span>
+          </div>
+        )}
+
+        {STATUS_MESSAGES[status] && (
+          <div className="my-4 space-y-2">
+            <p className="text-sm text-gray-600">{STATUS_MESSAGES[status]}</p>
+            <div className="text-sm whitespace-pre-wrap border rounded p-3 bg-yellow-50">{source?.text}</div>
+          </div>
+        )}
+
+        <div className={status === 'ready' ? 'relative inline-block border shadow-sm' : 'hidden'}>
+          <canvas ref={canvasRef} className="block" />
+          {highlights.map((box, index) => (
+            <div
+              key={index}
+              ref={index === 0 ? firstHighlightRef : undefined}
+              className="absolute bg-yellow-300/40 mix-blend-multiply pointer-events-none rounded-sm"
+              style={box}
+            />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Pause, Play, RotateCcw, Trash2, X } from 'lucide-react';
+import { IngestionJob, IngestionStage } from '@/utils/persistentStorage';
+
+interface IngestionQueuePanelProps {
+  jobs: IngestionJob[];
+  onPause: () => void;
+  onResume: () => void;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: string) => void;
+  onClearCompleted: () => void;
+}
+
+const STAGE_LABELS: Record<IngestionStage, string> = {
+  extract: 'Trích xuất văn bản',
+  chunk: 'Chia đoạn',
+  embed: 'Tạo embedding',
+  store: 'Lưu trữ'
+};
+
+const STATUS_LABELS: Record<IngestionJob['status'], string> = {
+  queued: 'Chờ xử lý',
+  running: 'Đang xử lý',
+  paused: 'Tạm dừng',
+  completed: 'Hoàn tất',
+  failed: 'Lỗi'
+};
+
+export const IngestionQueuePanel: React.FC<IngestionQueuePanelProps> = ({
+  jobs,
+  onPause,
+  onResume,
+  onRetry,
+  onRetryFailed,
+  onRemove,
+  onClearCompleted
+}) => {
+  if (jobs.length === 0) return null;
+
+  const count = (status: IngestionJob['status']) => jobs.filter(job => job.status === status).length;
+  const completed = count('completed');
+  const failed = count('failed');
+  const paused = count('paused');
+  const pending = count('queued') + count('running');
+
+  return (
+    <div className="mb-4 border rounded-lg bg-white p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold">Hàng đợi xử lý</h3>
+          <p className="text-xs text-gray-500">
+            Đã xử lý {completed}/{jobs.length} tệp tin
+            {failed > 0 && ` · ${failed} lỗi`}
+            {paused > 0 && ` · ${paused} tạm dừng`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {pending > 0 && (
+            <Button variant="outline" size="sm" onClick={onPause}>
+              <Pause className="h-4 w-4 mr-1" /> Tạm dừng
+            </Button>
+          )}
+          {paused > 0 && (
+            <Button variant="outline" size="sm" onClick={onResume}>
+              <Play className="h-4 w-4 mr-1" /> Tiếp tục
+            </Button>
+          )}
+          {failed > 0 && (
+            <Button variant="outline" size="sm" onClick={onRetryFailed}>
+              <RotateCcw className="h-4 w-4 mr-1" /> Thử lại tất cả
+            </Button>
+          )}
+          {completed > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClearCompleted}>
+              <Trash2 className="h-4 w-4 mr-1" /> Xóa đã xong
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {jobs.map(job => (
+          <div key={job.id} className="text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate" title={job.fileName}>{job.fileName}</span>
+              <div className="flex items-center gap-1 shrink-0">
+                {job.status !== 'completed' && (
+                  <span className="text-xs text-gray-500">{STAGE_LABELS[job.stage]}</span>
+                )}
+                <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'completed' ? 'secondary' : 'outline'}>
+                  {STATUS_LABELS[job.status]}
+                </Badge>
+                {job.status === 'failed' && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRetry(job.id)} title="Thử lại">
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                )}
+                {(job.status === 'failed' || job.status === 'paused' || job.status === 'queued') && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemove(job.id)} title="Bỏ khỏi hàng đợi">
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {job.status === 'running' && <Progress value={job.progress} className="h-1.5 mt-1" />}
+            {job.status === 'failed' && job.error && (
+              <p className="text-xs text-red-600 mt-0.5">{job.error}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
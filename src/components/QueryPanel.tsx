@@ -81,10 +81,14 @@ export const QueryPanel: React.FC<QueryPanelProps> = ({
         // Convert to ResultChunk format
         const formattedResults: ResultChunk[] = searchResults.map(chunk => ({
           id: chunk.id,
+          documentId: chunk.documentId,
           text: chunk.text,
           score: chunk.score || 0,
           documentName: chunk.documentName,
-          folderId: chunk.folderId
+          folderId: chunk.folderId,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          sectionPath: chunk.sectionPath
         }));
 
         setResults(formattedResults);
@@ -134,10 +138,14 @@ export const QueryPanel: React.FC<QueryPanelProps> = ({
         // Convert to ResultChunk format
         const formattedResults: ResultChunk[] = filteredChunks.map(chunk => ({
           id: chunk.id,
+          documentId: chunk.documentId,
           text: chunk.text,
           score: chunk.score || 0,
           documentName: chunk.documentName,
-          folderId: chunk.folderId
+          folderId: chunk.folderId,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          sectionPath: chunk.sectionPath
         }));
         
         setResults(formattedResults);
@@ -1,15 +1,22 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Separator } from "@/components/ui/separator";
-import { FileText, Loader2 } from 'lucide-react';
+import { ExternalLink, FileText, Loader2 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { formatSourceCitation } from '@/utils/citationUtils';
+import { findMatchRanges } from '@/utils/vietnameseText';
+import { DocumentViewer, SourceLocation } from '@/components/DocumentViewer';
 
 export interface ResultChunk {
   id: string;
+  documentId: string;
   text: string;
   score: number;
   documentName: string;
   folderId: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
 }
 
 interface QueryResultsProps {
@@ -23,6 +30,8 @@ export const QueryResults: React.FC<QueryResultsProps> = ({
   results, 
   query 
 }) => {
+  const [viewing, setViewing] = useState<SourceLocation | null>(null);
+
   if (isLoading) {
     return (
       <div className="mt-6 p-6 bg-gray-50 rounded-lg border border-gray-200">
@@ -53,25 +62,25 @@ export const QueryResults: React.FC<QueryResultsProps> = ({
     return `${(score * 100).toFixed(1)}%`;
   };
 
-  // Highlight query terms in result text
+  // Highlight query terms in result text (ignores case and Vietnamese diacritics)
   const highlightMatch = (text: string, query: string) => {
-    if (!query.trim()) return text;
-    
-    // Split query into words and create a regex pattern
-    const words = query.trim().split(/\s+/).map(word => 
-      word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')); // Escape regex special chars
-    
-    const pattern = new RegExp(`(${words.join('|')})`, 'gi');
-    
-    // Split by pattern and wrap matches in highlight spans
-    const parts = text.split(pattern);
+    const ranges = findMatchRanges(text, query);
+    if (ranges.length === 0) return text;
     
-    return parts.map((part, i) => {
-      if (pattern.test(part)) {
-        return <span key={i} className="bg-yellow-100 px-0.5 rounded">{part}</span>;
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, i) => {
+      if (range.start > cursor) {
+        parts.push(text.slice(cursor, range.start));
       }
-      return part;
+      parts.push(
+        <span key={i} className="bg-yellow-100 px-0.5 rounded">{text.slice(range.start, range.end)}</span>
+      );
+      cursor = range.end;
     });
+    parts.push(text.slice(cursor));
+    
+    return parts;
   };
 
   return (
@@ -83,11 +92,24 @@ export const QueryResults: React.FC<QueryResultsProps> = ({
             <div className="flex items-center justify-between text-sm text-gray-500 mb-2">
               <div className="flex items-center">
                 <FileText className="h-4 w-4 mr-1" />
-                <span className="font-medium">{result.documentName}</span>
+                <span className="font-medium">{formatSourceCitation(result)}</span>
+                {result.sectionPath && (
+                  <span className="ml-2 text-xs text-gray-400">{result.sectionPath}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="flex items-center text-xs text-blue-700 hover:underline"
+                  onClick={() => setViewing({ ...result })}
+                >
+                  <ExternalLink className="h-3 w-3 mr-1" />
+                  Xem trong tài liệu
+                </button>
+                <span className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full text-xs">
+                  Tương đồng: {formatScore(result.score)}
+                </span>
               </div>
-              <span className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full text-xs">
-                Tương đồng: {formatScore(result.score)}
-              </span>
             </div>
             <Separator className="my-2" />
             <p className="text-gray-800 whitespace-pre-line">
@@ -96,6 +118,8 @@ export const QueryResults: React.FC<QueryResultsProps> = ({
           </div>
         ))}
       </div>
+
+      <DocumentViewer source={viewing} onClose={() => setViewing(null)} />
     </div>
   );
 };
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { RefreshCw, Pause, Play } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ChunkStorage, ReembedJob, ReembedJobStorage } from '@/utils/persistentStorage';
+import { createReembedJob, runReembedJob } from '@/utils/reembedJob';
+import { createEmbedder } from '@/utils/vectorUtils';
+
+interface ReembedPanelProps {
+  targetModel: string;
+}
+
+export const ReembedPanel: React.FC<ReembedPanelProps> = ({ targetModel }) => {
+  const [staleCount, setStaleCount] = useState(0);
+  const [job, setJob] = useState<ReembedJob | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const refreshStaleCount = useCallback(async () => {
+    try {
+      setStaleCount(await ChunkStorage.countStale(targetModel));
+    } catch (error) {
+      console.error('[Reembed] Failed to count chunks:', error);
+    }
+  }, [targetModel]);
+
+  const run = useCallback(async (jobToRun: ReembedJob) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      const embed = await createEmbedder(jobToRun.targetModel);
+      const result = await runReembedJob(jobToRun.id, embed, {
+        signal: controller.signal,
+        onProgress: setJob
+      });
+
+      if (result.status === 'completed') {
+        toast({ title: "Hoàn tất", description: `Đã cập nhật embedding cho ${result.processed} đoạn văn bản` });
+      } else if (result.status === 'failed') {
+        toast({ title: "Lỗi", description: result.error, variant: "destructive" });
+      }
+    } catch (error) {
+      toast({
+        title: "Lỗi",
+        description: `Không thể tải model ${jobToRun.targetModel}: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive"
+      });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      refreshStaleCount();
+    }
+  }, [toast, refreshStaleCount]);
+
+  // Show unfinished jobs left over from a previous session
+  useEffect(() => {
+    ReembedJobStorage.getUnfinished()
+      .then(unfinished => {
+        if (unfinished) setJob({ ...unfinished, status: unfinished.status === 'running' ? 'paused' : unfinished.status });
+      })
+      .catch(error => console.error('[Reembed] Failed to load jobs:', error));
+
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    refreshStaleCount();
+  }, [refreshStaleCount, isRunning]);
+
+  const handleStart = async () => {
+    const created = await createReembedJob(targetModel);
+    setJob(created);
+    await run(created);
+  };
+
+  const canResume = job && !isRunning && (job.status === 'paused' || job.status === 'failed');
+  const progress = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  if (staleCount === 0 && !job) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {staleCount > 0
+          ? `${staleCount} đoạn văn bản chưa dùng model ${targetModel}`
+          : 'Tất cả đoạn văn bản đã dùng model embedding hiện tại'}
+      </p>
+
+      {job && job.status !== 'completed' && (
+        <div className="space-y-1">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {job.processed}/{job.total} → {job.targetModel}
+            {job.status === 'failed' && job.error ? ` (lỗi: ${job.error})` : ''}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {isRunning ? (
+          <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+            <Pause className="h-4 w-4 mr-1" /> Tạm dừng
+          </Button>
+        ) : canResume ? (
+          <Button variant="outline" size="sm" onClick={() => run(job)}>
+            <Play className="h-4 w-4 mr-1" /> Tiếp tục
+          </Button>
+        ) : staleCount > 0 ? (
+          <Button variant="outline" size="sm" onClick={handleStart}>
+            <RefreshCw className="h-4 w-4 mr-1" /> Cập nhật embedding
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+};
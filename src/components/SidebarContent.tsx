@@ -3,6 +3,7 @@ import React from 'react';
 import { FolderList } from '@/components/FolderList';
 import { ModelSelector } from '@/components/ModelSelector';
 import { OcrConfigPanel } from '@/components/OcrConfigPanel';
+import { ReembedPanel } from '@/components/ReembedPanel';
 import { Folder } from '@/hooks/useDocuments';
 import { AiModelType, EmbeddingModelType, PlatformType } from '@/hooks/useAiModel';
 import { OcrConfig } from '@/hooks/useOcrConfig';
@@ -76,6 +77,7 @@ export const SidebarContent: React.FC<SidebarContentProps> = ({
           embeddingModel={selectedEmbeddingModel}
           onEmbeddingModelChange={onEmbeddingModelChange}
         />
+        <ReembedPanel targetModel={selectedEmbeddingModel} />
       </div>
 
       <div className="p-4 border-b border-gray-200">
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, RefreshCw } from 'lucide-react';
+import { InspectedUpload } from '@/utils/ingestionQueue';
+
+interface UploadReviewDialogProps {
+  uploads: InspectedUpload[] | null;
+  onConfirm: (replace: Set<InspectedUpload>) => void;
+  onCancel: () => void;
+}
+
+export const UploadReviewDialog: React.FC<UploadReviewDialogProps> = ({
+  uploads,
+  onConfirm,
+  onCancel
+}) => {
+  const [replace, setReplace] = React.useState<Set<InspectedUpload>>(new Set());
+
+  // New versions replace the stored document unless unchecked
+  React.useEffect(() => {
+    setReplace(new Set(uploads?.filter(upload => upload.previousVersion)));
+  }, [uploads]);
+
+  const duplicates = uploads?.filter(upload => upload.duplicateOf) ?? [];
+  const versions = uploads?.filter(upload => upload.previousVersion) ?? [];
+  const newFiles = (uploads?.length ?? 0) - duplicates.length - versions.length;
+
+  const toggle = (upload: InspectedUpload, checked: boolean) => {
+    setReplace(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(upload);
+      else next.delete(upload);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={!!uploads} onOpenChange={open => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Kiểm tra tệp tải lên</DialogTitle>
+          <DialogDescription>
+            {newFiles > 0 ? `${newFiles} tệp tin mới sẽ được xử lý. ` : ''}
+            Một số tệp tin trùng với tài liệu đã có.
+          </DialogDescription>
+        </DialogHeader>
+
+        {duplicates.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium flex items-center mb-1">
+              <Copy className="h-4 w-4 mr-1" /> Trùng nội dung - sẽ bỏ qua ({duplicates.length})
+            </h4>
+            <div className="max-h-32 overflow-y-auto text-xs text-gray-600 space-y-0.5">
+              {duplicates.map(upload => (
+                <div key={upload.contentHash + upload.file.name}>
+                  • {upload.file.name} ≡ {upload.duplicateOf}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {versions.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium flex items-center mb-1">
+              <RefreshCw className="h-4 w-4 mr-1" /> Phiên bản mới của tài liệu đã có ({versions.length})
+            </h4>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {versions.map(upload => (
+                <label key={upload.contentHash + upload.file.name} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={replace.has(upload)}
+                    onCheckedChange={checked => toggle(upload, checked === true)}
+                  />
+                  <span className="truncate">{upload.file.name}</span>
+                  <span className="text-xs text-gray-500 shrink-0">
+                    {replace.has(upload) ? 'Thay thế phiên bản cũ' : 'Thêm như tài liệu mới'}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Khi thay thế, các đoạn văn bản không đổi dùng lại embedding cũ.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Hủy</Button>
+          <Button onClick={() => onConfirm(replace)} disabled={newFiles + versions.length === 0}>
+            Tải lên
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,102 @@
+/**
+ * Key Vault Unlock Dialog
+ * Asks for the passphrase that decrypts the stored API keys. Without it, only providers
+ * that need no key (Ollama, self-hosted servers) are available.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface VaultUnlockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+export const VaultUnlockDialog: React.FC<VaultUnlockDialogProps> = ({ open, onOpenChange, onUnlock, onReset }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPassphrase('');
+    setError(null);
+    setConfirmReset(false);
+  }, [open]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+      onOpenChange(false);
+    } catch (error) {
+      console.warn('[Vault] Unlock failed:', error);
+      setError('Mật khẩu không đúng.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    await onReset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Mở khóa khóa API
+          </DialogTitle>
+          <DialogDescription>
+            Khóa API được mã hóa trên trình duyệt này. Nhập mật khẩu để dùng các nhà cung cấp đám mây.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <Input
+            type="password"
+            autoFocus
+            placeholder="Mật khẩu"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {confirmReset ? (
+              <Button type="button" variant="destructive" onClick={handleReset}>
+                Xóa tất cả khóa đã lưu
+              </Button>
+            ) : (
+              <Button type="button" variant="link" className="px-0" onClick={() => setConfirmReset(true)}>
+                Quên mật khẩu?
+              </Button>
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Bỏ qua
+              </Button>
+              <Button type="submit" disabled={isUnlocking || !passphrase}>
+                {isUnlocking && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Mở khóa
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
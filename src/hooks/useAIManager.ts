@@ -3,76 +3,143 @@
  * Provides easy access to AI providers and RAG engine
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { RAGEngine } from '../services/ai/ragEngine';
 import { AIProviderManager } from '../services/ai/providerManager';
-import { OpenAIProvider } from '../services/ai/providers/openai';
-import { GeminiProvider } from '../services/ai/providers/gemini';
-import { OllamaProvider } from '../services/ai/providers/ollama';
+import { createProviders } from '../services/ai/providerFactory';
+import {
+    hasProviderKeys,
+    openProviderKeys,
+    resolveAISettings,
+    sealProviderKeys,
+    SealedKeys,
+    stripProviderKeys,
+    withEnvironmentKeys
+} from '../services/ai/settings';
+import { blockedProviders, DEFAULT_USAGE_BUDGET, startOfMonth, toUsageEntry, totalCost } from '../services/ai/usage';
+import { SettingsStorage, UsageStorage } from '../utils/persistentStorage';
+import { createVault, openVault, VaultMeta, VaultSession } from '../utils/keyVault';
 import type {
     RAGQuery,
     RAGResponse,
     StreamCallback,
     AIProvider,
-    ProviderStatus
+    AIProviderSettings,
+    ProviderStatus,
+    RAGSettings,
+    UsageBudget,
+    UsageEvent
 } from '../services/ai/types';
 
+/**
+ * Key vault state: no passphrase set yet, keys encrypted and locked, or unlocked
+ */
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
 export function useAIManager() {
-    const [ragEngine] = useState(() => new RAGEngine());
     const [providerManager] = useState(() => new AIProviderManager());
+    // Answers go through the manager's fallback and circuit breaker
+    const [ragEngine] = useState(() => new RAGEngine(providerManager));
     const [currentProvider, setCurrentProvider] = useState<AIProvider>('gemini');
     const [isInitialized, setIsInitialized] = useState(false);
     const [providerStatuses, setProviderStatuses] = useState<ProviderStatus[]>([]);
+    const [providerSettings, setProviderSettings] = useState<AIProviderSettings | null>(null);
+    const [ragSettings, setRagSettings] = useState<RAGSettings | null>(null);
+    const [vault] = useState(() => new VaultSession());
+    const [vaultStatus, setVaultStatus] = useState<VaultStatus>('none');
+    // Passphrase check and encrypted keys as last stored
+    const sealed = useRef<{ vault?: VaultMeta; apiKeys?: SealedKeys }>({});
+    // Spending so far this month, against the budget saved on the usage page
+    const spending = useRef<{ month: number; spentUsd: number; budget: UsageBudget }>({
+        month: startOfMonth(),
+        spentUsd: 0,
+        budget: DEFAULT_USAGE_BUDGET,
+    });
 
-    // Initialize providers
-    useEffect(() => {
-        const initProviders = async () => {
-            try {
-                // Register providers based on environment variables
-                const openaiKey = import.meta.env.VITE_OPENAI_API_KEY;
-                if (openaiKey) {
-                    const openai = new OpenAIProvider({
-                        apiKey: openaiKey,
-                        model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini',
-                    });
-                    ragEngine.registerProvider(openai);
-                    providerManager.registerProvider(openai);
-                    console.log('[AI] OpenAI provider registered');
-                }
+    // Add to the month's spending and block paid providers while the budget is spent;
+    // a new month starts from zero
+    const applyBudget = useCallback((addedUsd: number = 0) => {
+        const month = startOfMonth();
+        if (month !== spending.current.month) {
+            spending.current = { ...spending.current, month, spentUsd: 0 };
+        }
+        spending.current.spentUsd += addedUsd;
+        providerManager.setBlockedProviders(blockedProviders(spending.current.spentUsd, spending.current.budget));
+    }, [providerManager]);
 
-                const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-                if (geminiKey) {
-                    const gemini = new GeminiProvider({
-                        apiKey: geminiKey,
-                        model: import.meta.env.VITE_GEMINI_MODEL || 'gemini-1.5-flash-latest',
-                    });
-                    ragEngine.registerProvider(gemini);
-                    providerManager.registerProvider(gemini);
-                    console.log('[AI] Gemini provider registered');
-                }
+    // Log every provider call with its estimated cost
+    const recordUsage = useCallback(
+        (event: UsageEvent) => {
+            const entry = toUsageEntry(event);
+            applyBudget(entry.costUsd);
+            UsageStorage.add(entry).catch(error => console.warn('[AI] Failed to record usage:', error));
+        },
+        [applyBudget]
+    );
 
-                // Always try to register Ollama (will fail gracefully if not running)
-                try {
-                    const ollama = new OllamaProvider({
-                        baseUrl: import.meta.env.VITE_OLLAMA_BASE_URL || 'http://localhost:11434',
-                        model: import.meta.env.VITE_OLLAMA_MODEL || 'llama3.1',
-                    });
-                    ragEngine.registerProvider(ollama);
-                    providerManager.registerProvider(ollama);
-                    console.log('[AI] Ollama provider registered');
-                } catch (error) {
-                    console.warn('[AI] Ollama registration failed:', error);
-                }
+    // (Re)build providers and RAG options from settings, replacing the current ones
+    const applySettings = useCallback(
+        async (providers: AIProviderSettings, rag: RAGSettings) => {
+            providerManager.clearProviders();
+            for (const provider of createProviders(providers.providers, providers)) {
+                provider.setUsageListener(recordUsage);
+                providerManager.registerProvider(provider);
+                console.log(`[AI] ${provider.getProvider()} provider registered`);
+            }
+            providerManager.setFallbackOrder(providers.fallbackOrder);
+            providerManager.setAutoFallback(providers.enableAutoFallback);
+
+            // Default provider, or the first one configured when it is not
+            const registered = providerManager.getAllProviders().map(provider => provider.getProvider());
+            const active = registered.includes(providers.defaultProvider) ? providers.defaultProvider : registered[0];
+            if (active) {
+                providerManager.setProvider(active);
+                setCurrentProvider(active);
+            }
 
-                // Set default provider
-                const defaultProvider = (import.meta.env.VITE_DEFAULT_AI_PROVIDER || 'gemini') as AIProvider;
-                ragEngine.setProvider(defaultProvider);
-                providerManager.setProvider(defaultProvider);
-                setCurrentProvider(defaultProvider);
+            ragEngine.setMaxContextLength(rag.maxContextLength);
+            ragEngine.setRetrievalDefaults(rag.defaultTopK, rag.defaultThreshold);
+            ragEngine.setRerankSettings({
+                reranker: rag.reranker,
+                rerankerModel: rag.rerankerModel,
+                rerankCandidates: rag.rerankCandidates,
+                rerankTopK: rag.rerankTopK,
+            });
+            setProviderSettings(providers);
+            setRagSettings(rag);
+
+            // Check provider statuses
+            const statuses = await providerManager.getAvailableProviders();
+            setProviderStatuses(statuses);
+        },
+        [ragEngine, providerManager, recordUsage]
+    );
+
+    // Initialize providers from saved settings, or the environment before any are saved
+    useEffect(() => {
+        const initProviders = async () => {
+            try {
+                const saved = await SettingsStorage.get().catch(error => {
+                    console.warn('[AI] Failed to load saved settings:', error);
+                    return undefined;
+                });
+                const { providers, rag } = resolveAISettings(saved, import.meta.env);
+                // Encrypted keys stay out of the providers until the vault is unlocked
+                sealed.current = { vault: saved?.vault, apiKeys: saved?.apiKeys };
+                setVaultStatus(saved?.vault ? 'locked' : 'none');
 
-                // Check provider statuses
-                const statuses = await providerManager.getAvailableProviders();
-                setProviderStatuses(statuses);
+                const month = startOfMonth();
+                const monthUsage = await UsageStorage.since(month).catch(error => {
+                    console.warn('[AI] Failed to load usage:', error);
+                    return [];
+                });
+                spending.current = {
+                    month,
+                    spentUsd: totalCost(monthUsage),
+                    budget: { ...DEFAULT_USAGE_BUDGET, ...saved?.usageBudget },
+                };
+                applyBudget();
+                await applySettings(providers, rag);
 
                 setIsInitialized(true);
             } catch (error) {
@@ -81,7 +148,86 @@ export function useAIManager() {
         };
 
         initProviders();
-    }, [ragEngine, providerManager]);
+    }, [applySettings, applyBudget]);
+
+    // Lock after inactivity: any input postpones it, locking drops the keys from the providers
+    useEffect(() => {
+        const touch = () => vault.touch();
+        window.addEventListener('pointerdown', touch);
+        window.addEventListener('keydown', touch);
+        return () => {
+            window.removeEventListener('pointerdown', touch);
+            window.removeEventListener('keydown', touch);
+        };
+    }, [vault]);
+
+    useEffect(() => {
+        if (!providerSettings || !ragSettings) return;
+        return vault.onLock(() => {
+            console.log('[AI] Key vault locked');
+            setVaultStatus('locked');
+            // Keys from the environment are not in the vault and stay available
+            applySettings(withEnvironmentKeys(stripProviderKeys(providerSettings), import.meta.env), ragSettings)
+                .catch(error => console.error('[AI] Provider reconfiguration failed:', error));
+        });
+    }, [vault, providerSettings, ragSettings, applySettings]);
+
+    // Decrypt stored keys with the passphrase; rejects a wrong passphrase
+    const unlockVault = useCallback(
+        async (passphrase: string) => {
+            if (!sealed.current.vault || !providerSettings || !ragSettings) return;
+
+            const key = await openVault(passphrase, sealed.current.vault);
+            const providers = await openProviderKeys(providerSettings, sealed.current.apiKeys ?? {}, key);
+            vault.unlock(key);
+            setVaultStatus('unlocked');
+            await applySettings(providers, ragSettings);
+        },
+        [vault, providerSettings, ragSettings, applySettings]
+    );
+
+    const lockVault = useCallback(() => vault.lock(), [vault]);
+
+    // Forgotten passphrase: discard the stored keys so they can be entered again
+    const resetVault = useCallback(async () => {
+        await SettingsStorage.update('app', { vault: undefined, apiKeys: undefined });
+        sealed.current = {};
+        vault.lock();
+        setVaultStatus('none');
+    }, [vault]);
+
+    // Save settings and reconfigure providers without a reload. API keys entered in the
+    // app are stored encrypted; the first ones need a passphrase to set up the vault.
+    // Keys from the environment are never stored.
+    const saveSettings = useCallback(
+        async (providers: AIProviderSettings, rag: RAGSettings, passphrase?: string) => {
+            if (sealed.current.vault && !vault.isUnlocked()) {
+                throw new Error('Key vault is locked');
+            }
+            if (!sealed.current.vault && hasProviderKeys(providers, import.meta.env)) {
+                if (!passphrase) {
+                    throw new Error('A passphrase is required to store API keys');
+                }
+                const created = await createVault(passphrase);
+                vault.unlock(created.key);
+                sealed.current = { vault: created.meta };
+            }
+
+            const stored = vault.isUnlocked()
+                ? await sealProviderKeys(providers, vault.getKey(), import.meta.env)
+                : { settings: stripProviderKeys(providers), apiKeys: undefined };
+            await SettingsStorage.update('app', {
+                aiProviders: stored.settings,
+                apiKeys: stored.apiKeys,
+                vault: sealed.current.vault,
+                rag,
+            });
+            sealed.current = { vault: sealed.current.vault, apiKeys: stored.apiKeys };
+            setVaultStatus(vault.isUnlocked() ? 'unlocked' : 'none');
+            await applySettings(providers, rag);
+        },
+        [vault, applySettings]
+    );
 
     // Query RAG system
     const query = useCallback(
@@ -90,9 +236,10 @@ export function useAIManager() {
                 throw new Error('AI Manager not initialized');
             }
 
+            applyBudget();
             return await ragEngine.query(params);
         },
-        [ragEngine, isInitialized]
+        [ragEngine, isInitialized, applyBudget]
     );
 
     // Query with streaming
@@ -102,23 +249,23 @@ export function useAIManager() {
                 throw new Error('AI Manager not initialized');
             }
 
+            applyBudget();
             return await ragEngine.queryStream(params, onChunk);
         },
-        [ragEngine, isInitialized]
+        [ragEngine, isInitialized, applyBudget]
     );
 
     // Switch provider
     const switchProvider = useCallback(
         (provider: AIProvider) => {
             try {
-                ragEngine.setProvider(provider);
                 providerManager.setProvider(provider);
                 setCurrentProvider(provider);
             } catch (error) {
                 console.error('[AI] Failed to switch provider:', error);
             }
         },
-        [ragEngine, providerManager]
+        [providerManager]
     );
 
     // Get provider statuses
@@ -144,5 +291,12 @@ export function useAIManager() {
         providerStatuses,
         checkProviderStatuses,
         getAvailableProviders,
+        providerSettings,
+        ragSettings,
+        saveSettings,
+        vaultStatus,
+        unlockVault,
+        lockVault,
+        resetVault,
     };
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { pipeline, env } from '@huggingface/transformers';
-import { checkSystemRAM, backendPlatforms } from '@/utils/vectorUtils';
+import { checkSystemRAM, backendPlatforms, MOCK_EMBEDDING_MODEL } from '@/utils/vectorUtils';
 
 // Force polyfill for globalThisOrWindow if not already set
 try {
@@ -167,6 +167,8 @@ export const useAiModel = (
   const [selectedPlatform, setSelectedPlatform] = useState<PlatformType>(initialPlatform);
   const [selectedEmbeddingModel, setSelectedEmbeddingModel] = useState<EmbeddingModelType>(initialEmbeddingModel);
   const [embeddingPipeline, setEmbeddingPipeline] = useState<any>(null);
+  // Model actually behind embeddingPipeline (may be the fallback or the mock pipeline)
+  const [activeEmbeddingModel, setActiveEmbeddingModel] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const { toast } = useToast();
   const [lastError, setLastError] = useState<string | null>(null);
@@ -520,6 +522,7 @@ export const useAiModel = (
         
         logDiagnostic('Embedding test succeeded - REAL MODEL OPERATIONAL', 'success');
         setEmbeddingPipeline(extractor);
+        setActiveEmbeddingModel(embeddingModelId);
         setIsModelLoaded(true);
         usedRealModel = true;
         
@@ -576,6 +579,7 @@ export const useAiModel = (
           
           logDiagnostic('Fallback embedding test succeeded - USING FALLBACK REAL MODEL', 'success');
           setEmbeddingPipeline(fallbackExtractor);
+          setActiveEmbeddingModel(FALLBACK_MODEL);
           setIsModelLoaded(true);
           usedFallbackModel = true;
           
@@ -634,6 +638,7 @@ export const useAiModel = (
         };
         
         setEmbeddingPipeline(mockPipeline);
+        setActiveEmbeddingModel(MOCK_EMBEDDING_MODEL);
         setIsModelLoaded(true);
         usedMockPipeline = true;
         
@@ -852,6 +857,7 @@ export const useAiModel = (
     loadEmbeddingModel,
     generateEmbedding,
     embeddingPipeline,
+    activeEmbeddingModel,
     lastError,
     callModel,
     isLargeModel,
@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ConversationStorage, StoredConversation, StoredMessage } from '@/utils/persistentStorage';
+import { createConversationTitle } from '@/utils/chatHistory';
+
+/**
+ * Chat sessions persisted in IndexedDB. A session is created by its first message,
+ * so opening the chat without asking anything leaves no empty session behind.
+ */
+export const useChatSessions = () => {
+  const [sessions, setSessions] = useState<StoredConversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<StoredMessage[]>([]);
+  const [search, setSearch] = useState('');
+  // Messages appended back to back must land in the session the first one created
+  const activeIdRef = useRef<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setSessions(await ConversationStorage.search(search));
+  }, [search]);
+
+  useEffect(() => {
+    refresh().catch(error => console.error('[Chat] Failed to load sessions:', error));
+  }, [refresh]);
+
+  const activate = (id: string | null) => {
+    activeIdRef.current = id;
+    setActiveId(id);
+  };
+
+  const select = useCallback(async (id: string) => {
+    activate(id);
+    setMessages(await ConversationStorage.getMessages(id));
+  }, []);
+
+  const startNew = useCallback(() => {
+    activate(null);
+    setMessages([]);
+  }, []);
+
+  const appendMessage = useCallback(async (message: Omit<StoredMessage, 'id' | 'createdAt' | 'conversationId'>) => {
+    let conversationId = activeIdRef.current;
+    if (!conversationId) {
+      conversationId = (await ConversationStorage.create(createConversationTitle(message.content))).id;
+      activate(conversationId);
+    }
+
+    const stored = await ConversationStorage.addMessage({ ...message, conversationId });
+    setMessages(prev => [...prev, stored]);
+    await refresh();
+    return stored;
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    await ConversationStorage.rename(id, title.trim() || createConversationTitle(''));
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await ConversationStorage.delete(id);
+    if (activeIdRef.current === id) {
+      startNew();
+    }
+    await refresh();
+  }, [refresh, startNew]);
+
+  return {
+    sessions,
+    activeId,
+    messages,
+    search,
+    setSearch,
+    select,
+    startNew,
+    appendMessage,
+    rename,
+    remove
+  };
+};
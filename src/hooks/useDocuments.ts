@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { DocumentVersionInfo } from '@/utils/documentVersioning';
 
-export interface DocumentItem {
+export interface DocumentItem extends DocumentVersionInfo {
   id: string;
   name: string;
   type: 'pdf' | 'docx';
@@ -44,10 +45,10 @@ export const useDocuments = () => {
     { id: 'local-danang', name: 'Đà Nẵng', parentId: 'local-regulations', isSelected: false },
   ]);
 
-  const addDocument = (document: Omit<DocumentItem, 'id' | 'dateAdded'>) => {
+  const addDocument = (document: Omit<DocumentItem, 'id' | 'dateAdded'> & { id?: string }) => {
     const newDoc = {
       ...document,
-      id: Date.now().toString(),
+      id: document.id ?? Date.now().toString(),
       dateAdded: new Date().toISOString().split('T')[0],
     };
     
@@ -60,6 +61,10 @@ export const useDocuments = () => {
     return newDoc;
   };
 
+  const updateDocument = (id: string, changes: Partial<DocumentItem>) => {
+    setDocuments(prev => prev.map(doc => doc.id === id ? { ...doc, ...changes } : doc));
+  };
+
   const deleteDocument = (id: string) => {
     setDocuments(prev => prev.filter(doc => doc.id !== id));
     toast({
@@ -271,6 +276,7 @@ export const useDocuments = () => {
     documents,
     folders,
     addDocument,
+    updateDocument,
     deleteDocument,
     addFolder,
     renameFolder,
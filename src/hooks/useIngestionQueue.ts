@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { IngestionJob, IngestionJobStorage, ChunkStorage, VectorIndex } from '@/utils/persistentStorage';
+import {
+  enqueueFiles,
+  summarizeJob,
+  IngestionUpload,
+  IngestionWorkerMessage,
+  IngestionWorkerRequest
+} from '@/utils/ingestionQueue';
+import { addChunksToVectorStore, deleteChunksForDocument } from '@/utils/vectorStoreUtils';
+
+/**
+ * Persistent ingestion queue drained by a Web Worker.
+ * Jobs interrupted by a reload go back in the queue once the worker holds the ingestion lock.
+ */
+export const useIngestionQueue = (onJobCompleted?: (job: IngestionJob) => void | Promise<void>) => {
+  const [jobs, setJobs] = useState<IngestionJob[]>([]);
+  const [isDraining, setIsDraining] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const onJobCompletedRef = useRef(onJobCompleted);
+  onJobCompletedRef.current = onJobCompleted;
+
+  const send = (request: IngestionWorkerRequest) => workerRef.current?.postMessage(request);
+
+  const refresh = useCallback(async () => {
+    const stored = await IngestionJobStorage.getAll();
+    setJobs(stored.map(summarizeJob));
+  }, []);
+
+  // The worker wrote chunks through its own connection: sync this context's caches
+  const handleCompleted = useCallback(async (job: IngestionJob) => {
+    VectorIndex.invalidate();
+    if (job.result) {
+      // A replaced document may have fewer chunks than its previous version
+      deleteChunksForDocument(job.result.documentId);
+      await addChunksToVectorStore(await ChunkStorage.getByDocument(job.result.documentId));
+    }
+    await onJobCompletedRef.current?.(job);
+  }, []);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/ingestionWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<IngestionWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'idle') {
+        setIsDraining(false);
+        refresh();
+        return;
+      }
+
+      setIsDraining(true);
+      setJobs(prev => prev.some(job => job.id === message.job.id)
+        ? prev.map(job => job.id === message.job.id ? message.job : job)
+        : [...prev, message.job]);
+
+      if (message.job.status === 'completed') {
+        handleCompleted(message.job).catch(error => console.error('[Ingestion] Failed to sync document:', error));
+      }
+    };
+
+    worker.onerror = (error) => {
+      console.error('[Ingestion] Worker error:', error);
+      setIsDraining(false);
+    };
+
+    // Resume whatever the previous session left unfinished
+    refresh()
+      .then(() => worker.postMessage({ type: 'start' } as IngestionWorkerRequest))
+      .catch(error => console.error('[Ingestion] Failed to load queue:', error));
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [refresh, handleCompleted]);
+
+  const enqueue = useCallback(async (uploads: IngestionUpload[], folderId: string, embeddingModel: string) => {
+    const created = await enqueueFiles(uploads, folderId, embeddingModel);
+    await refresh();
+    send({ type: 'start' });
+    return created;
+  }, [refresh]);
+
+  const pause = useCallback(async () => {
+    await IngestionJobStorage.setStatus(['queued'], 'paused');
+    send({ type: 'pause' });
+    await refresh();
+  }, [refresh]);
+
+  const resume = useCallback(async () => {
+    await IngestionJobStorage.setStatus(['paused'], 'queued');
+    await refresh();
+    send({ type: 'start' });
+  }, [refresh]);
+
+  const retry = useCallback(async (id: string) => {
+    const job = await IngestionJobStorage.get(id);
+    if (!job || job.status !== 'failed') return;
+    await IngestionJobStorage.save({ ...job, status: 'queued', error: undefined });
+    await refresh();
+    send({ type: 'start' });
+  }, [refresh]);
+
+  const retryFailed = useCallback(async () => {
+    await IngestionJobStorage.setStatus(['failed'], 'queued');
+    await refresh();
+    send({ type: 'start' });
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await IngestionJobStorage.delete(id);
+    await refresh();
+  }, [refresh]);
+
+  const clearCompleted = useCallback(async () => {
+    await IngestionJobStorage.clearCompleted();
+    await refresh();
+  }, [refresh]);
+
+  return {
+    jobs,
+    isDraining,
+    enqueue,
+    pause,
+    resume,
+    retry,
+    retryFailed,
+    remove,
+    clearCompleted
+  };
+};
@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BarChart3 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAiModel, AiModelType, EmbeddingModelType, PlatformType } from '@/hooks/useAiModel';
 import { useOcrConfig } from '@/hooks/useOcrConfig';
@@ -9,6 +11,7 @@ import { SidebarContent } from '@/components/SidebarContent';
 import { DocumentManagement } from '@/components/DocumentManagement';
 import { QueryPanel } from '@/components/QueryPanel';
 import { AIChat } from '@/components/AIChat';
+import { Button } from '@/components/ui/button';
 
 const Index = () => {
   // AI Model settings
@@ -26,6 +29,7 @@ const Index = () => {
     documents,
     folders,
     addDocument,
+    updateDocument,
     deleteDocument,
     addFolder,
     renameFolder,
@@ -76,7 +80,17 @@ const Index = () => {
   );
 
   const header = (
-    <PageHeader title="QueryMaster" />
+    <div className="flex items-center justify-between">
+      <div>
+        <PageHeader title="QueryMaster" />
+      </div>
+      <Button variant="outline" size="sm" asChild>
+        <Link to="/usage">
+          <BarChart3 className="h-4 w-4 mr-2" />
+          Chi phí AI
+        </Link>
+      </Button>
+    </div>
   );
 
   const mainContent = (
@@ -86,6 +100,7 @@ const Index = () => {
         folderPath={folderPath}
         currentFolderDocuments={currentFolderDocuments}
         addDocument={addDocument}
+        updateDocument={updateDocument}
         deleteDocument={deleteDocument}
         getFolderPath={getFolderPath}
         folders={folders}
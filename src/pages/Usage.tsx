@@ -0,0 +1,367 @@
+/**
+ * Usage Page
+ * Provider calls recorded by the AI manager: spending per day and provider, questions
+ * per folder, totals per provider, and the monthly budget that can stop paid providers.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, ArrowLeft, Loader2, Trash2 } from 'lucide-react';
+import { PageHeader } from '@/components/PageHeader';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { FolderStorage, SettingsStorage, UsageRecord, UsageStorage } from '@/utils/persistentStorage';
+import {
+  budgetStatus,
+  dailySpend,
+  DEFAULT_USAGE_BUDGET,
+  queriesByFolder,
+  startOfMonth,
+  summarizeByProvider,
+  totalCost
+} from '@/services/ai/usage';
+import type { AIProvider, UsageBudget } from '@/services/ai/types';
+import { PROVIDER_NAMES } from '@/services/ai/types';
+
+const CHART_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PROVIDER_COLORS: Record<AIProvider, string> = {
+  openai: '#10a37f',
+  gemini: '#4285f4',
+  anthropic: '#d97757',
+  groq: '#f55036',
+  ollama: '#6b7280',
+  'openai-compatible': '#8b5cf6',
+};
+
+const spendConfig = Object.fromEntries(
+  (Object.keys(PROVIDER_NAMES) as AIProvider[]).map((provider) => [
+    provider,
+    { label: PROVIDER_NAMES[provider], color: PROVIDER_COLORS[provider] },
+  ])
+) satisfies ChartConfig;
+
+const folderConfig = {
+  queries: { label: 'Câu hỏi', color: '#2563eb' },
+} satisfies ChartConfig;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+}
+
+const Usage = () => {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [folderNames, setFolderNames] = useState<Map<string, string>>(new Map());
+  const [budget, setBudget] = useState<UsageBudget>(DEFAULT_USAGE_BUDGET);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const since = Math.min(startOfMonth(), Date.now() - CHART_DAYS * DAY_MS);
+      const [usage, folders, settings] = await Promise.all([
+        UsageStorage.since(since),
+        FolderStorage.getAll(),
+        SettingsStorage.get(),
+      ]);
+      setRecords(usage);
+      setFolderNames(new Map(folders.map((folder) => [folder.id, folder.name])));
+      setBudget({ ...DEFAULT_USAGE_BUDGET, ...settings?.usageBudget });
+    } catch (error) {
+      console.error('[Usage] Failed to load usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const monthRecords = useMemo(() => {
+    const month = startOfMonth();
+    return records.filter((record) => record.createdAt >= month);
+  }, [records]);
+  const spent = totalCost(monthRecords);
+  const status = budgetStatus(spent, budget);
+  const providers = summarizeByProvider(monthRecords);
+  const daily = useMemo(() => dailySpend(records, CHART_DAYS), [records]);
+  const folders = queriesByFolder(monthRecords).map(({ folderId, queries }) => ({
+    folder: folderId ? folderNames.get(folderId) ?? folderId : 'Tất cả thư mục',
+    queries,
+  }));
+  const usedProviders = (Object.keys(PROVIDER_NAMES) as AIProvider[]).filter((provider) =>
+    records.some((record) => record.provider === provider)
+  );
+
+  const handleSaveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await SettingsStorage.update('app', { usageBudget: budget });
+      toast({ title: 'Đã lưu ngân sách', description: 'Áp dụng cho các câu hỏi tiếp theo.' });
+    } catch (error) {
+      console.error('[Usage] Failed to save budget:', error);
+      toast({ title: 'Không thể lưu ngân sách', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    await UsageStorage.clear();
+    await load();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm p-4 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/" aria-label="Quay lại">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <PageHeader title="Chi phí & mức sử dụng AI" description="Ước tính theo bảng giá từng nhà cung cấp" />
+        </div>
+      </header>
+
+      <main className="p-6 space-y-6 max-w-6xl mx-auto">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <>
+            {status === 'exceeded' && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Đã vượt ngân sách tháng</AlertTitle>
+                <AlertDescription>
+                  Đã chi {formatUsd(spent)} / {formatUsd(budget.monthlyBudgetUsd)}.
+                  {budget.blockWhenExceeded
+                    ? ' Các nhà cung cấp trả phí bị tạm dừng đến hết tháng; chỉ dùng mô hình miễn phí và tự host.'
+                    : ' Bật chặn nhà cung cấp trả phí để ngừng phát sinh chi phí.'}
+                </AlertDescription>
+              </Alert>
+            )}
+            {status === 'warning' && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Sắp hết ngân sách tháng</AlertTitle>
+                <AlertDescription>
+                  Đã chi {formatUsd(spent)} / {formatUsd(budget.monthlyBudgetUsd)} (
+                  {Math.round((spent / budget.monthlyBudgetUsd) * 100)}%).
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Chi phí tháng này</CardDescription>
+                  <CardTitle className="text-2xl">{formatUsd(spent)}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {budget.monthlyBudgetUsd > 0 ? (
+                    <>
+                      <Progress value={Math.min(100, (spent / budget.monthlyBudgetUsd) * 100)} />
+                      <p className="text-xs text-gray-500 mt-2">Ngân sách {formatUsd(budget.monthlyBudgetUsd)}</p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-gray-500">Chưa đặt ngân sách</p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Token tháng này</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {monthRecords.reduce((sum, record) => sum + record.totalTokens, 0).toLocaleString('vi-VN')}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Câu hỏi tháng này</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {folders.reduce((sum, folder) => sum + folder.queries, 0)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-xs text-gray-500">{monthRecords.length} lượt gọi mô hình</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Chi phí theo ngày</CardTitle>
+                <CardDescription>{CHART_DAYS} ngày gần nhất, theo nhà cung cấp (USD)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={spendConfig} className="h-72 w-full aspect-auto">
+                  <BarChart data={daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+                    <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={(value: number) => formatUsd(value)} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {usedProviders.map((provider) => (
+                      <Bar key={provider} dataKey={provider} stackId="spend" fill={`var(--color-${provider})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Câu hỏi theo thư mục</CardTitle>
+                  <CardDescription>Tháng này</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {folders.length === 0 ? (
+                    <p className="text-sm text-gray-500">Chưa có câu hỏi nào.</p>
+                  ) : (
+                    <ChartContainer config={folderConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={folders} layout="vertical">
+                        <XAxis type="number" allowDecimals={false} hide />
+                        <YAxis type="category" dataKey="folder" tickLine={false} axisLine={false} width={120} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="queries" fill="var(--color-queries)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Ngân sách tháng</CardTitle>
+                  <CardDescription>Chỉ tính các nhà cung cấp trả phí</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleSaveBudget} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="monthly-budget">Ngân sách (USD, 0 = không giới hạn)</Label>
+                        <Input
+                          id="monthly-budget"
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={budget.monthlyBudgetUsd}
+                          onChange={(e) => setBudget({ ...budget, monthlyBudgetUsd: Number(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="alert-threshold">Cảnh báo khi đạt (%)</Label>
+                        <Input
+                          id="alert-threshold"
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={Math.round(budget.alertThreshold * 100)}
+                          onChange={(e) =>
+                            setBudget({
+                              ...budget,
+                              alertThreshold: Math.min(100, Math.max(1, Number(e.target.value) || 1)) / 100,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                      <Label htmlFor="block-when-exceeded">Chặn nhà cung cấp trả phí khi vượt ngân sách</Label>
+                      <Switch
+                        id="block-when-exceeded"
+                        checked={budget.blockWhenExceeded}
+                        onCheckedChange={(blockWhenExceeded) => setBudget({ ...budget, blockWhenExceeded })}
+                      />
+                    </div>
+                    <Button type="submit" disabled={isSaving}>
+                      {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                      Lưu ngân sách
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Theo nhà cung cấp</CardTitle>
+                  <CardDescription>Tháng này</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleClear} disabled={records.length === 0}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Xóa nhật ký
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nhà cung cấp</TableHead>
+                      <TableHead className="text-right">Lượt gọi</TableHead>
+                      <TableHead className="text-right">Token</TableHead>
+                      <TableHead className="text-right">Độ trễ TB</TableHead>
+                      <TableHead className="text-right">Chi phí</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {providers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-gray-500">
+                          Chưa có lượt gọi nào.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      providers.map((usage) => {
+                        const calls = monthRecords.filter((record) => record.provider === usage.provider);
+                        const latency = calls.reduce((sum, record) => sum + record.latencyMs, 0) / calls.length;
+                        return (
+                          <TableRow key={usage.provider}>
+                            <TableCell>{PROVIDER_NAMES[usage.provider]}</TableCell>
+                            <TableCell className="text-right">{usage.requestCount}</TableCell>
+                            <TableCell className="text-right">{usage.totalTokens.toLocaleString('vi-VN')}</TableCell>
+                            <TableCell className="text-right">{(latency / 1000).toFixed(1)} s</TableCell>
+                            <TableCell className="text-right">{formatUsd(usage.estimatedCost)}</TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Usage;
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for the Provider Circuit Breaker
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+import { AIServiceError, AuthenticationError, RateLimitError } from './types';
+
+describe('CircuitBreaker', () => {
+  const now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should open after consecutive failures and close after the cool-down', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 });
+    const error = new AIServiceError('gemini complete failed: 500', 'gemini');
+
+    breaker.recordFailure('gemini', error, now);
+    breaker.recordFailure('gemini', error, now);
+    expect(breaker.isOpen('gemini', now)).toBe(false);
+
+    breaker.recordFailure('gemini', error, now);
+    expect(breaker.isOpen('gemini', now)).toBe(true);
+    expect(breaker.isOpen('gemini', now + 60_001)).toBe(false);
+
+    // The trial request after the cool-down fails: open again straight away
+    breaker.recordFailure('gemini', error, now + 60_001);
+    expect(breaker.isOpen('gemini', now + 60_002)).toBe(true);
+  });
+
+  it('should reset the count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const error = new Error('timeout');
+
+    breaker.recordFailure('groq', error, now);
+    breaker.recordSuccess('groq');
+    breaker.recordFailure('groq', error, now);
+
+    expect(breaker.isOpen('groq', now)).toBe(false);
+  });
+
+  it('should respect the rate limit retry-after', () => {
+    const breaker = new CircuitBreaker({ cooldownMs: 60_000 });
+
+    breaker.recordFailure('anthropic', new RateLimitError('anthropic', 5), now);
+
+    expect(breaker.openUntil('anthropic', now)).toBe(now + 5_000);
+    expect(breaker.isOpen('anthropic', now + 5_001)).toBe(false);
+  });
+
+  it('should open at once for a rejected key', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 });
+
+    breaker.recordFailure('gemini', new AuthenticationError('gemini'), now);
+
+    expect(breaker.isOpen('gemini', now + 30_000)).toBe(true);
+    expect(breaker.isOpen('openai', now)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Provider Circuit Breaker
+ * Takes a provider out of rotation after repeated failures so queries go straight to the
+ * next provider instead of waiting on retries against one that is down. A rate limit or a
+ * rejected key opens the circuit at once; a rate limit for as long as the provider asked.
+ * After the cool-down the provider gets one trial request: success closes the circuit,
+ * failure opens it again.
+ */
+
+import type { AIProvider } from './types';
+import { AuthenticationError, RateLimitError } from './types';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number;       // How long an open circuit skips the provider
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+};
+
+interface CircuitState {
+  failures: number;
+  openUntil: number; // 0 when closed
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<AIProvider, CircuitState>();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether the provider is being skipped
+   */
+  isOpen(provider: AIProvider, now: number = Date.now()): boolean {
+    return (this.circuits.get(provider)?.openUntil ?? 0) > now;
+  }
+
+  /**
+   * When the provider will be tried again, if it is being skipped
+   */
+  openUntil(provider: AIProvider, now: number = Date.now()): number | undefined {
+    return this.isOpen(provider, now) ? this.circuits.get(provider)?.openUntil : undefined;
+  }
+
+  recordSuccess(provider: AIProvider): void {
+    this.circuits.delete(provider);
+  }
+
+  recordFailure(provider: AIProvider, error: unknown, now: number = Date.now()): void {
+    const state = this.circuits.get(provider) ?? { failures: 0, openUntil: 0 };
+    state.failures++;
+
+    if (error instanceof RateLimitError) {
+      const wait = error.retryAfter !== undefined ? error.retryAfter * 1000 : this.options.cooldownMs;
+      state.openUntil = now + wait;
+    } else if (error instanceof AuthenticationError || state.failures >= this.options.failureThreshold) {
+      state.openUntil = now + this.options.cooldownMs;
+    }
+
+    if (state.openUntil > now) {
+      console.warn(`[AI] ${provider} skipped until ${new Date(state.openUntil).toLocaleTimeString()} after ${state.failures} failure(s)`);
+    }
+    this.circuits.set(provider, state);
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for Context Packing
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { RetrievedChunk } from './types';
+import { chunkPosition, mergeAdjacentChunks, packContext } from './contextPacker';
+
+const chunk = (documentId: string, position: number, content: string, extra: Partial<RetrievedChunk> = {}): RetrievedChunk => ({
+  content,
+  documentName: documentId.toUpperCase(),
+  documentId,
+  chunkId: `${documentId}_${position}`,
+  similarity: 0.8,
+  chunkIndex: 0,
+  ...extra
+});
+
+// One token per word
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const format = (source: RetrievedChunk, number: number) => `[${number}] ${source.content}`;
+
+describe('Context Packer', () => {
+  it('should read chunk positions from stored IDs', () => {
+    expect(chunkPosition({ documentId: 'doc_1', chunkId: 'doc_1_12' })).toBe(12);
+    expect(chunkPosition({ documentId: 'doc_1', chunkId: 'other_3' })).toBeUndefined();
+    expect(chunkPosition({ documentId: 'doc_1' })).toBeUndefined();
+  });
+
+  it('should merge neighbouring chunks without their overlap', () => {
+    const merged = mergeAdjacentChunks([
+      chunk('qcvn', 5, 'công trình cao trên 150 m phải có tầng lánh nạn', { pageStart: 9, pageEnd: 9, similarity: 0.9 }),
+      chunk('tcvn', 1, 'Phạm vi áp dụng'),
+      chunk('qcvn', 4, 'Điều 12. Chiều cao tối đa của nhà chung cư là 150 m. Các công trình cao trên 150 m',
+        { pageStart: 8, pageEnd: 9, sectionPath: 'Điều 12', similarity: 0.7 })
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      chunkId: 'qcvn_4',
+      content: 'Điều 12. Chiều cao tối đa của nhà chung cư là 150 m. Các công trình cao trên 150 m phải có tầng lánh nạn',
+      pageStart: 8,
+      pageEnd: 9,
+      sectionPath: 'Điều 12',
+      similarity: 0.9
+    });
+    expect(merged[1].documentId).toBe('tcvn');
+  });
+
+  it('should merge a run of neighbours retrieved out of order into one chunk', () => {
+    const merged = mergeAdjacentChunks([
+      chunk('qcvn', 3, 'Khoản 3.', { similarity: 0.9 }),
+      chunk('qcvn', 1, 'Khoản 1.'),
+      chunk('tcvn', 1, 'Phạm vi áp dụng'),
+      chunk('qcvn', 2, 'Khoản 2.')
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ chunkId: 'qcvn_1', content: 'Khoản 1.\nKhoản 2.\nKhoản 3.', similarity: 0.9 });
+    expect(merged[1].documentId).toBe('tcvn');
+  });
+
+  it('should join neighbours without overlap on a new line', () => {
+    const [merged] = mergeAdjacentChunks([chunk('qcvn', 1, 'Khoản 1.'), chunk('qcvn', 2, 'Khoản 2.')]);
+    expect(merged.content).toBe('Khoản 1.\nKhoản 2.');
+  });
+
+  it('should fit whole chunks in rank order and report the rest', () => {
+    const packed = packContext(
+      [
+        chunk('a', 1, 'một hai ba bốn'),
+        chunk('b', 1, 'một hai ba bốn năm sáu bảy tám'),
+        chunk('c', 1, 'một hai')
+      ],
+      10,
+      countWords,
+      format
+    );
+
+    expect(packed.chunks.map(source => source.documentId)).toEqual(['a', 'c']);
+    expect(packed.blocks).toEqual(['[1] một hai ba bốn', '[2] một hai']);
+    expect(packed.chunks.map(source => source.chunkIndex)).toEqual([0, 1]);
+    expect(packed.tokens).toBe(8);
+    expect(packed.dropped).toEqual([{ chunk: expect.objectContaining({ documentId: 'b' }), tokens: 9 }]);
+  });
+});
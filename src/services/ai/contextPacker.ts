@@ -0,0 +1,134 @@
+/**
+ * Context Packing
+ * Fits whole retrieved chunks into the prompt's token budget in rank order. Neighbouring
+ * chunks of the same document are merged first, without their overlap, so a clause split
+ * across chunk boundaries reaches the model in one piece. Chunks that do not fit are
+ * skipped and reported rather than cut mid-text.
+ */
+
+import type { RetrievedChunk } from './types';
+
+/**
+ * Shortest shared text treated as chunk overlap when merging (characters)
+ */
+const MIN_OVERLAP = 20;
+
+/**
+ * Longest overlap searched for; chunk overlap is far below this
+ */
+const MAX_OVERLAP = 1000;
+
+export interface PackedContext {
+  chunks: RetrievedChunk[]; // Sources in prompt order, numbered like the [n] markers
+  blocks: string[];         // Formatted context blocks, one per source
+  tokens: number;
+  dropped: Array<{ chunk: RetrievedChunk; tokens: number }>;
+}
+
+/**
+ * Position of a chunk within its document, from stored IDs of the form "<documentId>_<n>"
+ */
+export function chunkPosition(chunk: Pick<RetrievedChunk, 'chunkId' | 'documentId'>): number | undefined {
+  const prefix = `${chunk.documentId}_`;
+  if (!chunk.chunkId?.startsWith(prefix)) return undefined;
+  const position = Number(chunk.chunkId.slice(prefix.length));
+  return Number.isInteger(position) ? position : undefined;
+}
+
+/**
+ * Join consecutive chunk texts, dropping the text the second repeats from the first
+ */
+function joinOverlapping(first: string, second: string): string {
+  for (let length = Math.min(first.length, second.length, MAX_OVERLAP); length >= MIN_OVERLAP; length--) {
+    if (first.endsWith(second.slice(0, length))) {
+      return first + second.slice(length);
+    }
+  }
+  return `${first}\n${second}`;
+}
+
+/**
+ * Merge retrieved chunks that are neighbours in the same document, transitively: runs of
+ * consecutive chunks become one, whatever order they were retrieved in. Merged chunks take
+ * the rank of their best member and span all members' pages.
+ */
+export function mergeAdjacentChunks(chunks: RetrievedChunk[]): RetrievedChunk[] {
+  const entries: Array<{ rank: number; chunk: RetrievedChunk }> = [];
+  const positioned: Array<{ rank: number; chunk: RetrievedChunk; position: number }> = [];
+
+  chunks.forEach((chunk, rank) => {
+    const position = chunkPosition(chunk);
+    if (position === undefined) {
+      entries.push({ rank, chunk });
+    } else {
+      positioned.push({ rank, chunk, position });
+    }
+  });
+
+  // Sort by document and position, then coalesce runs of consecutive positions
+  positioned.sort((a, b) => a.chunk.documentId.localeCompare(b.chunk.documentId) || a.position - b.position);
+  const runs: Array<typeof positioned> = [];
+  for (const member of positioned) {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (last && last.chunk.documentId === member.chunk.documentId && member.position - last.position <= 1) {
+      // The same chunk retrieved twice adds nothing
+      if (member.position !== last.position) run.push(member);
+      else if (member.rank < last.rank) run[run.length - 1] = member;
+    } else {
+      runs.push([member]);
+    }
+  }
+
+  for (const run of runs) {
+    const best = run.reduce((a, b) => (b.rank < a.rank ? b : a));
+    entries.push({ rank: best.rank, chunk: run.length === 1 ? best.chunk : mergeRun(run.map((member) => member.chunk), best.chunk) });
+  }
+
+  return entries.sort((a, b) => a.rank - b.rank).map((entry) => entry.chunk);
+}
+
+/**
+ * One chunk from consecutive members (in document order), ranked like the best one
+ */
+function mergeRun(members: RetrievedChunk[], best: RetrievedChunk): RetrievedChunk {
+  const pages = members.flatMap((member) => [member.pageStart, member.pageEnd]).filter((page): page is number => page !== undefined);
+
+  return {
+    ...best,
+    chunkId: members[0].chunkId,
+    content: members.map((member) => member.content).reduce(joinOverlapping),
+    sectionPath: members[0].sectionPath ?? best.sectionPath,
+    pageStart: pages.length > 0 ? Math.min(...pages) : undefined,
+    pageEnd: pages.length > 0 ? Math.max(...pages) : undefined,
+    similarity: Math.max(...members.map((member) => member.similarity)),
+  };
+}
+
+/**
+ * Greedily fit whole (merged) chunks into `budget` tokens, best-ranked first.
+ * `format` renders a chunk as the block the model sees, given its source number.
+ */
+export function packContext(
+  chunks: RetrievedChunk[],
+  budget: number,
+  countTokens: (text: string) => number,
+  format: (chunk: RetrievedChunk, number: number) => string
+): PackedContext {
+  const packed: PackedContext = { chunks: [], blocks: [], tokens: 0, dropped: [] };
+
+  for (const chunk of mergeAdjacentChunks(chunks)) {
+    const block = format(chunk, packed.chunks.length + 1);
+    const tokens = countTokens(block);
+    if (packed.tokens + tokens > budget) {
+      packed.dropped.push({ chunk, tokens });
+      continue;
+    }
+
+    packed.chunks.push({ ...chunk, chunkIndex: packed.chunks.length });
+    packed.blocks.push(block);
+    packed.tokens += tokens;
+  }
+
+  return packed;
+}
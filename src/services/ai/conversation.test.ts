@@ -0,0 +1,74 @@
+/**
+ * Unit Tests for Multi-turn Conversation Handling
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { BaseAIProvider } from './providers/base';
+import type { ChatMessage } from './types';
+import { parseRewrittenQuestion, rewriteStandaloneQuestion, windowHistory } from './conversation';
+
+const history: ChatMessage[] = [
+  { role: 'user', content: 'Chiều cao tối đa của chung cư theo QCVN 06:2022?' },
+  { role: 'assistant', content: 'Theo QCVN 06:2022, chiều cao tối đa là 150 m.' }
+];
+
+const providerReturning = (complete: () => Promise<{ content: string }>) =>
+  ({ complete: vi.fn(complete) }) as unknown as BaseAIProvider;
+
+describe('Conversation', () => {
+  it('should clean up the rewritten question', () => {
+    expect(parseRewrittenQuestion('"Nhà ở riêng lẻ cao tối đa bao nhiêu?"\n')).toBe('Nhà ở riêng lẻ cao tối đa bao nhiêu?');
+    expect(parseRewrittenQuestion('Câu hỏi độc lập: Nhà ở riêng lẻ?')).toBe('Nhà ở riêng lẻ?');
+  });
+
+  it('should rewrite follow-ups with the conversation', async () => {
+    const provider = providerReturning(async () => ({
+      content: 'Chiều cao tối đa của nhà ở riêng lẻ theo QCVN 06:2022?'
+    }));
+
+    const rewritten = await rewriteStandaloneQuestion(provider, 'còn nhà ở riêng lẻ thì sao?', history);
+
+    expect(rewritten).toBe('Chiều cao tối đa của nhà ở riêng lẻ theo QCVN 06:2022?');
+    const prompt = vi.mocked(provider.complete).mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain('QCVN 06:2022');
+    expect(prompt).toContain('còn nhà ở riêng lẻ thì sao?');
+  });
+
+  it('should keep the question without history or when rewriting fails', async () => {
+    const provider = providerReturning(async () => { throw new Error('offline'); });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await rewriteStandaloneQuestion(provider, 'câu hỏi', [])).toBe('câu hỏi');
+    expect(provider.complete).not.toHaveBeenCalled();
+    expect(await rewriteStandaloneQuestion(provider, 'câu hỏi', history)).toBe('câu hỏi');
+  });
+
+  it('should keep all turns that fit the budget', () => {
+    expect(windowHistory(history, 1000)).toEqual({ messages: history });
+  });
+
+  it('should drop old turns and summarize their questions', () => {
+    const long = 'x'.repeat(400); // 100 tokens
+    const turns: ChatMessage[] = [
+      { role: 'user', content: 'Câu hỏi đầu tiên' },
+      { role: 'assistant', content: long },
+      { role: 'user', content: 'Câu hỏi thứ hai' },
+      { role: 'assistant', content: long }
+    ];
+
+    const { messages, summary } = windowHistory(turns, 130);
+
+    expect(messages).toEqual(turns.slice(2));
+    expect(summary).toContain('Câu hỏi đầu tiên');
+    expect(summary).not.toContain('thứ hai');
+  });
+
+  it('should not start the window with an orphaned answer', () => {
+    const { messages } = windowHistory([
+      { role: 'user', content: 'x'.repeat(400) },
+      { role: 'assistant', content: 'ngắn' }
+    ], 50);
+
+    expect(messages).toEqual([]);
+  });
+});
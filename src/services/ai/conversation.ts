@@ -0,0 +1,149 @@
+/**
+ * Conversation Handling for Multi-turn RAG
+ * Follow-up questions ("còn nhà ở riêng lẻ thì sao?") are rewritten into standalone
+ * questions before retrieval, and the history sent to the model is windowed to fit
+ * the context budget, with older turns condensed into a short summary.
+ */
+
+import type { BaseAIProvider } from './providers/base';
+import { estimateTokens } from './tokenizer';
+import type { ChatMessage } from './types';
+
+/**
+ * Default token budget for the whole prompt (documents, history and question)
+ */
+export const DEFAULT_MAX_CONTEXT_LENGTH = 8000;
+
+/**
+ * Messages of recent history shown to the rewriter
+ */
+const REWRITE_HISTORY_MESSAGES = 6;
+
+/**
+ * Longest message excerpt given to the rewriter and kept in summaries (characters)
+ */
+const MESSAGE_EXCERPT_LENGTH = 500;
+const SUMMARY_QUESTION_LENGTH = 120;
+
+function excerpt(text: string, maxLength: number): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  return trimmed.length > maxLength ? `${trimmed.slice(0, maxLength)}…` : trimmed;
+}
+
+/**
+ * Previous user/assistant turns (system messages are never carried over)
+ */
+function dialogTurns(history: ChatMessage[]): ChatMessage[] {
+  return history.filter((message) => message.role !== 'system' && message.content.trim().length > 0);
+}
+
+/**
+ * Clean up the rewriter's output: first line, without quotes or a "Câu hỏi:" label
+ */
+export function parseRewrittenQuestion(output: string): string {
+  const line = output.trim().split('\n').find((candidate) => candidate.trim().length > 0) ?? '';
+  return line
+    .trim()
+    .replace(/^(câu hỏi( độc lập)?|standalone question)\s*:\s*/i, '')
+    .replace(/^["'“”«]+|["'“”»]+$/g, '')
+    .trim();
+}
+
+/**
+ * Rewrite a follow-up into a question that can be searched without the conversation.
+ * Without history, or if the provider fails, the question is returned unchanged.
+ */
+export async function rewriteStandaloneQuestion(
+  provider: BaseAIProvider,
+  question: string,
+  history: ChatMessage[]
+): Promise<string> {
+  const recent = dialogTurns(history).slice(-REWRITE_HISTORY_MESSAGES);
+  if (recent.length === 0) {
+    return question;
+  }
+
+  const transcript = recent
+    .map((message) => `${message.role === 'user' ? 'Người dùng' : 'Trợ lý'}: ${excerpt(message.content, MESSAGE_EXCERPT_LENGTH)}`)
+    .join('\n');
+
+  try {
+    const response = await provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `Viết lại câu hỏi tiếp theo của người dùng thành một câu hỏi độc lập, đầy đủ ngữ cảnh, để tìm kiếm trong tài liệu.
+- Thay đại từ và ý lược bỏ bằng đối tượng cụ thể từ cuộc hội thoại (tên văn bản, điều khoản, loại công trình)
+- Giữ nguyên số hiệu văn bản và năm ban hành
+- Nếu câu hỏi đã độc lập, giữ nguyên
+- Chỉ trả về câu hỏi, không giải thích`,
+        },
+        {
+          role: 'user',
+          content: `HỘI THOẠI:
+${transcript}
+
+CÂU HỎI TIẾP THEO:
+${question}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 200,
+      usageTag: { purpose: 'rewrite' },
+    });
+
+    const rewritten = parseRewrittenQuestion(response.content);
+    return rewritten || question;
+  } catch (error) {
+    console.warn('[RAG] Question rewriting failed, searching with the original question:', error);
+    return question;
+  }
+}
+
+/**
+ * Keep the most recent turns that fit in `maxTokens`; earlier questions are condensed
+ * into a summary so the model still knows what the conversation covered
+ */
+export function windowHistory(
+  history: ChatMessage[],
+  maxTokens: number,
+  countTokens: (text: string) => number = estimateTokens
+): { messages: ChatMessage[]; summary?: string } {
+  const turns = dialogTurns(history);
+  const kept: ChatMessage[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = countTokens(turns[i].content);
+    if (used + tokens > maxTokens) break;
+    kept.unshift(turns[i]);
+    used += tokens;
+  }
+
+  // Never start the window with an answer whose question was dropped
+  if (kept[0]?.role === 'assistant') {
+    kept.shift();
+  }
+
+  const dropped = turns.slice(0, turns.length - kept.length);
+  const earlierQuestions = dropped.filter((message) => message.role === 'user');
+  if (earlierQuestions.length === 0) {
+    return { messages: kept };
+  }
+
+  // The summary takes what is left of the budget, newest questions first
+  const lines: string[] = [];
+  let summaryTokens = 0;
+  for (let i = earlierQuestions.length - 1; i >= 0; i--) {
+    const line = `- ${excerpt(earlierQuestions[i].content, SUMMARY_QUESTION_LENGTH)}`;
+    const tokens = countTokens(line);
+    if (used + summaryTokens + tokens > maxTokens) break;
+    lines.unshift(line);
+    summaryTokens += tokens;
+  }
+
+  return {
+    messages: kept,
+    summary: lines.length > 0 ? `Người dùng đã hỏi trước đó:\n${lines.join('\n')}` : undefined,
+  };
+}
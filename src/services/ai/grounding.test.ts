@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Answer Grounding Verification
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { BaseAIProvider } from './providers/base';
+import type { RetrievedChunk } from './types';
+import { extractNumbers, parseJudgeVerdicts, splitSentences, verifyAnswer } from './grounding';
+
+const source = (content: string, documentName = 'QCVN 06:2022'): RetrievedChunk => ({
+  content,
+  documentName,
+  documentId: documentName,
+  similarity: 0.8,
+  chunkIndex: 0
+});
+
+const sources = [
+  source('Chiều cao tối đa của nhà chung cư là 150 m tính từ cao độ mặt đất.'),
+  source('Chiều rộng thông thủy của lối ra thoát nạn không nhỏ hơn 1,2 m.', 'QCVN 06:2022')
+];
+
+describe('Grounding', () => {
+  it('should split sentences and keep their offsets', () => {
+    const answer = 'Chiều cao tối đa là 150 m [1]. Lối ra rộng 1.2 m, xem tr. 47.\n- Không dùng thang máy.';
+    const sentences = splitSentences(answer);
+
+    expect(sentences.map(sentence => sentence.text)).toEqual([
+      'Chiều cao tối đa là 150 m [1].',
+      'Lối ra rộng 1.2 m, xem tr. 47.',
+      '- Không dùng thang máy.'
+    ]);
+    sentences.forEach(sentence => expect(answer.slice(sentence.start, sentence.end)).toBe(sentence.text));
+  });
+
+  it('should keep citation markers written after the full stop', () => {
+    expect(splitSentences('Cao tối đa 150 m. [1] Rộng 1,2 m. [2]').map(sentence => sentence.text)).toEqual([
+      'Cao tối đa 150 m. [1]',
+      'Rộng 1,2 m. [2]'
+    ]);
+  });
+
+  it('should read figures without citation markers', () => {
+    expect(extractNumbers('Rộng 1,2 m và cao 150 m [2].')).toEqual(['1.2', '150']);
+  });
+
+  it('should support sentences found in the sources', async () => {
+    const report = await verifyAnswer(
+      'Theo QCVN 06:2022, chiều cao tối đa của nhà chung cư là 150 m [1]. Lối ra thoát nạn rộng không nhỏ hơn 1,2 m [2].',
+      sources
+    );
+
+    expect(report.sentences).toHaveLength(2);
+    expect(report.sentences.every(sentence => sentence.supported)).toBe(true);
+    expect(report.sentences[0].sources[0]).toBe(1);
+    expect(report.score).toBe(1);
+  });
+
+  it('should flag figures that appear in no source', async () => {
+    const report = await verifyAnswer('Chiều cao tối đa của nhà chung cư là 200 m [1].', sources);
+
+    expect(report.sentences[0].supported).toBe(false);
+    expect(report.sentences[0].unsupportedNumbers).toEqual(['200']);
+    expect(report.score).toBe(0);
+  });
+
+  it('should skip headings and answers about missing information', async () => {
+    const report = await verifyAnswer('Cụ thể như sau:\nXin lỗi, tôi không tìm thấy thông tin về tầng hầm.', sources);
+
+    expect(report.sentences).toEqual([]);
+    expect(report.score).toBe(1);
+  });
+
+  it('should blend embedding similarity into the score', async () => {
+    // Paraphrase with little syllable overlap but a close embedding
+    const embed = vi.fn(async (texts: string[]) => texts.map((_, index) => (index === 0 || index === 1 ? [1, 0] : [0, 1])));
+    const report = await verifyAnswer('Toà nhà ở nhiều hộ không vượt quá 150 m.', sources, { embed });
+
+    expect(report.methods).toEqual(['lexical', 'embedding']);
+    expect(report.sentences[0].supported).toBe(true);
+    expect(report.sentences[0].sources).toEqual([1]);
+  });
+
+  it('should average in the judge verdict', async () => {
+    const judge = { complete: vi.fn(async () => ({ content: '1: UNSUPPORTED' })) } as unknown as BaseAIProvider;
+    const report = await verifyAnswer('Chiều cao tối đa của nhà chung cư là 150 m [1].', sources, { judge });
+
+    expect(report.methods).toEqual(['lexical', 'llm']);
+    expect(report.sentences[0].score).toBeLessThan(0.6);
+    expect(parseJudgeVerdicts('1: SUPPORTED\n2. partial\n- 3: UNSUPPORTED')).toEqual(
+      new Map([[1, 1], [2, 0.5], [3, 0]])
+    );
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Answer Grounding Verification
+ * Splits a generated answer into sentences and scores how well each one is supported
+ * by the retrieved chunks: syllable overlap, embedding similarity and, optionally,
+ * a verdict from the model. Figures that appear in no source (heights, distances,
+ * fire ratings) mark the sentence as unsupported regardless of the other signals.
+ */
+
+import type { BaseAIProvider } from './providers/base';
+import type { GroundingReport, RetrievedChunk, SentenceSupport } from './types';
+import { cosineSimilarity } from '../../utils/embeddingCodec';
+import { foldDiacritics, normalizeForSearch, segmentSyllables } from '../../utils/vietnameseText';
+
+/**
+ * Sentences scoring at least this are considered supported
+ */
+export const SUPPORT_THRESHOLD = 0.5;
+
+/**
+ * Highest score of a sentence containing a figure found in no source
+ */
+const NUMBER_MISMATCH_CAP = 0.2;
+
+/**
+ * Sentences with fewer content syllables are not checked ("Cụ thể:", "1.")
+ */
+const MIN_CLAIM_SYLLABLES = 3;
+
+/**
+ * Weight of syllable overlap when embedding similarity is also available
+ */
+const LEXICAL_WEIGHT = 0.5;
+
+/**
+ * Cosine similarities mapped to 0 and 1 (sentence embeddings rarely go below or above)
+ */
+const EMBEDDING_FLOOR = 0.3;
+const EMBEDDING_CEILING = 0.8;
+
+/**
+ * Longest source excerpt shown to the judge (characters)
+ */
+const JUDGE_SOURCE_LENGTH = 1500;
+
+/**
+ * Function words that say nothing about whether a claim is supported (folded)
+ */
+const STOPWORDS = new Set([
+  'cua', 'la', 'va', 'cac', 'duoc', 'co', 'theo', 'trong', 'cho', 'voi', 'nay', 'do',
+  'nhung', 'mot', 'thi', 'tai', 'tu', 'den', 'khi', 'neu', 'phai', 'se', 'da', 'bi', 'hoac', 'ma'
+]);
+
+/**
+ * Answers about missing information are not claims about the documents
+ */
+const NON_CLAIM_PATTERNS = [/khong tim thay/, /khong co thong tin/, /xin loi/];
+
+const JUDGE_SCORES: Record<string, number> = { SUPPORTED: 1, PARTIAL: 0.5, UNSUPPORTED: 0 };
+
+const CITATION_MARKER = /\[[^\]\n]{1,20}\]/g;
+const SENTENCE_END = /[.!?…]/;
+
+interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface VerifyOptions {
+  embed?: (texts: string[]) => Promise<number[][]>; // Same model for claims and sources
+  judge?: BaseAIProvider;
+}
+
+/**
+ * Split an answer into sentences with their offsets. Decimals ("1.5 m"), abbreviations
+ * followed by a number or lowercase word ("tr. 47") and citation markers after the
+ * full stop stay within their sentence.
+ */
+export function splitSentences(answer: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = answer.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+    if (text) {
+      sentences.push({ text, start: start + leading, end: start + leading + text.length });
+    }
+    start = end;
+  };
+
+  for (let i = 0; i < answer.length; i++) {
+    if (answer[i] === '\n') {
+      push(i);
+      continue;
+    }
+    if (!SENTENCE_END.test(answer[i])) continue;
+
+    let next = i + 1;
+    while (next < answer.length && SENTENCE_END.test(answer[next])) next++;
+    const markers = answer.slice(next).match(/^(\s*\[[^\]\n]{1,20}\])+/);
+    if (markers) next += markers[0].length;
+
+    if (next < answer.length && !/\s/.test(answer[next])) continue;
+    const following = answer.slice(next).match(/^[^\S\n]*(\S)/);
+    if (following && /[\p{Ll}\p{N}]/u.test(following[1])) continue;
+
+    push(next);
+    i = next - 1;
+  }
+  push(answer.length);
+
+  return sentences;
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(CITATION_MARKER, ' ');
+}
+
+/**
+ * Folded content syllables of a text
+ */
+function contentTerms(text: string): Set<string> {
+  return new Set(
+    segmentSyllables(stripMarkers(text))
+      .map(foldDiacritics)
+      .filter(term => !STOPWORDS.has(term))
+  );
+}
+
+/**
+ * Figures in a text, with decimal commas written as points ("1,5" → "1.5")
+ */
+export function extractNumbers(text: string): string[] {
+  return (stripMarkers(text).match(/\d+(?:[.,]\d+)*/g) ?? []).map(number => number.replace(/,/g, '.'));
+}
+
+/**
+ * Text a claim may draw on: the chunk plus the document name and article path it is cited by
+ */
+function sourceText(source: RetrievedChunk): string {
+  return [source.documentName, source.sectionPath, source.content].filter(Boolean).join('\n');
+}
+
+function isClaim(sentence: string, terms: Set<string>): boolean {
+  if (terms.size < MIN_CLAIM_SYLLABLES || /[?:]$/.test(sentence)) return false;
+  const normalized = normalizeForSearch(sentence);
+  return !NON_CLAIM_PATTERNS.some(pattern => pattern.test(normalized));
+}
+
+/**
+ * Share of the claim's content syllables found in the source
+ */
+function lexicalSupport(claim: Set<string>, source: Set<string>): number {
+  let found = 0;
+  claim.forEach(term => {
+    if (source.has(term)) found++;
+  });
+  return found / claim.size;
+}
+
+function embeddingSupport(similarity: number): number {
+  return Math.min(1, Math.max(0, (similarity - EMBEDDING_FLOOR) / (EMBEDDING_CEILING - EMBEDDING_FLOOR)));
+}
+
+/**
+ * Read the judge's "n: SUPPORTED|PARTIAL|UNSUPPORTED" lines into scores by claim number
+ */
+export function parseJudgeVerdicts(output: string): Map<number, number> {
+  const verdicts = new Map<number, number>();
+  for (const line of output.split('\n')) {
+    const match = line.match(/^\W*(\d+)\W+(UNSUPPORTED|SUPPORTED|PARTIAL)\b/i);
+    if (match) {
+      verdicts.set(Number(match[1]), JUDGE_SCORES[match[2].toUpperCase()]);
+    }
+  }
+  return verdicts;
+}
+
+async function judgeClaims(
+  provider: BaseAIProvider,
+  claims: string[],
+  sources: RetrievedChunk[]
+): Promise<Map<number, number>> {
+  const context = sources
+    .map((source, index) => `[${index + 1}] ${source.content.slice(0, JUDGE_SOURCE_LENGTH)}`)
+    .join('\n\n');
+  const numbered = claims.map((claim, index) => `${index + 1}. ${stripMarkers(claim).trim()}`).join('\n');
+
+  const response = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content: `Bạn kiểm tra từng nhận định có được các đoạn tài liệu hỗ trợ hay không.
+- SUPPORTED: tài liệu nêu đúng nhận định, kể cả số liệu và đơn vị
+- PARTIAL: tài liệu chỉ hỗ trợ một phần
+- UNSUPPORTED: tài liệu không nêu hoặc nêu khác
+Trả về mỗi nhận định một dòng dạng "số: SUPPORTED|PARTIAL|UNSUPPORTED", không giải thích.`,
+      },
+      {
+        role: 'user',
+        content: `TÀI LIỆU:\n${context}\n\nNHẬN ĐỊNH:\n${numbered}`,
+      },
+    ],
+    temperature: 0,
+    usageTag: { purpose: 'grounding' },
+  });
+
+  return parseJudgeVerdicts(response.content);
+}
+
+/**
+ * Score each factual sentence of the answer against the sources. Embedding and judge
+ * failures are logged and the remaining signals are used.
+ */
+export async function verifyAnswer(
+  answer: string,
+  sources: RetrievedChunk[],
+  options: VerifyOptions = {}
+): Promise<GroundingReport> {
+  const methods: GroundingReport['methods'] = ['lexical'];
+  const claims = splitSentences(answer)
+    .map(sentence => ({ ...sentence, terms: contentTerms(sentence.text) }))
+    .filter(sentence => isClaim(sentence.text, sentence.terms));
+
+  if (claims.length === 0 || sources.length === 0) {
+    return { sentences: [], score: 1, methods };
+  }
+
+  const sourceTerms = sources.map(source => contentTerms(sourceText(source)));
+  const sourceNumbers = new Set(sources.flatMap(source => extractNumbers(sourceText(source))));
+
+  // Claim-by-source support from overlap, blended with embedding similarity when available
+  let support = claims.map(claim => sourceTerms.map(terms => lexicalSupport(claim.terms, terms)));
+  if (options.embed) {
+    try {
+      const embeddings = await options.embed([
+        ...claims.map(claim => stripMarkers(claim.text)),
+        ...sources.map(source => source.content),
+      ]);
+      const sourceEmbeddings = embeddings.slice(claims.length);
+      support = support.map((lexical, claimIndex) =>
+        lexical.map((score, sourceIndex) => {
+          const similarity = cosineSimilarity(embeddings[claimIndex], sourceEmbeddings[sourceIndex]);
+          return LEXICAL_WEIGHT * score + (1 - LEXICAL_WEIGHT) * embeddingSupport(similarity);
+        })
+      );
+      methods.push('embedding');
+    } catch (error) {
+      console.warn('[Grounding] Embedding check failed:', error);
+    }
+  }
+
+  let verdicts: Map<number, number> | undefined;
+  if (options.judge) {
+    try {
+      verdicts = await judgeClaims(options.judge, claims.map(claim => claim.text), sources);
+      methods.push('llm');
+    } catch (error) {
+      console.warn('[Grounding] Judge failed:', error);
+    }
+  }
+
+  const sentences: SentenceSupport[] = claims.map((claim, claimIndex) => {
+    let score = Math.max(...support[claimIndex]);
+    const verdict = verdicts?.get(claimIndex + 1);
+    if (verdict !== undefined) {
+      score = (score + verdict) / 2;
+    }
+
+    const unsupportedNumbers = extractNumbers(claim.text).filter(number => !sourceNumbers.has(number));
+    if (unsupportedNumbers.length > 0) {
+      score = Math.min(score, NUMBER_MISMATCH_CAP);
+    }
+
+    const supporting = support[claimIndex]
+      .map((sourceScore, sourceIndex) => ({ number: sourceIndex + 1, score: sourceScore }))
+      .filter(source => source.score >= SUPPORT_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .map(source => source.number);
+
+    return {
+      text: claim.text,
+      start: claim.start,
+      end: claim.end,
+      score,
+      supported: score >= SUPPORT_THRESHOLD,
+      sources: supporting,
+      ...(unsupportedNumbers.length > 0 && { unsupportedNumbers }),
+    };
+  });
+
+  return {
+    sentences,
+    score: sentences.filter(sentence => sentence.supported).length / sentences.length,
+    methods,
+  };
+}
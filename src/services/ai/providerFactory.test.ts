@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for the Provider Factory
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createProviders, providerConfigsFromEnv } from './providerFactory';
+
+describe('Provider Factory', () => {
+  it('should enable keyed providers from the environment', () => {
+    const configs = providerConfigsFromEnv({
+      VITE_ANTHROPIC_API_KEY: 'sk-ant',
+      VITE_GROQ_API_KEY: 'gsk',
+      VITE_GROQ_MODEL: 'llama-3.1-8b-instant'
+    });
+
+    expect(configs.openai).toBeUndefined();
+    expect(configs.anthropic).toEqual({ apiKey: 'sk-ant', model: 'claude-3-haiku-20240307', enabled: true });
+    expect(configs.groq?.model).toBe('llama-3.1-8b-instant');
+    expect(configs.ollama).toMatchObject({ baseUrl: 'http://localhost:11434', enabled: true });
+  });
+
+  it('should enable a self-hosted server when its URL is set', () => {
+    const configs = providerConfigsFromEnv({
+      VITE_OPENAI_COMPATIBLE_BASE_URL: 'http://gpu-box:8000/v1',
+      VITE_OPENAI_COMPATIBLE_HEADERS: '{"X-Tenant":"acme"}'
+    });
+
+    expect(configs['openai-compatible']).toEqual({
+      baseUrl: 'http://gpu-box:8000/v1',
+      apiKey: undefined,
+      model: '',
+      headers: { 'X-Tenant': 'acme' },
+      enabled: true
+    });
+    expect(createProviders(configs).map(provider => provider.getProvider())).toEqual(['ollama', 'openai-compatible']);
+  });
+
+  it('should create enabled providers only', () => {
+    const providers = createProviders({
+      anthropic: { apiKey: 'sk-ant', model: 'claude-3-5-haiku-latest', enabled: true },
+      groq: { apiKey: 'gsk', model: 'llama-3.3-70b-versatile', enabled: false },
+      openai: { apiKey: '', model: 'gpt-4o-mini', enabled: true },
+      ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.1', enabled: true }
+    });
+
+    expect(providers.map(provider => provider.getProvider())).toEqual(['ollama', 'anthropic']);
+    expect(providers[1].getModel()).toBe('claude-3-5-haiku-latest');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Provider Factory
+ * Builds provider instances from the `providers` section of AIProviderSettings.
+ * Providers that are disabled or missing an API key are skipped.
+ */
+
+import { BaseAIProvider } from './providers/base';
+import { OpenAIProvider } from './providers/openai';
+import { GeminiProvider } from './providers/gemini';
+import { OllamaProvider } from './providers/ollama';
+import { AnthropicProvider } from './providers/anthropic';
+import { GroqProvider } from './providers/groq';
+import { OpenAICompatibleProvider } from './providers/openaiCompatible';
+import type { AIProvider, AIProviderSettings } from './types';
+import { DEFAULT_MODELS } from './types';
+
+export type ProviderConfigs = AIProviderSettings['providers'];
+
+/**
+ * Request options shared by all providers
+ */
+export type ProviderOptions = Partial<Pick<AIProviderSettings, 'timeout' | 'maxRetries'>>;
+
+/**
+ * Create one provider from its settings, or null when it is disabled or has no key
+ */
+export function createProvider(name: AIProvider, configs: ProviderConfigs, options: ProviderOptions = {}): BaseAIProvider | null {
+  const provider = instantiate(name, configs, options.timeout);
+  if (provider && options.maxRetries !== undefined) {
+    provider.setMaxRetries(options.maxRetries);
+  }
+  return provider;
+}
+
+function instantiate(name: AIProvider, configs: ProviderConfigs, timeout?: number): BaseAIProvider | null {
+  switch (name) {
+    case 'openai':
+      return configs.openai?.enabled && configs.openai.apiKey
+        ? new OpenAIProvider({ apiKey: configs.openai.apiKey, model: configs.openai.model, timeout })
+        : null;
+    case 'gemini':
+      return configs.gemini?.enabled && configs.gemini.apiKey
+        ? new GeminiProvider({ apiKey: configs.gemini.apiKey, model: configs.gemini.model, timeout })
+        : null;
+    case 'anthropic':
+      return configs.anthropic?.enabled && configs.anthropic.apiKey
+        ? new AnthropicProvider({ apiKey: configs.anthropic.apiKey, model: configs.anthropic.model, timeout })
+        : null;
+    case 'groq':
+      return configs.groq?.enabled && configs.groq.apiKey
+        ? new GroqProvider({ apiKey: configs.groq.apiKey, model: configs.groq.model, timeout })
+        : null;
+    case 'openai-compatible': {
+      const config = configs['openai-compatible'];
+      return config?.enabled && config.baseUrl
+        ? new OpenAICompatibleProvider({ ...config, timeout })
+        : null;
+    }
+    case 'ollama':
+      return configs.ollama?.enabled
+        ? new OllamaProvider({ baseUrl: configs.ollama.baseUrl, model: configs.ollama.model, timeout })
+        : null;
+  }
+}
+
+/**
+ * Create every enabled provider; one that fails to construct is logged and skipped
+ */
+export function createProviders(configs: ProviderConfigs, options: ProviderOptions = {}): BaseAIProvider[] {
+  const providers: BaseAIProvider[] = [];
+
+  for (const name of Object.keys(DEFAULT_MODELS) as AIProvider[]) {
+    try {
+      const provider = createProvider(name, configs, options);
+      if (provider) providers.push(provider);
+    } catch (error) {
+      console.warn(`[AI] ${name} registration failed:`, error);
+    }
+  }
+
+  return providers;
+}
+
+/**
+ * Extra request headers given as a JSON object, e.g. {"X-Tenant":"acme"}
+ */
+function parseHeaders(json: string | undefined): Record<string, string> | undefined {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    console.warn('[AI] Ignoring invalid VITE_OPENAI_COMPATIBLE_HEADERS');
+    return undefined;
+  }
+}
+
+/**
+ * Provider settings from VITE_* environment variables: keyed providers are enabled when
+ * their key is set, a self-hosted server when its URL is set, Ollama always (it fails gracefully when not running)
+ */
+export function providerConfigsFromEnv(env: Record<string, string | undefined>): ProviderConfigs {
+  const keyed = (apiKey: string | undefined, model: string | undefined, provider: AIProvider) =>
+    apiKey ? { apiKey, model: model || DEFAULT_MODELS[provider], enabled: true } : undefined;
+
+  return {
+    openai: keyed(env.VITE_OPENAI_API_KEY, env.VITE_OPENAI_MODEL, 'openai'),
+    gemini: keyed(env.VITE_GEMINI_API_KEY, env.VITE_GEMINI_MODEL, 'gemini'),
+    anthropic: keyed(env.VITE_ANTHROPIC_API_KEY, env.VITE_ANTHROPIC_MODEL, 'anthropic'),
+    groq: keyed(env.VITE_GROQ_API_KEY, env.VITE_GROQ_MODEL, 'groq'),
+    'openai-compatible': env.VITE_OPENAI_COMPATIBLE_BASE_URL
+      ? {
+          baseUrl: env.VITE_OPENAI_COMPATIBLE_BASE_URL,
+          apiKey: env.VITE_OPENAI_COMPATIBLE_API_KEY || undefined,
+          model: env.VITE_OPENAI_COMPATIBLE_MODEL || DEFAULT_MODELS['openai-compatible'],
+          headers: parseHeaders(env.VITE_OPENAI_COMPATIBLE_HEADERS),
+          enabled: true,
+        }
+      : undefined,
+    ollama: {
+      baseUrl: env.VITE_OLLAMA_BASE_URL || 'http://localhost:11434',
+      model: env.VITE_OLLAMA_MODEL || DEFAULT_MODELS.ollama,
+      enabled: true,
+    },
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for the AI Provider Manager
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AIProviderManager } from './providerManager';
+import { CircuitBreaker } from './circuitBreaker';
+import type { BaseAIProvider } from './providers/base';
+import { AuthenticationError, ProviderUnavailableError, type AIProvider } from './types';
+
+const fakeProvider = (name: AIProvider) => ({ getProvider: () => name }) as unknown as BaseAIProvider;
+
+describe('AIProviderManager', () => {
+  let manager: AIProviderManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new AIProviderManager('gemini', new CircuitBreaker({ failureThreshold: 2, cooldownMs: 60_000 }));
+    manager.setFallbackOrder(['gemini', 'groq', 'ollama']);
+    for (const name of ['gemini', 'groq', 'ollama'] as AIProvider[]) {
+      manager.registerProvider(fakeProvider(name));
+    }
+  });
+
+  it('should fall back in order and report the provider that answered', async () => {
+    const answeredBy = await manager.executeWithFallback(async provider => {
+      if (provider.getProvider() === 'gemini') throw new AuthenticationError('gemini');
+      return provider.getProvider();
+    });
+
+    expect(answeredBy).toBe('groq');
+  });
+
+  it('should skip a provider whose circuit is open', async () => {
+    const attempts: AIProvider[] = [];
+    const fn = async (provider: BaseAIProvider) => {
+      attempts.push(provider.getProvider());
+      if (provider.getProvider() === 'gemini') throw new AuthenticationError('gemini');
+      return provider.getProvider();
+    };
+
+    await manager.executeWithFallback(fn);
+    await manager.executeWithFallback(fn);
+
+    expect(attempts).toEqual(['gemini', 'groq', 'groq']);
+    expect(manager.selectProvider()?.getProvider()).toBe('groq');
+  });
+
+  it('should fall back when the preferred provider is not registered', async () => {
+    await expect(manager.executeWithFallback(async provider => provider.getProvider(), 'openai')).resolves.toBe('gemini');
+
+    manager.setAutoFallback(false);
+    await expect(manager.executeWithFallback(async () => 'ok', 'openai')).rejects.toThrow('Provider openai not available');
+  });
+
+  it('should stop falling back when asked to', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('stream broke'));
+
+    await expect(manager.executeWithFallback(fn, undefined, () => false)).rejects.toThrow('stream broke');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse when auto fallback is off and the provider is paused', async () => {
+    manager.setAutoFallback(false);
+    await manager.executeWithFallback(() => Promise.reject(new AuthenticationError('gemini'))).catch(() => {});
+
+    await expect(manager.executeWithFallback(async () => 'ok')).rejects.toBeInstanceOf(ProviderUnavailableError);
+  });
+
+  it('should skip providers blocked by the budget', async () => {
+    manager.setBlockedProviders(['gemini', 'groq']);
+
+    await expect(manager.executeWithFallback(async provider => provider.getProvider())).resolves.toBe('ollama');
+
+    manager.setAutoFallback(false);
+    await expect(manager.executeWithFallback(async () => 'ok')).rejects.toThrow('monthly budget exceeded');
+  });
+});
@@ -1,22 +1,32 @@
 /**
  * AI Provider Manager
- * Manages multiple AI providers with fallback logic and health checking
+ * Manages multiple AI providers with fallback logic, circuit breaking, budget blocking and health checking
  */
 
 import { BaseAIProvider } from './providers/base';
+import { CircuitBreaker } from './circuitBreaker';
 import type { AIProvider, ProviderStatus, AIModelConfig } from './types';
+import { ProviderUnavailableError } from './types';
+
+/**
+ * Order in which providers are tried when the active one fails
+ */
+export const DEFAULT_FALLBACK_ORDER: AIProvider[] = ['gemini', 'openai', 'anthropic', 'groq', 'openai-compatible', 'ollama'];
 
 export class AIProviderManager {
     private providers: Map<AIProvider, BaseAIProvider>;
     private currentProvider: AIProvider;
     private fallbackOrder: AIProvider[];
     private enableAutoFallback: boolean;
+    private circuitBreaker: CircuitBreaker;
+    private blockedProviders = new Set<AIProvider>();
 
-    constructor(initialProvider: AIProvider = 'gemini') {
+    constructor(initialProvider: AIProvider = 'gemini', circuitBreaker: CircuitBreaker = new CircuitBreaker()) {
         this.providers = new Map();
         this.currentProvider = initialProvider;
-        this.fallbackOrder = ['gemini', 'openai', 'ollama'];
+        this.fallbackOrder = [...DEFAULT_FALLBACK_ORDER];
         this.enableAutoFallback = true;
+        this.circuitBreaker = circuitBreaker;
     }
 
     /**
@@ -26,6 +36,14 @@ export class AIProviderManager {
         this.providers.set(provider.getProvider(), provider);
     }
 
+    /**
+     * Remove all providers, before registering a new configuration
+     */
+    clearProviders(): void {
+        this.providers.clear();
+        this.circuitBreaker.reset();
+    }
+
     /**
      * Set active provider
      */
@@ -43,6 +61,13 @@ export class AIProviderManager {
         this.fallbackOrder = order;
     }
 
+    /**
+     * Providers to skip because the monthly budget is spent
+     */
+    setBlockedProviders(providers: AIProvider[]): void {
+        this.blockedProviders = new Set(providers);
+    }
+
     /**
      * Enable/disable auto fallback
      */
@@ -50,6 +75,13 @@ export class AIProviderManager {
         this.enableAutoFallback = enabled;
     }
 
+    /**
+     * Get current provider name
+     */
+    getCurrentProviderName(): AIProvider {
+        return this.currentProvider;
+    }
+
     /**
      * Get current provider
      */
@@ -95,50 +127,80 @@ export class AIProviderManager {
     }
 
     /**
-     * Execute function with fallback logic
+     * Providers to try for a request, preferred first, skipping those whose circuit is open
+     * or that are blocked by the budget
+     */
+    private candidates(preferredProvider?: AIProvider): AIProvider[] {
+        const preferred = preferredProvider || this.currentProvider;
+        const order = this.enableAutoFallback
+            ? [preferred, ...this.fallbackOrder.filter(name => name !== preferred)]
+            : [preferred];
+
+        return order.filter(
+            name => this.providers.has(name) && !this.blockedProviders.has(name) && !this.circuitBreaker.isOpen(name)
+        );
+    }
+
+    /**
+     * Provider a request would start with: the preferred one unless its circuit is open
+     */
+    selectProvider(preferredProvider?: AIProvider): BaseAIProvider | undefined {
+        const [name] = this.candidates(preferredProvider);
+        return name ? this.providers.get(name) : undefined;
+    }
+
+    /**
+     * Execute function with fallback logic. Failures feed the circuit breaker; providers
+     * with an open circuit are skipped. `shouldFallback` can stop the fallback after an
+     * error, e.g. once part of a streamed answer has been shown.
      */
     async executeWithFallback<T>(
         fn: (provider: BaseAIProvider) => Promise<T>,
-        preferredProvider?: AIProvider
+        preferredProvider?: AIProvider,
+        shouldFallback: (error: unknown) => boolean = () => true
     ): Promise<T> {
         const providerToUse = preferredProvider || this.currentProvider;
-        const provider = this.providers.get(providerToUse);
-
-        if (!provider) {
-            throw new Error(`Provider ${providerToUse} not available`);
-        }
-
-        try {
-            // Try with preferred provider first
-            return await fn(provider);
-        } catch (error) {
-            console.warn(`Provider ${providerToUse} failed:`, error);
-
-            // If auto fallback is disabled, re-throw the error
-            if (!this.enableAutoFallback) {
-                throw error;
+        const candidates = this.candidates(providerToUse);
+        if (candidates.length === 0) {
+            if (!this.providers.has(providerToUse)) {
+                throw new Error(`Provider ${providerToUse} not available`);
             }
+            const until = this.circuitBreaker.openUntil(providerToUse);
+            throw new ProviderUnavailableError(
+                providerToUse,
+                this.blockedProviders.has(providerToUse)
+                    ? 'monthly budget exceeded'
+                    : until
+                      ? `paused after repeated failures until ${new Date(until).toLocaleTimeString()}`
+                      : undefined
+            );
+        }
 
-            // Try fallback providers in order
-            for (const fallbackProviderName of this.fallbackOrder) {
-                // Skip the provider that already failed
-                if (fallbackProviderName === providerToUse) continue;
+        let firstError: unknown;
+        for (const name of candidates) {
+            const provider = this.providers.get(name);
+            if (!provider) continue;
 
-                const fallbackProvider = this.providers.get(fallbackProviderName);
-                if (!fallbackProvider) continue;
+            try {
+                if (name !== providerToUse) {
+                    console.log(`Trying fallback provider: ${name}`);
+                }
+                const result = await fn(provider);
+                this.circuitBreaker.recordSuccess(name);
+                return result;
+            } catch (error) {
+                console.warn(`Provider ${name} failed:`, error);
+                this.circuitBreaker.recordFailure(name, error);
+                firstError ??= error;
 
-                try {
-                    console.log(`Trying fallback provider: ${fallbackProviderName}`);
-                    return await fn(fallbackProvider);
-                } catch (fallbackError) {
-                    console.warn(`Fallback provider ${fallbackProviderName} also failed:`, fallbackError);
-                    // Continue to next fallback provider
+                if (!shouldFallback(error)) {
+                    throw error;
                 }
             }
-
-            // If all providers failed, re-throw the original error
-            throw error;
         }
+
+        // If all providers failed, re-throw the original error
+        throw firstError;
     }
 
     /**
@@ -151,8 +213,8 @@ export class AIProviderManager {
         return {
             provider,
             model: providerInstance.getModel(),
-            apiKey: providerInstance['apiKey'], // This might not be accessible depending on implementation
-            baseUrl: providerInstance['baseUrl'], // This might not be accessible depending on implementation
+            apiKey: providerInstance.getApiKeyHint(), // Redacted; the key itself never leaves the provider
+            baseUrl: providerInstance.getBaseUrl(),
         };
     }
 
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for the Anthropic Provider
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnthropicProvider, toAnthropicMessages } from './anthropic';
+import { AuthenticationError, RateLimitError } from '../types';
+
+const create = vi.fn();
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({ messages: { create }, models: { list: vi.fn() } }))
+}));
+
+const httpError = (status: number, headers?: Record<string, string>) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) });
+
+describe('AnthropicProvider', () => {
+  beforeEach(() => {
+    create.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should move system prompts out and alternate turns', () => {
+    expect(
+      toAnthropicMessages([
+        { role: 'system', content: 'Trả lời bằng tiếng Việt' },
+        { role: 'assistant', content: 'Xin chào' },
+        { role: 'user', content: 'Chiều cao tối đa?' },
+        { role: 'user', content: 'Theo QCVN 06' }
+      ])
+    ).toEqual({
+      system: 'Trả lời bằng tiếng Việt',
+      messages: [{ role: 'user', content: 'Chiều cao tối đa?\n\nTheo QCVN 06' }]
+    });
+  });
+
+  it('should return text and usage', async () => {
+    create.mockResolvedValue({
+      model: 'claude-3-haiku-20240307',
+      content: [{ type: 'text', text: 'Tối đa 150 m [1].' }],
+      usage: { input_tokens: 120, output_tokens: 12 },
+      stop_reason: 'max_tokens'
+    });
+
+    const response = await new AnthropicProvider({ apiKey: 'key' }).complete({
+      messages: [{ role: 'user', content: 'Chiều cao tối đa?' }]
+    });
+
+    expect(response).toMatchObject({
+      content: 'Tối đa 150 m [1].',
+      usage: { promptTokens: 120, completionTokens: 12, totalTokens: 132 },
+      finishReason: 'length'
+    });
+  });
+
+  it('should stream text deltas', async () => {
+    create.mockResolvedValue((async function* () {
+      yield { type: 'message_start' };
+      yield { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Tối đa ' } };
+      yield { type: 'content_block_delta', delta: { type: 'text_delta', text: '150 m' } };
+      yield { type: 'message_stop' };
+    })());
+    const chunks: string[] = [];
+
+    await new AnthropicProvider({ apiKey: 'key' }).streamComplete(
+      { messages: [{ role: 'user', content: 'Chiều cao tối đa?' }] },
+      (chunk) => chunks.push(chunk.done ? '<done>' : chunk.content)
+    );
+
+    expect(chunks).toEqual(['Tối đa ', '150 m', '<done>']);
+  });
+
+  it('should map authentication and rate limit errors', async () => {
+    const provider = new AnthropicProvider({ apiKey: 'key' });
+    const request = { messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+    create.mockRejectedValueOnce(httpError(401));
+    await expect(provider.complete(request)).rejects.toBeInstanceOf(AuthenticationError);
+
+    // Rate limits are retried with backoff before giving up
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    create.mockRejectedValue(httpError(429, { 'retry-after': '30' }));
+    const rateLimited = provider.complete(request).catch(error => error);
+    await vi.runAllTimersAsync();
+    const error = await rateLimited;
+    vi.useRealTimers();
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(30);
+  });
+});
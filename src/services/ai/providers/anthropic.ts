@@ -0,0 +1,207 @@
+/**
+ * Anthropic Provider Implementation
+ * Supports Claude Haiku, Sonnet and Opus through the Messages API
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { BaseAIProvider } from './base';
+import type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResponse,
+  StreamCallback,
+  ProviderStatus,
+} from '../types';
+import { DEFAULT_MODELS } from '../types';
+
+type AnthropicMessage = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Claude takes system instructions separately and needs alternating turns that open
+ * with the user: consecutive messages of one role are joined, leading answers dropped
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): { system?: string; messages: AnthropicMessage[] } {
+  const system = messages
+    .filter((msg) => msg.role === 'system')
+    .map((msg) => msg.content)
+    .join('\n\n');
+
+  const turns: AnthropicMessage[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    const last = turns[turns.length - 1];
+    if (last?.role === msg.role) {
+      last.content = `${last.content}\n\n${msg.content}`;
+    } else {
+      turns.push({ role: msg.role, content: msg.content });
+    }
+  }
+  while (turns[0]?.role === 'assistant') {
+    turns.shift();
+  }
+
+  return { system: system || undefined, messages: turns };
+}
+
+export class AnthropicProvider extends BaseAIProvider {
+  private client: Anthropic;
+
+  constructor(config: {
+    apiKey: string;
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    timeout?: number;
+  }) {
+    super('anthropic', {
+      model: config.model || DEFAULT_MODELS.anthropic,
+      apiKey: config.apiKey,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      timeout: config.timeout,
+    });
+
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      timeout: this.timeout,
+      maxRetries: 0, // Retried by BaseAIProvider.retry
+      dangerouslyAllowBrowser: true, // For React app
+    });
+  }
+
+  /**
+   * Generate completion using the Messages API
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requireApiKey();
+
+    try {
+      const { system, messages } = toAnthropicMessages(this.sanitizeMessages(request.messages));
+
+      const message = await this.retry(async () => {
+        return await this.client.messages.create({
+          model: request.model || this.model,
+          system,
+          messages,
+          max_tokens: request.maxTokens || this.maxTokens,
+          temperature: request.temperature ?? this.temperature,
+        });
+      });
+
+      const content = message.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      return {
+        content,
+        model: message.model,
+        usage: {
+          promptTokens: message.usage.input_tokens,
+          completionTokens: message.usage.output_tokens,
+          totalTokens: message.usage.input_tokens + message.usage.output_tokens,
+        },
+        finishReason: this.mapFinishReason(message.stop_reason),
+      };
+    } catch (error) {
+      return this.throwProviderError(error, 'complete');
+    }
+  }
+
+  /**
+   * Stream completion using the Messages API
+   */
+  async streamComplete(request: CompletionRequest, onChunk: StreamCallback): Promise<void> {
+    this.requireApiKey();
+
+    try {
+      const { system, messages } = toAnthropicMessages(this.sanitizeMessages(request.messages));
+      const model = request.model || this.model;
+
+      const stream = await this.retry(async () => {
+        return await this.client.messages.create({
+          model,
+          system,
+          messages,
+          max_tokens: request.maxTokens || this.maxTokens,
+          temperature: request.temperature ?? this.temperature,
+          stream: true,
+        });
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta' && event.delta.text) {
+          onChunk({
+            content: event.delta.text,
+            done: false,
+            model,
+          });
+        }
+
+        if (event.type === 'message_stop') {
+          onChunk({
+            content: '',
+            done: true,
+            model,
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      this.throwProviderError(error, 'streamComplete');
+    }
+  }
+
+  /**
+   * Health check - verify API key and connectivity (listing models costs no tokens)
+   */
+  async healthCheck(): Promise<ProviderStatus> {
+    const startTime = Date.now();
+
+    try {
+      await this.client.models.list({ limit: 1 });
+
+      return {
+        provider: 'anthropic',
+        available: true,
+        latency: Date.now() - startTime,
+        lastChecked: Date.now(),
+      };
+    } catch (error) {
+      return {
+        provider: 'anthropic',
+        available: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lastChecked: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Map Claude stop reasons to standard format
+   */
+  private mapFinishReason(reason: string | null): CompletionResponse['finishReason'] {
+    switch (reason) {
+      case 'max_tokens':
+      case 'model_context_window_exceeded':
+        return 'length';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+
+  /**
+   * Get available models
+   */
+  static getAvailableModels(): string[] {
+    return [
+      'claude-3-5-haiku-latest',
+      'claude-3-haiku-20240307',
+      'claude-sonnet-4-0',
+      'claude-3-7-sonnet-latest',
+      'claude-opus-4-1',
+    ];
+  }
+}
@@ -11,8 +11,12 @@ import type {
   StreamCallback,
   StreamChunk,
   ProviderStatus,
+  UsageEvent,
+  UsageListener,
 } from '../types';
-import { AIServiceError } from '../types';
+import { AIServiceError, AuthenticationError, RateLimitError } from '../types';
+import { contextWindowFor, estimateTokens, loadTokenCounter, TokenCounter } from '../tokenizer';
+import { redactSecret } from '../../../utils/keyVault';
 
 /**
  * Abstract base class for all AI providers
@@ -26,6 +30,10 @@ export abstract class BaseAIProvider {
   protected maxTokens: number;
   protected temperature: number;
   protected timeout: number;
+  protected maxRetries = 3;
+  protected contextWindow?: number;
+  private usageListener?: UsageListener;
+  private usageTracked = false;
 
   constructor(
     provider: AIProvider,
@@ -36,6 +44,7 @@ export abstract class BaseAIProvider {
       maxTokens?: number;
       temperature?: number;
       timeout?: number;
+      contextWindow?: number; // Overrides the known window of the model
     }
   ) {
     this.provider = provider;
@@ -45,6 +54,7 @@ export abstract class BaseAIProvider {
     this.maxTokens = config.maxTokens ?? 2000;
     this.temperature = config.temperature ?? 0.7;
     this.timeout = config.timeout ?? 30000; // 30s default
+    this.contextWindow = config.contextWindow;
   }
 
   /**
@@ -88,6 +98,133 @@ export abstract class BaseAIProvider {
     this.model = model;
   }
 
+  /**
+   * Tokens the model accepts in total (prompt and answer)
+   */
+  getContextWindow(): number {
+    return this.contextWindow ?? contextWindowFor(this.provider, this.model);
+  }
+
+  /**
+   * Tokens reserved for the answer
+   */
+  getMaxOutputTokens(): number {
+    return this.maxTokens;
+  }
+
+  /**
+   * Token counter using the current model's tokenizer
+   */
+  getTokenCounter(): Promise<TokenCounter> {
+    return loadTokenCounter(this.provider, this.model);
+  }
+
+  /**
+   * Set how often failed requests are retried
+   */
+  setMaxRetries(maxRetries: number): void {
+    this.maxRetries = maxRetries;
+  }
+
+  /**
+   * Report every complete/streamComplete call (tokens, latency, failures) to a listener.
+   * Streams report no usage, so their tokens are counted with the model's tokenizer.
+   */
+  setUsageListener(listener: UsageListener | undefined): void {
+    this.usageListener = listener;
+    if (!listener || this.usageTracked) return;
+    this.usageTracked = true;
+
+    // Wrap the subclass implementations once; the listener can change afterwards
+    const complete = this.complete.bind(this);
+    const streamComplete = this.streamComplete.bind(this);
+
+    this.complete = async (request) => {
+      const started = Date.now();
+      try {
+        const response = await complete(request);
+        const usage = response.usage?.totalTokens
+          ? response.usage
+          : await this.countUsage(request, response.content);
+        this.reportUsage({ ...usage, model: response.model || this.model, operation: 'complete' }, request, started);
+        return response;
+      } catch (error) {
+        this.reportUsage({ model: this.model, operation: 'complete', error }, request, started);
+        throw error;
+      }
+    };
+
+    this.streamComplete = async (request, onChunk) => {
+      const started = Date.now();
+      let answer = '';
+      let model = this.model;
+      try {
+        await streamComplete(request, (chunk) => {
+          answer += chunk.content;
+          model = chunk.model || model;
+          onChunk(chunk);
+        });
+        const usage = await this.countUsage(request, answer);
+        this.reportUsage({ ...usage, model, operation: 'stream' }, request, started);
+      } catch (error) {
+        this.reportUsage({ model, operation: 'stream', error }, request, started);
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Estimated usage of a call whose response reported none
+   */
+  private async countUsage(
+    request: CompletionRequest,
+    answer: string
+  ): Promise<{ promptTokens: number; completionTokens: number }> {
+    const { count } = await this.getTokenCounter();
+    return {
+      promptTokens: request.messages.reduce((sum, message) => sum + count(message.content), 0),
+      completionTokens: count(answer),
+    };
+  }
+
+  private reportUsage(
+    call: Pick<UsageEvent, 'model' | 'operation'> & Partial<Pick<UsageEvent, 'promptTokens' | 'completionTokens'>> & {
+      error?: unknown;
+    },
+    request: CompletionRequest,
+    started: number
+  ): void {
+    try {
+      this.usageListener?.({
+        provider: this.provider,
+        model: call.model,
+        operation: call.operation,
+        tag: request.usageTag,
+        promptTokens: call.promptTokens ?? 0,
+        completionTokens: call.completionTokens ?? 0,
+        latencyMs: Date.now() - started,
+        error: call.error === undefined ? undefined : call.error instanceof Error ? call.error.message : String(call.error),
+      });
+    } catch (error) {
+      // Usage tracking must never fail the request itself
+      console.warn(`[${this.provider}] Usage listener failed:`, error);
+    }
+  }
+
+  /**
+   * API key redacted for display, e.g. "••••abcd"
+   */
+  getApiKeyHint(): string | undefined {
+    return redactSecret(this.apiKey);
+  }
+
+  /**
+   * Server URL, for providers that take one
+   */
+  getBaseUrl(): string | undefined {
+    return this.baseUrl;
+  }
+
   /**
    * Update API key
    */
@@ -138,16 +275,9 @@ ${chunk.content}
 
   /**
    * Estimate token count (rough approximation)
-   * More accurate counting should use tiktoken or equivalent
    */
   protected estimateTokens(text: string): number {
-    // Rough estimate: 1 token ≈ 4 characters for English
-    // For Vietnamese: 1 token ≈ 2-3 characters (use 2.5)
-    const isVietnamese = /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i.test(
-      text
-    );
-    const charPerToken = isVietnamese ? 2.5 : 4;
-    return Math.ceil(text.length / charPerToken);
+    return estimateTokens(text);
   }
 
   /**
@@ -173,6 +303,27 @@ ${chunk.content}
     );
   }
 
+  /**
+   * Map HTTP errors from provider SDKs: 401/403 to AuthenticationError, 429 to RateLimitError
+   */
+  protected throwProviderError(error: unknown, operation: string): never {
+    const { status, statusCode, headers } = (error ?? {}) as {
+      status?: number;
+      statusCode?: number;
+      headers?: Headers | Record<string, string>;
+    };
+    if ((status ?? statusCode) === 401 || (status ?? statusCode) === 403) {
+      throw new AuthenticationError(this.provider);
+    }
+    if ((status ?? statusCode) === 429) {
+      // SDKs expose response headers as a Headers object
+      const retryAfter = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+      throw new RateLimitError(this.provider, retryAfter ? parseInt(retryAfter) : undefined);
+    }
+
+    return this.handleError(error, operation);
+  }
+
   /**
    * Validate API key exists
    */
@@ -208,7 +359,7 @@ ${chunk.content}
    */
   protected async retry<T>(
     fn: () => Promise<T>,
-    maxRetries: number = 3,
+    maxRetries: number = this.maxRetries,
     baseDelay: number = 1000
   ): Promise<T> {
     let lastError: any;
@@ -220,7 +371,9 @@ ${chunk.content}
         lastError = error;
 
         // Don't retry on auth errors or client errors (4xx except 429)
-        if (error.statusCode && error.statusCode >= 400 && error.statusCode < 500 && error.statusCode !== 429) {
+        // SDK errors carry the HTTP status in `status`
+        const statusCode = error.statusCode ?? error.status;
+        if (statusCode && statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
           throw error;
         }
 
@@ -251,24 +404,4 @@ ${chunk.content}
         timestamp: msg.timestamp || Date.now(),
       }));
   }
-
-  /**
-   * Truncate context to fit within token limit
-   */
-  protected truncateContext(context: string, maxTokens: number): string {
-    const estimatedTokens = this.estimateTokens(context);
-
-    if (estimatedTokens <= maxTokens) {
-      return context;
-    }
-
-    // Truncate to approximately maxTokens
-    const isVietnamese = /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i.test(
-      context
-    );
-    const charPerToken = isVietnamese ? 2.5 : 4;
-    const targetLength = Math.floor(maxTokens * charPerToken);
-
-    return context.slice(0, targetLength) + '\n\n[... nội dung đã bị cắt bớt do vượt quá giới hạn ...]';
-  }
 }
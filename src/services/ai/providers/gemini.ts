@@ -63,9 +63,10 @@ export class GeminiProvider extends BaseAIProvider {
       const response = result.response;
       const text = response.text();
 
-      // Estimate tokens (Gemini doesn't always provide usage info)
-      const promptTokens = this.estimateTokens(prompt);
-      const completionTokens = this.estimateTokens(text);
+      // Gemini doesn't always provide usage info; count with the tokenizer when it is missing
+      const counter = await this.getTokenCounter();
+      const promptTokens = response.usageMetadata?.promptTokenCount ?? counter.count(prompt);
+      const completionTokens = response.usageMetadata?.candidatesTokenCount ?? counter.count(text);
 
       return {
         content: text,
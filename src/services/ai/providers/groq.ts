@@ -0,0 +1,179 @@
+/**
+ * Groq Provider Implementation
+ * Fast inference of open models (Llama, Gemma, Mixtral) through an OpenAI-style chat API
+ */
+
+import Groq from 'groq-sdk';
+import { BaseAIProvider } from './base';
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  StreamCallback,
+  ProviderStatus,
+} from '../types';
+import { DEFAULT_MODELS } from '../types';
+
+export class GroqProvider extends BaseAIProvider {
+  private client: Groq;
+
+  constructor(config: {
+    apiKey: string;
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    timeout?: number;
+  }) {
+    super('groq', {
+      model: config.model || DEFAULT_MODELS.groq,
+      apiKey: config.apiKey,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      timeout: config.timeout,
+    });
+
+    this.client = new Groq({
+      apiKey: config.apiKey,
+      timeout: this.timeout,
+      maxRetries: 0, // Retried by BaseAIProvider.retry
+      dangerouslyAllowBrowser: true, // For React app
+    });
+  }
+
+  /**
+   * Generate completion using the Groq chat API
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requireApiKey();
+
+    try {
+      const messages = this.sanitizeMessages(request.messages);
+
+      const completion = await this.retry(async () => {
+        return await this.client.chat.completions.create({
+          model: request.model || this.model,
+          messages: messages.map((msg) => ({
+            role: msg.role,
+            content: msg.content,
+          })),
+          max_tokens: request.maxTokens || this.maxTokens,
+          temperature: request.temperature ?? this.temperature,
+          stream: false,
+        });
+      });
+
+      const choice = completion.choices[0];
+
+      return {
+        content: choice.message.content || '',
+        model: completion.model,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens || 0,
+          completionTokens: completion.usage?.completion_tokens || 0,
+          totalTokens: completion.usage?.total_tokens || 0,
+        },
+        finishReason: this.mapFinishReason(choice.finish_reason),
+      };
+    } catch (error) {
+      return this.throwProviderError(error, 'complete');
+    }
+  }
+
+  /**
+   * Stream completion using the Groq chat API
+   */
+  async streamComplete(request: CompletionRequest, onChunk: StreamCallback): Promise<void> {
+    this.requireApiKey();
+
+    try {
+      const messages = this.sanitizeMessages(request.messages);
+
+      const stream = await this.retry(async () => {
+        return await this.client.chat.completions.create({
+          model: request.model || this.model,
+          messages: messages.map((msg) => ({
+            role: msg.role,
+            content: msg.content,
+          })),
+          max_tokens: request.maxTokens || this.maxTokens,
+          temperature: request.temperature ?? this.temperature,
+          stream: true,
+        });
+      });
+
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content || '';
+
+        if (content) {
+          onChunk({
+            content,
+            done: false,
+            model: chunk.model,
+          });
+        }
+
+        // Check if done
+        if (chunk.choices[0]?.finish_reason) {
+          onChunk({
+            content: '',
+            done: true,
+            model: chunk.model,
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      this.throwProviderError(error, 'streamComplete');
+    }
+  }
+
+  /**
+   * Health check - verify API key and connectivity (listing models costs no tokens)
+   */
+  async healthCheck(): Promise<ProviderStatus> {
+    const startTime = Date.now();
+
+    try {
+      await this.client.models.list();
+
+      return {
+        provider: 'groq',
+        available: true,
+        latency: Date.now() - startTime,
+        lastChecked: Date.now(),
+      };
+    } catch (error) {
+      return {
+        provider: 'groq',
+        available: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lastChecked: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Map Groq finish reasons to standard format
+   */
+  private mapFinishReason(reason: string | null): CompletionResponse['finishReason'] {
+    switch (reason) {
+      case 'length':
+        return 'length';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+
+  /**
+   * Get available models
+   */
+  static getAvailableModels(): string[] {
+    return [
+      'llama-3.3-70b-versatile',
+      'llama-3.1-8b-instant',
+      'gemma2-9b-it',
+      'openai/gpt-oss-120b',
+    ];
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for the OpenAI-Compatible Provider
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OpenAICompatibleProvider, parseSSELine } from './openaiCompatible';
+import { AuthenticationError } from '../types';
+
+const fetchMock = vi.fn();
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+const sse = (events: string[]) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        // Split mid-event to exercise buffering
+        const text = events.map(event => `data: ${event}\n\n`).join('');
+        controller.enqueue(new TextEncoder().encode(text.slice(0, 30)));
+        controller.enqueue(new TextEncoder().encode(text.slice(30)));
+        controller.close();
+      }
+    }),
+    { status: 200 }
+  );
+
+describe('OpenAICompatibleProvider', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should parse server-sent event lines', () => {
+    expect(parseSSELine('data: [DONE]')).toBe('done');
+    expect(parseSSELine(': keep-alive')).toBeNull();
+    expect(parseSSELine('data: {"choices":[{"delta":{"content":"Xin"}}]}')).toEqual({
+      choices: [{ delta: { content: 'Xin' } }]
+    });
+  });
+
+  it('should discover the model and its context length when none is configured', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://gpu-box:8000/v1/', apiKey: 'token', headers: { 'X-Tenant': 'acme' } });
+    fetchMock
+      .mockResolvedValueOnce(json({ data: [{ id: 'Qwen/Qwen2.5-14B-Instruct', max_model_len: 32768 }] }))
+      .mockResolvedValueOnce(
+        json({
+          model: 'Qwen/Qwen2.5-14B-Instruct',
+          choices: [{ message: { content: 'Tối đa 25 m.' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+        })
+      );
+
+    const response = await provider.complete({ messages: [{ role: 'user', content: 'Chiều cao tối đa?' }] });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://gpu-box:8000/v1/models');
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('http://gpu-box:8000/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer token', 'X-Tenant': 'acme' });
+    expect(JSON.parse(init.body).model).toBe('Qwen/Qwen2.5-14B-Instruct');
+    expect(response).toMatchObject({ content: 'Tối đa 25 m.', usage: { totalTokens: 17 }, finishReason: 'stop' });
+    expect(provider.getContextWindow()).toBe(32768);
+  });
+
+  it('should stream content deltas', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1', model: 'local-model' });
+    fetchMock.mockResolvedValueOnce(
+      sse([
+        '{"model":"local-model","choices":[{"delta":{"role":"assistant"}}]}',
+        '{"model":"local-model","choices":[{"delta":{"content":"Tối đa"}}]}',
+        '{"model":"local-model","choices":[{"delta":{"content":" 25 m."}}]}',
+        '[DONE]'
+      ])
+    );
+
+    const chunks: Array<{ content: string; done: boolean }> = [];
+    await provider.streamComplete({ messages: [{ role: 'user', content: 'Chiều cao?' }] }, chunk => chunks.push(chunk));
+
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('Tối đa 25 m.');
+    expect(chunks.filter(chunk => chunk.done)).toHaveLength(1);
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('should emit the last event when the stream ends without a newline or [DONE]', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1', model: 'local-model' });
+    const body = 'data: {"choices":[{"delta":{"content":"Tối đa"}}]}\n\ndata: {"choices":[{"delta":{"content":" 25 m."}}]}';
+    fetchMock.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+    const chunks: Array<{ content: string; done: boolean }> = [];
+    await provider.streamComplete({ messages: [{ role: 'user', content: 'Chiều cao?' }] }, chunk => chunks.push(chunk));
+
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('Tối đa 25 m.');
+    expect(chunks[chunks.length - 1].done).toBe(true);
+  });
+
+  it('should report usage to the listener, counting streamed tokens', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1', model: 'local-model' });
+    const listener = vi.fn();
+    provider.setUsageListener(listener);
+    fetchMock
+      .mockResolvedValueOnce(
+        json({
+          model: 'local-model',
+          choices: [{ message: { content: 'Tối đa 25 m.' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+        })
+      )
+      .mockResolvedValueOnce(sse(['{"model":"local-model","choices":[{"delta":{"content":"Tối đa 25 m."}}]}', '[DONE]']))
+      .mockResolvedValueOnce(new Response('Unauthorized', { status: 401 }));
+
+    const request = {
+      messages: [{ role: 'user' as const, content: 'Chiều cao?' }],
+      usageTag: { purpose: 'answer' as const, folderId: 'qcvn' }
+    };
+    await provider.complete(request);
+    await provider.streamComplete(request, () => {});
+    await provider.complete(request).catch(() => {});
+
+    const [completed, streamed, failed] = listener.mock.calls.map(([event]) => event);
+    expect(completed).toMatchObject({
+      provider: 'openai-compatible',
+      model: 'local-model',
+      operation: 'complete',
+      tag: { purpose: 'answer', folderId: 'qcvn' },
+      promptTokens: 12,
+      completionTokens: 5
+    });
+    expect(streamed.operation).toBe('stream');
+    expect(streamed.completionTokens).toBeGreaterThan(0);
+    expect(failed).toMatchObject({ completionTokens: 0, error: expect.stringContaining('Authentication') });
+  });
+
+  it('should report missing models in the health check', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1', model: 'llama-3.1-8b' });
+    fetchMock.mockResolvedValueOnce(json({ data: [{ id: 'mistral-7b' }] }));
+
+    const status = await provider.healthCheck();
+
+    expect(status.available).toBe(false);
+    expect(status.error).toContain('llama-3.1-8b');
+  });
+
+  it('should map rejected keys to AuthenticationError', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1', model: 'm', apiKey: 'bad' });
+    fetchMock.mockResolvedValue(new Response('Unauthorized', { status: 401 }));
+
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'Xin chào' }] })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * OpenAI-Compatible Provider Implementation
+ * Self-hosted servers that speak the OpenAI chat API: vLLM, LM Studio, llama.cpp server, etc.
+ * Keeps documents on your own hardware; the model is discovered from /models when not set.
+ */
+
+import { BaseAIProvider } from './base';
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  StreamCallback,
+  ProviderStatus,
+} from '../types';
+import { AIServiceError, DEFAULT_MODELS, ProviderUnavailableError } from '../types';
+
+interface ModelsResponse {
+  data?: Array<{ id: string; max_model_len?: number }>;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+}
+
+/**
+ * Parse one server-sent event line; returns null for comments, blanks and non-data fields
+ */
+export function parseSSELine(line: string): ChatCompletionChunk | 'done' | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+
+  const payload = trimmed.slice('data:'.length).trim();
+  if (payload === '[DONE]') return 'done';
+
+  try {
+    return JSON.parse(payload) as ChatCompletionChunk;
+  } catch {
+    console.warn('[openai-compatible] Failed to parse event:', payload);
+    return null;
+  }
+}
+
+export class OpenAICompatibleProvider extends BaseAIProvider {
+  private serverUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(config: {
+    baseUrl: string;              // Including the API prefix, e.g. http://gpu-box:8000/v1
+    apiKey?: string;
+    model?: string;
+    headers?: Record<string, string>;
+    maxTokens?: number;
+    temperature?: number;
+    timeout?: number;
+    contextWindow?: number;
+  }) {
+    super('openai-compatible', {
+      model: config.model || DEFAULT_MODELS['openai-compatible'],
+      apiKey: config.apiKey,
+      baseUrl: config.baseUrl,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      timeout: config.timeout,
+      contextWindow: config.contextWindow,
+    });
+
+    this.serverUrl = config.baseUrl.replace(/\/+$/, '');
+    this.headers = config.headers ?? {};
+  }
+
+  /**
+   * Generate completion using /chat/completions
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    try {
+      const model = request.model || (await this.resolveModel());
+
+      const completion = await this.retry(async () => {
+        const res = await this.post(request, model, false, this.createAbortController().signal);
+        return await res.json();
+      });
+
+      const choice = completion.choices?.[0];
+
+      return {
+        content: choice?.message?.content || '',
+        model: completion.model || model,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens || 0,
+          completionTokens: completion.usage?.completion_tokens || 0,
+          totalTokens: completion.usage?.total_tokens || 0,
+        },
+        finishReason: choice?.finish_reason === 'length' ? 'length' : 'stop',
+      };
+    } catch (error) {
+      return this.throwServerError(error, 'complete');
+    }
+  }
+
+  /**
+   * Stream completion as server-sent events
+   */
+  async streamComplete(request: CompletionRequest, onChunk: StreamCallback): Promise<void> {
+    try {
+      const model = request.model || (await this.resolveModel());
+
+      // The timeout covers waiting for the response, not reading a long answer
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      const response = await this.retry(() => this.post(request, model, true, controller.signal)).finally(() =>
+        clearTimeout(timeoutId)
+      );
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      // Emit the content of one line; true once the answer is complete
+      const handleLine = (line: string): boolean => {
+        const event = parseSSELine(line);
+        if (!event) return false;
+
+        const choice = event === 'done' ? undefined : event.choices?.[0];
+        if (choice?.delta?.content) {
+          onChunk({
+            content: choice.delta.content,
+            done: false,
+            model: (event !== 'done' && event.model) || model,
+          });
+        }
+        return event === 'done' || !!choice?.finish_reason;
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by newlines; keep the last incomplete line in buffer
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (handleLine(line)) {
+            onChunk({ content: '', done: true, model });
+            await reader.cancel();
+            return;
+          }
+        }
+      }
+
+      // Some servers close the stream without [DONE] or a final newline
+      handleLine(buffer + decoder.decode());
+      onChunk({ content: '', done: true, model });
+    } catch (error) {
+      this.throwServerError(error, 'streamComplete');
+    }
+  }
+
+  /**
+   * Health check - verify the server answers and serves the configured model
+   */
+  async healthCheck(): Promise<ProviderStatus> {
+    const startTime = Date.now();
+
+    try {
+      const models = await this.fetchModels(AbortSignal.timeout(5000));
+      const served = this.model ? models.find((m) => m.id === this.model) : models[0];
+      if (served) {
+        this.useServedModel(served);
+      }
+      const modelAvailable = served !== undefined;
+
+      return {
+        provider: 'openai-compatible',
+        available: modelAvailable,
+        latency: Date.now() - startTime,
+        error: modelAvailable ? undefined : `Model ${this.model || '(any)'} not served by ${this.serverUrl}`,
+        lastChecked: Date.now(),
+      };
+    } catch (error) {
+      return {
+        provider: 'openai-compatible',
+        available: false,
+        error: error instanceof Error ? error.message : 'Server not reachable',
+        lastChecked: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * List models served by the endpoint
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      return (await this.fetchModels()).map((m) => m.id);
+    } catch (error) {
+      console.error('[openai-compatible] Failed to list models:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Use the first served model when none is configured
+   */
+  private async resolveModel(): Promise<string> {
+    if (this.model) return this.model;
+
+    const [first] = await this.fetchModels(AbortSignal.timeout(5000));
+    if (!first) {
+      throw new ProviderUnavailableError('openai-compatible', `No models served by ${this.serverUrl}`);
+    }
+
+    this.useServedModel(first);
+    return this.model;
+  }
+
+  /**
+   * Adopt a served model and its context length when the server reports one (vLLM's max_model_len)
+   */
+  private useServedModel(served: { id: string; max_model_len?: number }): void {
+    if (!this.model) {
+      console.log(`[openai-compatible] Using model ${served.id}`);
+    }
+    this.model = served.id;
+    this.contextWindow ??= served.max_model_len;
+  }
+
+  private async fetchModels(signal?: AbortSignal): Promise<NonNullable<ModelsResponse['data']>> {
+    const res = await fetch(`${this.serverUrl}/models`, { headers: this.requestHeaders(), signal });
+    if (!res.ok) {
+      throw this.httpError(res);
+    }
+
+    const data: ModelsResponse = await res.json();
+    return data.data ?? [];
+  }
+
+  private async post(request: CompletionRequest, model: string, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const messages = this.sanitizeMessages(request.messages);
+
+    const res = await fetch(`${this.serverUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.requestHeaders() },
+      body: JSON.stringify({
+        model,
+        messages: messages.map((msg) => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+        max_tokens: request.maxTokens || this.maxTokens,
+        temperature: request.temperature ?? this.temperature,
+        stream,
+      }),
+      signal,
+    });
+
+    if (!res.ok) {
+      throw this.httpError(res);
+    }
+    return res;
+  }
+
+  private requestHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}`, ...this.headers } : { ...this.headers };
+  }
+
+  /**
+   * Error carrying the HTTP status and headers, as SDK errors do, for retry and error mapping
+   */
+  private httpError(res: Response): Error {
+    return Object.assign(new Error(`API error: ${res.status} ${res.statusText}`), {
+      status: res.status,
+      headers: res.headers,
+    });
+  }
+
+  private throwServerError(error: unknown, operation: string): never {
+    if (error instanceof AIServiceError) {
+      throw error;
+    }
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new ProviderUnavailableError('openai-compatible', `Cannot connect to ${this.serverUrl}. Is the server running?`);
+    }
+    return this.throwProviderError(error, operation);
+  }
+}
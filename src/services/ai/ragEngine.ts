@@ -1,59 +1,207 @@
 /**
  * RAG Query Engine
  * Orchestrates the complete RAG workflow:
- * 1. Embed query
- * 2. Search vector database
- * 3. Retrieve relevant chunks
- * 4. Build context
- * 5. Generate response with AI
+ * 1. Rewrite follow-up questions into standalone questions and embed them
+ * 2. Search vector database and BM25 keyword index
+ * 3. Fuse rankings and retrieve relevant chunks, optionally reranking a larger pool
+ * 4. Pack whole chunks into the model's context window
+ * 5. Generate response with AI, falling back to other providers through the provider manager
+ * 6. Verify the answer against the retrieved chunks
  */
 
 import { BaseAIProvider } from './providers/base';
+import { AIProviderManager } from './providerManager';
 import { OpenAIProvider } from './providers/openai';
 import { GeminiProvider } from './providers/gemini';
 import { OllamaProvider } from './providers/ollama';
+import { rewriteStandaloneQuestion, windowHistory, DEFAULT_MAX_CONTEXT_LENGTH } from './conversation';
+import { verifyAnswer } from './grounding';
+import { packContext, PackedContext } from './contextPacker';
+import type { TokenCounter } from './tokenizer';
+import {
+  createCrossEncoderScorer,
+  createLLMScorer,
+  rerankChunks,
+  DEFAULT_RERANK_SETTINGS,
+  RerankSettings,
+} from './reranker';
 import type {
+  ChatMessage,
+  ContextReport,
+  GroundingReport,
   RAGQuery,
   RAGResponse,
   RetrievedChunk,
+  RetrievalMode,
   AIProvider,
   StreamCallback,
 } from './types';
-import { generateEmbedding } from '../../utils/vectorUtils';
-import { ChunkStorage } from '../../utils/persistentStorage';
+import { embedTexts, MOCK_EMBEDDING_MODEL } from '../../utils/vectorUtils';
+import {
+  ChunkStorage,
+  DocumentStorage,
+  KeywordIndex,
+  VectorIndex,
+  StoredChunk,
+  UNKNOWN_EMBEDDING_MODEL,
+} from '../../utils/persistentStorage';
 import { embeddingCache, perfMonitor } from '../../utils/performance';
+import { formatSourceCitation } from '../../utils/citationUtils';
+import { sectionPathMatches } from '../../utils/textChunker';
+import { reciprocalRankFusion } from '../../utils/bm25';
+import { cosineSimilarity } from '../../utils/embeddingCodec';
+import { getDocumentStatus, getExcludedDocumentIds, DOCUMENT_STATUS_LABELS } from '../../utils/documentVersioning';
+
+/**
+ * Each ranking contributes this many times topK candidates to hybrid fusion
+ */
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Below this many chunks an exact scan is fast enough; above it the HNSW index is used
+ */
+const ANN_MIN_COLLECTION_SIZE = 2000;
+
+/**
+ * Instructions preceding the document context in the system prompt
+ */
+const RAG_INSTRUCTIONS = `Bạn là trợ lý AI chuyên trả lời câu hỏi dựa trên tài liệu kiến trúc và xây dựng.
+
+NHIỆM VỤ:
+- Trả lời câu hỏi của người dùng dựa HOÀN TOÀN trên nội dung tài liệu được cung cấp
+- Trích dẫn chính xác các đoạn văn bản từ tài liệu
+- Nếu không tìm thấy thông tin trong tài liệu, hãy thừa nhận và KHÔNG bịa đặt
+
+NGUYÊN TẮC:
+- Trả lời bằng tiếng Việt
+- Câu trả lời ngắn gọn, súc tích
+- Ưu tiên độ chính xác hơn là chi tiết
+- Mỗi đoạn CONTEXT được đánh số [1], [2], ... Sau mỗi ý lấy từ tài liệu, ghi số của đoạn nguồn trong ngoặc vuông, ví dụ: "Chiều cao tối đa là 150 m [2]." hoặc "[1][3]"
+- Chỉ dùng số đoạn có trong CONTEXT, không tự đặt số
+- Nếu tài liệu nguồn đã hết hiệu lực hoặc đã bị thay thế, nêu rõ điều này trong câu trả lời
+- Câu hỏi có thể nối tiếp hội thoại trước: dựa vào các lượt trước để hiểu ngữ cảnh`;
+
+/**
+ * Context block for one source: number, citation, status and relevance, then the text
+ */
+function formatContextBlock(chunk: RetrievedChunk, number: number): string {
+  return `[${number}] ${formatSourceCitation(chunk)}${chunk.sectionPath ? ` (${chunk.sectionPath})` : ''}${chunk.documentStatus && chunk.documentStatus !== 'effective' ? ` - ${DOCUMENT_STATUS_LABELS[chunk.documentStatus]}` : ''} - Độ liên quan: ${(chunk.similarity * 100).toFixed(1)}%
+${chunk.content}
+---`;
+}
+
+/**
+ * Prompt messages with the packed context they were built from
+ */
+interface RAGPrompt {
+  messages: ChatMessage[];
+  packed: PackedContext;
+  counter: TokenCounter;
+  budget: number;
+}
+
+/**
+ * Summary of the packing for the response
+ */
+function contextReport({ packed, counter, budget }: RAGPrompt): ContextReport {
+  return {
+    tokenizer: counter.tokenizer,
+    budget,
+    contextTokens: packed.tokens,
+    dropped: packed.dropped.map(({ chunk, tokens }) => ({
+      documentId: chunk.documentId,
+      documentName: chunk.documentName,
+      pageStart: chunk.pageStart,
+      pageEnd: chunk.pageEnd,
+      sectionPath: chunk.sectionPath,
+      tokens,
+    })),
+  };
+}
 
 export class RAGEngine {
-  private providers: Map<AIProvider, BaseAIProvider>;
-  private currentProvider: AIProvider;
+  private providerManager: AIProviderManager;
+  private maxContextLength = DEFAULT_MAX_CONTEXT_LENGTH;
+  private rerankSettings: RerankSettings = DEFAULT_RERANK_SETTINGS;
+  private defaultTopK = 5;
+  private defaultThreshold = 0.5;
 
-  constructor(initialProvider: AIProvider = 'gemini') {
-    this.providers = new Map();
-    this.currentProvider = initialProvider;
+  /**
+   * Completions go through the provider manager, which falls back to other providers
+   * and skips those that keep failing
+   */
+  constructor(providerManager: AIProviderManager = new AIProviderManager()) {
+    this.providerManager = providerManager;
   }
 
   /**
    * Register an AI provider
    */
   registerProvider(provider: BaseAIProvider): void {
-    this.providers.set(provider.getProvider(), provider);
+    this.providerManager.registerProvider(provider);
+  }
+
+  /**
+   * Remove all providers, before registering a new configuration
+   */
+  clearProviders(): void {
+    this.providerManager.clearProviders();
   }
 
   /**
    * Set active provider
    */
   setProvider(provider: AIProvider): void {
-    if (!this.providers.has(provider)) {
-      throw new Error(`Provider ${provider} not registered`);
-    }
-    this.currentProvider = provider;
+    this.providerManager.setProvider(provider);
+  }
+
+  /**
+   * Set the prompt token budget (documents, conversation history and question)
+   */
+  setMaxContextLength(tokens: number): void {
+    this.maxContextLength = tokens;
+  }
+
+  /**
+   * Set the chunk count and similarity threshold used when a query does not give them
+   */
+  setRetrievalDefaults(topK: number, threshold: number): void {
+    this.defaultTopK = topK;
+    this.defaultThreshold = threshold;
+  }
+
+  /**
+   * Set how retrieved chunks are reranked (reranker, model, candidate pool and final k)
+   */
+  setRerankSettings(settings: Partial<RerankSettings>): void {
+    this.rerankSettings = { ...this.rerankSettings, ...settings };
   }
 
   /**
    * Get current provider
    */
   getCurrentProvider(): AIProvider {
-    return this.currentProvider;
+    return this.providerManager.getCurrentProviderName();
+  }
+
+  /**
+   * Provider for the steps before answering (question rewriting, LLM reranking):
+   * the requested one unless it is being skipped after failures
+   */
+  private selectProvider(params: RAGQuery): BaseAIProvider {
+    const provider = this.providerManager.selectProvider(params.provider);
+    if (!provider) {
+      throw new Error(`Provider ${params.provider || this.getCurrentProvider()} not available`);
+    }
+    return provider;
+  }
+
+  /**
+   * Requested provider, reported when another one answered instead
+   */
+  private fallbackFrom(params: RAGQuery, answeredBy: BaseAIProvider): AIProvider | undefined {
+    const requested = params.provider || this.getCurrentProvider();
+    return answeredBy.getProvider() !== requested ? requested : undefined;
   }
 
   /**
@@ -65,27 +213,18 @@ export class RAGEngine {
 
     try {
       // Get provider
-      const provider = this.providers.get(params.provider || this.currentProvider);
-      if (!provider) {
-        throw new Error(`Provider ${params.provider || this.currentProvider} not available`);
-      }
+      const provider = this.selectProvider(params);
 
-      // Step 1: Embed query
-      perfMonitor.mark('embed-query-start');
-      const queryEmbedding = await this.embedQuery(params.query);
-      perfMonitor.mark('embed-query-end');
-      perfMonitor.measure('Query Embedding', 'embed-query-start', 'embed-query-end');
+      // Step 1: Follow-ups are searched as standalone questions
+      const history = params.history ?? [];
+      const searchQuery = await rewriteStandaloneQuestion(provider, params.query, history);
+      const rewrittenQuery = searchQuery !== params.query ? searchQuery : undefined;
 
-      // Step 2: Search similar chunks
+      // Step 2: Embed query with each stored model, search similar chunks and rerank them
       perfMonitor.mark('search-start');
-      const chunks = await this.searchSimilarChunks(
-        queryEmbedding,
-        params.folderId,
-        params.topK || 5,
-        params.threshold || 0.5
-      );
+      const chunks = await this.retrieve(params, provider, searchQuery);
       perfMonitor.mark('search-end');
-      perfMonitor.measure('Vector Search', 'search-start', 'search-end');
+      perfMonitor.measure('Chunk Retrieval', 'search-start', 'search-end');
 
       if (chunks.length === 0) {
         return {
@@ -94,6 +233,7 @@ export class RAGEngine {
           model: provider.getModel(),
           provider: provider.getProvider(),
           processingTime: Date.now() - startTime,
+          rewrittenQuery,
         };
       }
 
@@ -106,20 +246,36 @@ export class RAGEngine {
         throw new Error('Use queryStream() for streaming responses');
       }
 
-      const answer = await this.generateResponse(provider, params.query, chunks);
+      // The prompt is packed for whichever provider answers, as windows and tokenizers differ
+      const { prompt, completion, answeredBy } = await this.providerManager.executeWithFallback(async (candidate) => {
+        const prompt = await this.buildRAGMessages(candidate, params.query, chunks, history);
+        const completion = await candidate.complete({
+          messages: prompt.messages,
+          usageTag: { purpose: 'answer', folderId: params.folderId },
+        });
+        return { prompt, completion, answeredBy: candidate };
+      }, params.provider);
 
       perfMonitor.mark('generate-end');
       perfMonitor.measure('AI Generation', 'generate-start', 'generate-end');
 
+      // Step 4: Check the answer against the sources
+      const grounding = await this.checkGrounding(params, answeredBy, completion.content, prompt.packed.chunks);
+
       perfMonitor.mark('rag-query-end');
       perfMonitor.measure('Total RAG Query', 'rag-query-start', 'rag-query-end');
 
       return {
-        answer,
-        sources: chunks,
-        model: provider.getModel(),
-        provider: provider.getProvider(),
+        answer: completion.content,
+        sources: prompt.packed.chunks,
+        usage: completion.usage,
+        model: answeredBy.getModel(),
+        provider: answeredBy.getProvider(),
+        fallbackFrom: this.fallbackFrom(params, answeredBy),
         processingTime: Date.now() - startTime,
+        rewrittenQuery,
+        grounding,
+        context: contextReport(prompt),
       };
     } catch (error: any) {
       console.error('[RAG] Query failed:', error);
@@ -128,7 +284,7 @@ export class RAGEngine {
         answer: '',
         sources: [],
         model: '',
-        provider: params.provider || this.currentProvider,
+        provider: params.provider || this.getCurrentProvider(),
         error: error.message || 'Unknown error',
         processingTime: Date.now() - startTime,
       };
@@ -142,19 +298,14 @@ export class RAGEngine {
     const startTime = Date.now();
 
     try {
-      const provider = this.providers.get(params.provider || this.currentProvider);
-      if (!provider) {
-        throw new Error(`Provider ${params.provider || this.currentProvider} not available`);
-      }
+      const provider = this.selectProvider(params);
 
-      // Embed and search (same as non-streaming)
-      const queryEmbedding = await this.embedQuery(params.query);
-      const chunks = await this.searchSimilarChunks(
-        queryEmbedding,
-        params.folderId,
-        params.topK || 5,
-        params.threshold || 0.5
-      );
+      // Rewrite, embed and search (same as non-streaming)
+      const history = params.history ?? [];
+      const searchQuery = await rewriteStandaloneQuestion(provider, params.query, history);
+      const rewrittenQuery = searchQuery !== params.query ? searchQuery : undefined;
+
+      const chunks = await this.retrieve(params, provider, searchQuery);
 
       if (chunks.length === 0) {
         const noResultMessage =
@@ -171,30 +322,56 @@ export class RAGEngine {
           model: provider.getModel(),
           provider: provider.getProvider(),
           processingTime: Date.now() - startTime,
+          rewrittenQuery,
         };
       }
 
       // Generate response with streaming
       let fullAnswer = '';
-
-      await provider.streamComplete(
-        {
-          messages: this.buildRAGMessages(params.query, chunks),
+      let started = false;
+      const { prompt, answeredBy } = await this.providerManager.executeWithFallback(
+        async (candidate) => {
+          const prompt = await this.buildRAGMessages(candidate, params.query, chunks, history);
+
+          await candidate.streamComplete(
+            {
+              messages: prompt.messages,
+              usageTag: { purpose: 'answer', folderId: params.folderId },
+            },
+            (chunk) => {
+              if (chunk.content) {
+                started = true;
+                fullAnswer += chunk.content;
+              }
+              onChunk(chunk);
+            }
+          );
+          return { prompt, answeredBy: candidate };
         },
-        (chunk) => {
-          if (chunk.content) {
-            fullAnswer += chunk.content;
-          }
-          onChunk(chunk);
-        }
+        params.provider,
+        // Once part of the answer is shown, another provider would start it over
+        () => !started
       );
 
+      // Streams report no usage, so estimate it
+      const { count } = prompt.counter;
+      const promptTokens = prompt.messages.reduce((sum, message) => sum + count(message.content), 0);
+      const completionTokens = count(fullAnswer);
+
+      // Verified once the whole answer has arrived
+      const grounding = await this.checkGrounding(params, answeredBy, fullAnswer, prompt.packed.chunks);
+
       return {
         answer: fullAnswer,
-        sources: chunks,
-        model: provider.getModel(),
-        provider: provider.getProvider(),
+        sources: prompt.packed.chunks,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        model: answeredBy.getModel(),
+        provider: answeredBy.getProvider(),
+        fallbackFrom: this.fallbackFrom(params, answeredBy),
         processingTime: Date.now() - startTime,
+        rewrittenQuery,
+        grounding,
+        context: contextReport(prompt),
       };
     } catch (error: any) {
       console.error('[RAG] Stream query failed:', error);
@@ -210,7 +387,7 @@ export class RAGEngine {
         answer: '',
         sources: [],
         model: '',
-        provider: params.provider || this.currentProvider,
+        provider: params.provider || this.getCurrentProvider(),
         error: error.message,
         processingTime: Date.now() - startTime,
       };
@@ -218,65 +395,195 @@ export class RAGEngine {
   }
 
   /**
-   * Embed query with caching
+   * Search chunks for the question; with a reranker, a larger candidate pool is
+   * retrieved and rescored down to the final k
+   */
+  private async retrieve(params: RAGQuery, provider: BaseAIProvider, searchQuery: string): Promise<RetrievedChunk[]> {
+    const { reranker, rerankerModel, rerankCandidates, rerankTopK } = this.rerankSettings;
+    const topK = params.topK || (reranker === 'none' ? this.defaultTopK : rerankTopK);
+
+    const chunks = await this.searchChunks(searchQuery, {
+      folderId: params.folderId,
+      topK: reranker === 'none' ? topK : Math.max(rerankCandidates, topK),
+      threshold: params.threshold || this.defaultThreshold,
+      sectionFilter: params.sectionFilter,
+      retrievalMode: params.retrievalMode || 'hybrid',
+      asOfDate: params.asOfDate,
+      includeSuperseded: params.includeSuperseded,
+    });
+    if (reranker === 'none') {
+      return chunks;
+    }
+
+    perfMonitor.mark('rerank-start');
+    const scorer = reranker === 'llm' ? createLLMScorer(provider) : createCrossEncoderScorer(rerankerModel);
+    const reranked = await rerankChunks(searchQuery, chunks, scorer, topK);
+    perfMonitor.mark('rerank-end');
+    perfMonitor.measure('Reranking', 'rerank-start', 'rerank-end');
+
+    return reranked;
+  }
+
+  /**
+   * Embed query with caching, using the model that produced the chunks being searched.
+   * Goes through the same embedder as ingestion and throws when the model cannot be
+   * loaded, rather than searching with a vector from another model.
    */
-  private async embedQuery(query: string): Promise<number[]> {
+  private async embedQuery(query: string, embeddingModel: string): Promise<number[]> {
     // Check cache first
-    const cached = embeddingCache.get(query);
+    const cacheKey = `${embeddingModel}::${query}`;
+    const cached = embeddingCache.get(cacheKey);
     if (cached) {
       console.log('[RAG] Using cached embedding for query');
       return cached;
     }
 
-    // Generate new embedding (using default model 'Xenova/all-MiniLM-L6-v2')
-    const embedding = await generateEmbedding(query, 'Xenova/all-MiniLM-L6-v2');
+    const { model, embeddings } = await embedTexts([query], embeddingModel);
+    if (model !== embeddingModel) {
+      throw new Error(`Embedding model ${embeddingModel} could not be loaded`);
+    }
+    const [embedding] = embeddings;
 
     // Cache for future use
-    embeddingCache.set(query, embedding);
+    embeddingCache.set(cacheKey, embedding);
 
     return embedding;
   }
 
   /**
-   * Search similar chunks from database
+   * Search chunks by vector similarity, BM25 keywords, or both fused with RRF.
+   * Only documents in effect are searched unless the query names an older version.
    */
-  private async searchSimilarChunks(
-    queryEmbedding: number[],
-    folderId?: string,
-    topK: number = 5,
-    threshold: number = 0.5
+  private async searchChunks(
+    query: string,
+    options: {
+      folderId?: string;
+      topK: number;
+      threshold: number;
+      sectionFilter?: string;
+      retrievalMode: RetrievalMode;
+      asOfDate?: string;
+      includeSuperseded?: boolean;
+    }
   ): Promise<RetrievedChunk[]> {
+    const { folderId, topK, threshold, sectionFilter, retrievalMode, asOfDate, includeSuperseded } = options;
+
     try {
-      // Get all chunks (filtered by folder if specified)
-      const allChunks = folderId
-        ? await ChunkStorage.getByFolders([folderId])
-        : await ChunkStorage.getAll();
+      const documents = new Map((await DocumentStorage.getVersions()).map((doc) => [doc.id, doc]));
+      const excludedDocuments = getExcludedDocumentIds(Array.from(documents.values()), query, {
+        asOf: asOfDate,
+        includeSuperseded,
+      });
+
+      const poolSize = retrievalMode === 'hybrid' ? topK * HYBRID_CANDIDATE_MULTIPLIER : topK;
+      const chunksById = new Map<string, StoredChunk>();
+      const similarities = new Map<string, number>();
+
+      // Vector rankings: one per embedding model, cosine similarity above threshold.
+      // Vectors from different models live in different spaces, so each model
+      // gets its own query embedding and its own ranking.
+      const queryEmbeddings = new Map<string, number[]>();
+      const vectorRankings: string[][] = [];
+      if (retrievalMode !== 'keyword') {
+        // Mock chunks hold random vectors from failed embedding runs; nothing can match them
+        const models = (await ChunkStorage.getEmbeddingModels()).filter(
+          (model) => model !== UNKNOWN_EMBEDDING_MODEL && model !== MOCK_EMBEDDING_MODEL
+        );
+
+        for (const embeddingModel of models) {
+          try {
+            const queryEmbedding = await this.embedQuery(query, embeddingModel);
+            queryEmbeddings.set(embeddingModel, queryEmbedding);
+
+            const vectorHits = await this.vectorSearch(queryEmbedding, embeddingModel, folderId, poolSize, {
+              sectionFilter,
+              excludedDocuments,
+            });
+            for (const { chunk, similarity } of vectorHits) {
+              chunksById.set(chunk.id, chunk);
+              similarities.set(chunk.id, similarity);
+            }
+            vectorRankings.push(
+              vectorHits.filter((hit) => hit.similarity >= threshold).map((hit) => hit.chunk.id)
+            );
+          } catch (error) {
+            console.warn(`[RAG] Vector search with ${embeddingModel} failed:`, error);
+          }
+        }
+      }
+
+      // Keyword ranking: BM25 over the persistent inverted index
+      const keywordScores = new Map<string, number>();
+      if (retrievalMode !== 'vector') {
+        const keywordResults = await KeywordIndex.search(query, folderId ? [folderId] : undefined, poolSize * 2);
+        const missing = keywordResults.map((result) => result.chunkId).filter((id) => !chunksById.has(id));
+        for (const chunk of await ChunkStorage.getMany(missing)) {
+          chunksById.set(chunk.id, chunk);
+        }
+
+        for (const result of keywordResults) {
+          const chunk = chunksById.get(result.chunkId);
+          // Optionally restrict to a legal section (e.g. "Điều 12")
+          if (!chunk || (sectionFilter && !sectionPathMatches(chunk.sectionPath, sectionFilter))) continue;
+          if (excludedDocuments.has(chunk.documentId)) continue;
+          if (keywordScores.size >= poolSize) break;
+
+          keywordScores.set(result.chunkId, result.score);
+          const queryEmbedding = queryEmbeddings.get(chunk.embeddingModel);
+          if (queryEmbedding && !similarities.has(chunk.id) && chunk.embedding?.length === queryEmbedding.length) {
+            similarities.set(chunk.id, cosineSimilarity(queryEmbedding, chunk.embedding));
+          }
+        }
+      }
+      const keywordRanking = Array.from(keywordScores.keys());
 
-      if (allChunks.length === 0) {
-        console.warn('[RAG] No chunks found in database');
+      if (vectorRankings.every((ranking) => ranking.length === 0) && keywordRanking.length === 0) {
+        console.warn('[RAG] No matching chunks found in database');
         return [];
       }
 
-      // Calculate similarities
-      const chunksWithSimilarity = allChunks.map((chunk) => ({
-        ...chunk,
-        similarity: this.cosineSimilarity(queryEmbedding, chunk.embedding),
-      }));
+      let ranked: Array<{ id: string; fusedScore?: number }>;
+      switch (retrievalMode) {
+        case 'vector':
+          ranked = vectorRankings.length === 1
+            ? vectorRankings[0].map((id) => ({ id }))
+            : reciprocalRankFusion(vectorRankings).map(({ id, score }) => ({ id, fusedScore: score }));
+          break;
+        case 'keyword':
+          ranked = keywordRanking.map((id) => ({ id }));
+          break;
+        default:
+          ranked = reciprocalRankFusion([...vectorRankings, keywordRanking]).map(({ id, score }) => ({
+            id,
+            fusedScore: score,
+          }));
+      }
 
-      // Filter by threshold and sort
-      const relevantChunks = chunksWithSimilarity
-        .filter((chunk) => chunk.similarity >= threshold)
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, topK);
+      // Without an embedding, show BM25 relative to the best hit
+      const maxKeywordScore = Math.max(0, ...keywordScores.values());
 
       // Convert to RetrievedChunk format
-      return relevantChunks.map((chunk, index) => ({
-        content: chunk.text, // VectorChunk uses 'text' property
-        documentName: chunk.documentName,
-        documentId: chunk.documentId,
-        similarity: chunk.similarity,
-        chunkIndex: index, // Use array index as chunk index
-      }));
+      return ranked.slice(0, topK).map(({ id, fusedScore }, index) => {
+        const chunk = chunksById.get(id)!;
+        const keywordScore = keywordScores.get(id);
+        const document = documents.get(chunk.documentId);
+
+        return {
+          content: chunk.text, // VectorChunk uses 'text' property
+          documentName: chunk.documentName,
+          documentId: chunk.documentId,
+          chunkId: chunk.id,
+          similarity: similarities.get(id) ?? (keywordScore ? keywordScore / maxKeywordScore : 0),
+          chunkIndex: index, // Use array index as chunk index
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          sectionPath: chunk.sectionPath,
+          keywordScore,
+          fusedScore,
+          documentVersion: document?.version,
+          documentStatus: document ? getDocumentStatus(document, asOfDate) : undefined,
+        };
+      });
     } catch (error) {
       console.error('[RAG] Failed to search chunks:', error);
       return [];
@@ -284,81 +591,134 @@ export class RAGEngine {
   }
 
   /**
-   * Generate response using AI provider
+   * Top chunks of one embedding model by cosine similarity: HNSW for large collections, exact scan otherwise
    */
-  private async generateResponse(
-    provider: BaseAIProvider,
-    query: string,
-    chunks: RetrievedChunk[]
-  ): Promise<string> {
-    const messages = this.buildRAGMessages(query, chunks);
+  private async vectorSearch(
+    queryEmbedding: number[],
+    embeddingModel: string,
+    folderId: string | undefined,
+    limit: number,
+    filters: { sectionFilter?: string; excludedDocuments: Set<string> }
+  ): Promise<Array<{ chunk: StoredChunk; similarity: number }>> {
+    const { sectionFilter, excludedDocuments } = filters;
+    const matches = (chunk: StoredChunk) =>
+      chunk.embeddingModel === embeddingModel &&
+      !excludedDocuments.has(chunk.documentId) &&
+      (!sectionFilter || sectionPathMatches(chunk.sectionPath, sectionFilter));
+
+    if ((await ChunkStorage.countByModel(embeddingModel)) >= ANN_MIN_COLLECTION_SIZE) {
+      // Filters are applied after the ANN search, so over-fetch
+      const filtered = sectionFilter || excludedDocuments.size > 0;
+      const fetchSize = filtered ? limit * HYBRID_CANDIDATE_MULTIPLIER : limit;
+      const hits = await VectorIndex.search(
+        queryEmbedding,
+        embeddingModel,
+        fetchSize,
+        folderId ? [folderId] : undefined,
+        fetchSize * 2
+      );
+      const chunks = await ChunkStorage.getMany(hits.map((hit) => hit.chunkId));
+      const chunkMap = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+
+      const results = hits
+        .filter((hit) => chunkMap.has(hit.chunkId) && matches(chunkMap.get(hit.chunkId)!))
+        .map((hit) => ({ chunk: chunkMap.get(hit.chunkId)!, similarity: hit.similarity }))
+        .slice(0, limit);
 
-    const response = await provider.complete({ messages });
+      // Fall back to an exact scan when filters leave too few ANN candidates
+      if (results.length >= limit) {
+        return results;
+      }
+      console.log('[RAG] ANN returned too few candidates, falling back to exact search');
+    }
 
-    return response.content;
+    // Get all chunks (filtered by folder if specified)
+    const folderChunks = folderId
+      ? await ChunkStorage.getByFolders([folderId])
+      : await ChunkStorage.getAll();
+
+    return folderChunks
+      .filter(matches)
+      .map((chunk) => ({ chunk, similarity: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
   }
 
   /**
-   * Build messages for RAG context
+   * Score the answer's sentences against the sources, embedding with the first stored
+   * model and asking the provider to judge when requested. Failures leave the answer unverified.
    */
-  private buildRAGMessages(query: string, chunks: RetrievedChunk[]) {
-    // Format context
-    const context = chunks
-      .map(
-        (chunk, idx) =>
-          `[Tài liệu ${idx + 1}: ${chunk.documentName} - Độ liên quan: ${(chunk.similarity * 100).toFixed(1)}%]
-${chunk.content}
----`
-      )
-      .join('\n\n');
-
-    return [
-      {
-        role: 'system' as const,
-        content: `Bạn là trợ lý AI chuyên trả lời câu hỏi dựa trên tài liệu kiến trúc và xây dựng.
-
-NHIỆM VỤ:
-- Trả lời câu hỏi của người dùng dựa HOÀN TOÀN trên nội dung tài liệu được cung cấp
-- Trích dẫn chính xác các đoạn văn bản từ tài liệu
-- Nếu không tìm thấy thông tin trong tài liệu, hãy thừa nhận và KHÔNG bịa đặt
+  private async checkGrounding(
+    params: RAGQuery,
+    provider: BaseAIProvider,
+    answer: string,
+    chunks: RetrievedChunk[]
+  ): Promise<GroundingReport | undefined> {
+    if (params.verifyGrounding === false || !answer) {
+      return undefined;
+    }
 
-NGUYÊN TẮC:
-- Trả lời bằng tiếng Việt
-- Câu trả lời ngắn gọn, súc tích
-- Ưu tiên độ chính xác hơn là chi tiết
-- Luôn trích dẫn tên tài liệu nguồn
+    try {
+      const embeddingModel = (await ChunkStorage.getEmbeddingModels()).find(
+        (model) => model !== UNKNOWN_EMBEDDING_MODEL && model !== MOCK_EMBEDDING_MODEL
+      );
 
-CONTEXT TỪ TÀI LIỆU:
-${context}`,
-      },
-      {
-        role: 'user' as const,
-        content: query,
-      },
-    ];
+      return await verifyAnswer(answer, chunks, {
+        embed: embeddingModel ? async (texts) => (await embedTexts(texts, embeddingModel)).embeddings : undefined,
+        judge: params.groundingJudge ? provider : undefined,
+      });
+    } catch (error) {
+      console.warn('[RAG] Grounding verification failed:', error);
+      return undefined;
+    }
   }
 
   /**
-   * Calculate cosine similarity between vectors
+   * Build messages for RAG context within the model's window: whole chunks are packed
+   * into what is left after the instructions, the question and the tokens reserved for
+   * the answer, and conversation history gets the remainder
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Vectors must have same length');
+  private async buildRAGMessages(
+    provider: BaseAIProvider,
+    query: string,
+    chunks: RetrievedChunk[],
+    history: ChatMessage[] = []
+  ): Promise<RAGPrompt> {
+    const counter = await provider.getTokenCounter();
+    const budget = Math.min(this.maxContextLength, provider.getContextWindow() - provider.getMaxOutputTokens());
+
+    const contextBudget = budget - counter.count(RAG_INSTRUCTIONS) - counter.count(query);
+    const packed = packContext(chunks, contextBudget, counter.count, formatContextBlock);
+    if (packed.dropped.length > 0) {
+      console.log(
+        `[RAG] Context: ${packed.chunks.length} sources in ${packed.tokens}/${contextBudget} tokens (${counter.tokenizer}), dropped ${packed.dropped.length}`
+      );
     }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+    const systemPrompt = `${RAG_INSTRUCTIONS}
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
+CONTEXT TỪ TÀI LIỆU:
+${packed.blocks.join('\n\n')}`;
 
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+    const historyBudget = budget - counter.count(systemPrompt) - counter.count(query);
+    const { messages: recentTurns, summary } = windowHistory(history, Math.max(0, historyBudget), counter.count);
 
-    return denominator === 0 ? 0 : dotProduct / denominator;
+    return {
+      messages: [
+        {
+          role: 'system',
+          content: summary ? `${systemPrompt}\n\nTÓM TẮT HỘI THOẠI TRƯỚC:\n${summary}` : systemPrompt,
+        },
+        ...recentTurns.map(({ role, content }) => ({ role, content })),
+        {
+          role: 'user',
+          content: query,
+        },
+      ],
+      packed,
+      counter,
+      budget,
+    };
   }
 
   /**
@@ -367,12 +727,12 @@ ${context}`,
   async checkProvidersHealth(): Promise<Map<AIProvider, boolean>> {
     const health = new Map<AIProvider, boolean>();
 
-    for (const [providerName, provider] of this.providers.entries()) {
+    for (const provider of this.providerManager.getAllProviders()) {
       try {
         const status = await provider.healthCheck();
-        health.set(providerName, status.available);
+        health.set(provider.getProvider(), status.available);
       } catch (error) {
-        health.set(providerName, false);
+        health.set(provider.getProvider(), false);
       }
     }
 
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Chunk Reranking
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { BaseAIProvider } from './providers/base';
+import type { RetrievedChunk } from './types';
+import { createLLMScorer, parseRelevanceGrades, rerankChunks } from './reranker';
+
+vi.mock('../../utils/crossEncoder', () => ({
+  DEFAULT_RERANKER_MODEL: 'test-reranker',
+  rerankTexts: vi.fn()
+}));
+
+const chunk = (content: string, chunkIndex: number): RetrievedChunk => ({
+  content,
+  documentName: 'QCVN 06:2022',
+  documentId: 'qcvn-06',
+  similarity: 0.9 - chunkIndex * 0.1,
+  chunkIndex
+});
+
+const chunks = [
+  chunk('Điều 1. Giải thích từ ngữ: nhà chung cư là nhà có từ 2 tầng trở lên.', 0),
+  chunk('Điều 3. Phạm vi áp dụng cho nhà chung cư và công trình công cộng.', 1),
+  chunk('Điều 12. Chiều cao tối đa của nhà chung cư là 150 m.', 2)
+];
+
+describe('Reranker', () => {
+  it('should reorder chunks by score and keep the final k', async () => {
+    const scorer = vi.fn(async () => [0.2, 0.1, 0.9]);
+    const reranked = await rerankChunks('chiều cao tối đa nhà chung cư', chunks, scorer, 2);
+
+    expect(scorer).toHaveBeenCalledWith('chiều cao tối đa nhà chung cư', chunks.map(c => c.content));
+    expect(reranked.map(c => c.content)).toEqual([chunks[2].content, chunks[0].content]);
+    expect(reranked.map(c => c.rerankScore)).toEqual([0.9, 0.2]);
+    expect(reranked.map(c => c.chunkIndex)).toEqual([0, 1]);
+  });
+
+  it('should keep the retrieval order when scoring fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const reranked = await rerankChunks('q', chunks, async () => { throw new Error('model unavailable'); }, 2);
+
+    expect(reranked).toEqual(chunks.slice(0, 2));
+  });
+
+  it('should read relevance grades from the model', () => {
+    expect(parseRelevanceGrades('1: 3\n[2] - 7.5\n3: 10\n9: 8', 3)).toEqual([0.3, 0.75, 1]);
+    expect(parseRelevanceGrades('không rõ', 2)).toEqual([0, 0]);
+  });
+
+  it('should grade passages with the LLM provider', async () => {
+    const provider = { complete: vi.fn(async () => ({ content: '1: 2\n2: 1\n3: 9' })) } as unknown as BaseAIProvider;
+    const reranked = await rerankChunks('chiều cao tối đa', chunks, createLLMScorer(provider), 1);
+
+    expect(reranked[0].content).toBe(chunks[2].content);
+    const prompt = vi.mocked(provider.complete).mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain('CÂU HỎI: chiều cao tối đa');
+    expect(prompt).toContain('[3] Điều 12.');
+  });
+});
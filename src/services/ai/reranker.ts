@@ -0,0 +1,113 @@
+/**
+ * Chunk Reranking
+ * A larger candidate pool from hybrid retrieval is rescored against the question,
+ * either by a local cross-encoder or by the active LLM provider, and only the best
+ * chunks are kept for the prompt.
+ */
+
+import type { BaseAIProvider } from './providers/base';
+import type { RAGSettings, RetrievedChunk } from './types';
+import { DEFAULT_RERANKER_MODEL, rerankTexts } from '../../utils/crossEncoder';
+
+export type RerankSettings = Pick<RAGSettings, 'reranker' | 'rerankerModel' | 'rerankCandidates' | 'rerankTopK'>;
+
+/**
+ * Reranking is off until enabled, since the cross-encoder is a large download
+ */
+export const DEFAULT_RERANK_SETTINGS: RerankSettings = {
+  reranker: 'none',
+  rerankerModel: DEFAULT_RERANKER_MODEL,
+  rerankCandidates: 20,
+  rerankTopK: 5,
+};
+
+/**
+ * Scores passages against a query, higher is more relevant (0-1)
+ */
+export type PassageScorer = (query: string, passages: string[]) => Promise<number[]>;
+
+/**
+ * Longest passage excerpt shown to the LLM scorer (characters)
+ */
+const LLM_PASSAGE_LENGTH = 800;
+
+/**
+ * Highest relevance grade the LLM scorer is asked for
+ */
+const LLM_MAX_GRADE = 10;
+
+export function createCrossEncoderScorer(model: string): PassageScorer {
+  return (query, passages) => rerankTexts(query, passages, model);
+}
+
+/**
+ * Read "n: grade" lines into 0-1 scores; passages without a grade score 0
+ */
+export function parseRelevanceGrades(output: string, count: number): number[] {
+  const scores = new Array<number>(count).fill(0);
+  for (const line of output.split('\n')) {
+    const match = line.match(/^\W*(\d+)\W+(\d+(?:[.,]\d+)?)/);
+    if (!match) continue;
+    const index = Number(match[1]) - 1;
+    if (index >= 0 && index < count) {
+      scores[index] = Math.min(1, Number(match[2].replace(',', '.')) / LLM_MAX_GRADE);
+    }
+  }
+  return scores;
+}
+
+export function createLLMScorer(provider: BaseAIProvider): PassageScorer {
+  return async (query, passages) => {
+    const numbered = passages
+      .map((passage, index) => `[${index + 1}] ${passage.slice(0, LLM_PASSAGE_LENGTH)}`)
+      .join('\n\n');
+
+    const response = await provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `Chấm mức độ liên quan của từng đoạn tài liệu với câu hỏi, từ 0 (không liên quan) đến ${LLM_MAX_GRADE} (trả lời trực tiếp câu hỏi).
+- Đoạn nêu đúng quy định, số liệu được hỏi được điểm cao hơn đoạn định nghĩa hay giới thiệu chung
+Trả về mỗi đoạn một dòng dạng "số: điểm", không giải thích.`,
+        },
+        {
+          role: 'user',
+          content: `CÂU HỎI: ${query}\n\nCÁC ĐOẠN:\n${numbered}`,
+        },
+      ],
+      temperature: 0,
+      usageTag: { purpose: 'rerank' },
+    });
+
+    return parseRelevanceGrades(response.content, passages.length);
+  };
+}
+
+/**
+ * Reorder chunks by the scorer and keep the best `topK`. If scoring fails,
+ * the retrieval order is kept.
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: RetrievedChunk[],
+  scorer: PassageScorer,
+  topK: number
+): Promise<RetrievedChunk[]> {
+  if (chunks.length <= 1) {
+    return chunks.slice(0, topK);
+  }
+
+  try {
+    const scores = await scorer(query, chunks.map((chunk) => chunk.content));
+
+    return chunks
+      .map((chunk, index) => ({ chunk, score: scores[index] ?? 0, index }))
+      // Ties keep the retrieval order
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, topK)
+      .map(({ chunk, score }, index) => ({ ...chunk, rerankScore: score, chunkIndex: index }));
+  } catch (error) {
+    console.warn('[RAG] Reranking failed, keeping retrieval order:', error);
+    return chunks.slice(0, topK);
+  }
+}
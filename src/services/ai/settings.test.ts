@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for AI Settings
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RAG_SETTINGS,
+  defaultAIProviderSettings,
+  hasProviderKeys,
+  openProviderKeys,
+  resolveAISettings,
+  sealProviderKeys
+} from './settings';
+import { createVault } from '../../utils/keyVault';
+import type { RAGSettings } from './types';
+
+describe('AI Settings', () => {
+  const env = { VITE_GROQ_API_KEY: 'gsk', VITE_DEFAULT_AI_PROVIDER: 'groq' };
+
+  it('should start from the environment before settings are saved', () => {
+    const { providers, rag } = resolveAISettings(undefined, env);
+
+    expect(providers.defaultProvider).toBe('groq');
+    expect(providers.providers.groq).toMatchObject({ apiKey: 'gsk', enabled: true });
+    expect(providers.timeout).toBe(30000);
+    expect(rag).toEqual(DEFAULT_RAG_SETTINGS);
+  });
+
+  it('should apply saved providers over the environment', () => {
+    const saved = {
+      ...defaultAIProviderSettings({}),
+      defaultProvider: 'anthropic' as const,
+      providers: { anthropic: { apiKey: 'sk-ant', model: 'claude-3-5-haiku-latest', enabled: true } },
+      maxRetries: 1
+    };
+
+    const { providers } = resolveAISettings({ aiProviders: saved }, env);
+
+    expect(providers.defaultProvider).toBe('anthropic');
+    expect(providers.providers.anthropic?.apiKey).toBe('sk-ant');
+    expect(providers.providers.groq).toMatchObject({ apiKey: 'gsk', enabled: true });
+    expect(providers.maxRetries).toBe(1);
+  });
+
+  it('should keep environment keys out of storage and the vault', async () => {
+    const { providers } = resolveAISettings(undefined, env);
+    expect(hasProviderKeys(providers, env)).toBe(false);
+
+    // Saved with the environment key blanked, as sealing or stripping leaves it
+    const { key } = await createVault('correct horse battery', 1000);
+    const sealed = await sealProviderKeys(providers, key, env);
+    expect(sealed.apiKeys).toEqual({});
+
+    const groq = { ...sealed.settings.providers.groq!, model: 'llama-3.1-8b-instant' };
+    const saved = { ...sealed.settings, providers: { ...sealed.settings.providers, groq } };
+    const reloaded = resolveAISettings({ aiProviders: saved }, env).providers;
+    expect(reloaded.providers.groq).toMatchObject({ apiKey: 'gsk', model: 'llama-3.1-8b-instant' });
+
+    const openai = { apiKey: 'sk-new', model: 'gpt-4o-mini', enabled: true };
+    const entered = { ...providers, providers: { ...providers.providers, openai } };
+    expect(hasProviderKeys(entered, env)).toBe(true);
+  });
+
+  it('should complete older saved settings with new fields and providers', () => {
+    const aiProviders = { ...defaultAIProviderSettings({}), fallbackOrder: ['ollama' as const, 'gemini' as const] };
+    const olderRag: Partial<RAGSettings> = { ...DEFAULT_RAG_SETTINGS, defaultTopK: 8 };
+    delete olderRag.rerankTopK;
+
+    const { providers, rag } = resolveAISettings({ aiProviders, rag: olderRag as RAGSettings }, {});
+
+    expect(providers.fallbackOrder.slice(0, 2)).toEqual(['ollama', 'gemini']);
+    expect(providers.fallbackOrder).toContain('openai-compatible');
+    expect(rag.defaultTopK).toBe(8);
+    expect(rag.rerankTopK).toBe(DEFAULT_RAG_SETTINGS.rerankTopK);
+  });
+
+  it('should store API keys only in encrypted form', async () => {
+    const { key } = await createVault('correct horse battery', 1000);
+    const settings = {
+      ...defaultAIProviderSettings({}),
+      providers: {
+        anthropic: { apiKey: 'sk-ant-secret', model: 'claude-3-5-haiku-latest', enabled: true },
+        ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.1', enabled: true }
+      }
+    };
+
+    const sealed = await sealProviderKeys(settings, key);
+
+    expect(JSON.stringify(sealed)).not.toContain('sk-ant-secret');
+    expect(sealed.settings.providers.anthropic?.apiKey).toBe('');
+    expect(Object.keys(sealed.apiKeys)).toEqual(['anthropic']);
+    await expect(openProviderKeys(sealed.settings, sealed.apiKeys, key)).resolves.toEqual(settings);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * AI Settings
+ * Provider and RAG settings edited in the app and saved with the app settings. Until they
+ * are first saved, providers come from the VITE_* environment variables; afterwards saved
+ * providers are applied over them. API keys entered in the app are stored apart from the
+ * settings, encrypted by the key vault; keys from the environment are never stored.
+ */
+
+import type { AIProvider, AIProviderSettings, RAGSettings } from './types';
+import { providerConfigsFromEnv, ProviderConfigs } from './providerFactory';
+import { decryptSecret, encryptSecret, EncryptedSecret } from '../../utils/keyVault';
+import { DEFAULT_FALLBACK_ORDER } from './providerManager';
+import { DEFAULT_RERANK_SETTINGS } from './reranker';
+import { DEFAULT_MAX_CONTEXT_LENGTH } from './conversation';
+
+type Env = Record<string, string | undefined>;
+
+type KeyedConfigs = Record<string, { apiKey?: string } | undefined>;
+
+export const DEFAULT_RAG_SETTINGS: RAGSettings = {
+  id: 'rag',
+  defaultTopK: 5,
+  defaultThreshold: 0.5,
+  maxContextLength: DEFAULT_MAX_CONTEXT_LENGTH,
+  systemPrompt: '', // Built-in citation instructions
+  enableSourceCitation: true,
+  enableStreaming: true,
+  chunkOverlap: 100,
+  embeddingModel: 'Xenova/all-MiniLM-L6-v2',
+  ...DEFAULT_RERANK_SETTINGS,
+};
+
+/**
+ * Provider settings before any are saved, from the environment
+ */
+export function defaultAIProviderSettings(env: Env): AIProviderSettings {
+  return {
+    id: 'ai-providers',
+    defaultProvider: (env.VITE_DEFAULT_AI_PROVIDER || 'gemini') as AIProvider,
+    providers: providerConfigsFromEnv(env),
+    fallbackOrder: [...DEFAULT_FALLBACK_ORDER],
+    enableAutoFallback: true,
+    maxRetries: 3,
+    timeout: 30000,
+  };
+}
+
+/**
+ * Saved settings completed with defaults: fields added since they were saved, providers
+ * added since then at the end of the fallback order, and each saved provider applied
+ * over its environment configuration (keys blanked when saving come from the environment)
+ */
+export function resolveAISettings(
+  saved: { aiProviders?: AIProviderSettings; rag?: RAGSettings } | undefined,
+  env: Env
+): { providers: AIProviderSettings; rag: RAGSettings } {
+  const defaults = defaultAIProviderSettings(env);
+  const merged: KeyedConfigs = { ...(defaults.providers as KeyedConfigs) };
+  for (const [name, config] of Object.entries((saved?.aiProviders?.providers ?? {}) as KeyedConfigs)) {
+    if (config) merged[name] = { ...merged[name], ...config };
+  }
+  const providers = withEnvironmentKeys(
+    { ...defaults, ...saved?.aiProviders, providers: merged as ProviderConfigs },
+    env
+  );
+  const order = providers.fallbackOrder.filter((name) => DEFAULT_FALLBACK_ORDER.includes(name));
+
+  return {
+    providers: {
+      ...providers,
+      fallbackOrder: [...order, ...DEFAULT_FALLBACK_ORDER.filter((name) => !order.includes(name))],
+    },
+    rag: { ...DEFAULT_RAG_SETTINGS, ...saved?.rag },
+  };
+}
+
+/**
+ * Encrypted API keys by provider
+ */
+export type SealedKeys = Partial<Record<AIProvider, EncryptedSecret>>;
+
+/**
+ * API keys set by VITE_* variables, by provider
+ */
+function environmentKeys(env: Env): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.entries(providerConfigsFromEnv(env) as KeyedConfigs).map(([name, config]) => [name, config?.apiKey])
+  );
+}
+
+/**
+ * Key entered in the app, as opposed to one from the environment
+ */
+function isEnteredKey(name: string, apiKey: string | undefined, envKeys: Record<string, string | undefined>): boolean {
+  return !!apiKey && apiKey !== envKeys[name];
+}
+
+/**
+ * Whether any provider has an API key entered in the app (keys from the environment
+ * need no vault)
+ */
+export function hasProviderKeys(settings: AIProviderSettings, env: Env = {}): boolean {
+  const envKeys = environmentKeys(env);
+  return Object.entries(settings.providers as KeyedConfigs).some(([name, config]) =>
+    isEnteredKey(name, config?.apiKey, envKeys)
+  );
+}
+
+/**
+ * Settings with blank API keys filled from the environment
+ */
+export function withEnvironmentKeys(settings: AIProviderSettings, env: Env): AIProviderSettings {
+  const envKeys = environmentKeys(env);
+  const providers: KeyedConfigs = {};
+  for (const [name, config] of Object.entries(settings.providers as KeyedConfigs)) {
+    providers[name] = config && !config.apiKey && envKeys[name] ? { ...config, apiKey: envKeys[name] } : config;
+  }
+  return { ...settings, providers: providers as ProviderConfigs };
+}
+
+/**
+ * Settings with every API key blanked
+ */
+export function stripProviderKeys(settings: AIProviderSettings): AIProviderSettings {
+  const providers: KeyedConfigs = {};
+  for (const [name, config] of Object.entries(settings.providers as KeyedConfigs)) {
+    providers[name] = config?.apiKey ? { ...config, apiKey: '' } : config;
+  }
+  return { ...settings, providers: providers as ProviderConfigs };
+}
+
+/**
+ * Split settings into keyless settings and the entered keys encrypted with the vault key
+ */
+export async function sealProviderKeys(
+  settings: AIProviderSettings,
+  key: CryptoKey,
+  env: Env = {}
+): Promise<{ settings: AIProviderSettings; apiKeys: SealedKeys }> {
+  const envKeys = environmentKeys(env);
+  const apiKeys: SealedKeys = {};
+  for (const [name, config] of Object.entries(settings.providers as KeyedConfigs)) {
+    if (isEnteredKey(name, config?.apiKey, envKeys)) {
+      apiKeys[name as AIProvider] = await encryptSecret(key, config.apiKey);
+    }
+  }
+  return { settings: stripProviderKeys(settings), apiKeys };
+}
+
+/**
+ * Put decrypted keys back into keyless settings
+ */
+export async function openProviderKeys(
+  settings: AIProviderSettings,
+  apiKeys: SealedKeys,
+  key: CryptoKey
+): Promise<AIProviderSettings> {
+  const providers: KeyedConfigs = { ...(settings.providers as KeyedConfigs) };
+  for (const [name, secret] of Object.entries(apiKeys)) {
+    const config = providers[name];
+    if (config && secret) {
+      providers[name] = { ...config, apiKey: await decryptSecret(key, secret) };
+    }
+  }
+  return { ...settings, providers: providers as ProviderConfigs };
+}
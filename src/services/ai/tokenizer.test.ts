@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for Token Counting per Provider
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AutoTokenizer } from '@huggingface/transformers';
+import { contextWindowFor, loadTokenCounter, tokenizerModelFor, HEURISTIC_COUNTER } from './tokenizer';
+
+vi.mock('@huggingface/transformers', () => ({
+  AutoTokenizer: { from_pretrained: vi.fn() }
+}));
+
+describe('Tokenizer', () => {
+  it('should pick the tokenizer of the model family', () => {
+    expect(tokenizerModelFor('openai', 'gpt-4o-mini')).toBe('Xenova/gpt-4o');
+    expect(tokenizerModelFor('openai', 'gpt-4-turbo')).toBe('Xenova/gpt-4');
+    expect(tokenizerModelFor('anthropic', 'claude-3-5-sonnet-latest')).toBe('Xenova/claude-tokenizer');
+    expect(tokenizerModelFor('gemini', 'gemini-1.5-flash-latest')).toBe('Xenova/gemma-tokenizer');
+    expect(tokenizerModelFor('groq', 'llama-3.1-8b-instant')).toBe('Xenova/llama-3-tokenizer');
+    expect(tokenizerModelFor('ollama', 'mistral')).toBe('Xenova/mistral-tokenizer-v3');
+    expect(tokenizerModelFor('ollama', 'qwen2.5')).toBeUndefined();
+  });
+
+  it('should know context windows of common models', () => {
+    expect(contextWindowFor('openai', 'gpt-4o-mini')).toBe(128_000);
+    expect(contextWindowFor('groq', 'llama-3.3-70b-versatile')).toBe(131_072);
+    expect(contextWindowFor('groq', 'gemma2-9b-it')).toBe(8_192);
+    expect(contextWindowFor('ollama', 'llama3.1')).toBe(4_096);
+  });
+
+  it('should count with the loaded tokenizer', async () => {
+    vi.mocked(AutoTokenizer.from_pretrained).mockResolvedValueOnce({
+      encode: (text: string) => text.split(' ')
+    } as never);
+
+    const counter = await loadTokenCounter('openai', 'gpt-4o');
+
+    expect(counter.tokenizer).toBe('Xenova/gpt-4o');
+    expect(counter.count('chiều cao tối đa')).toBe(4);
+  });
+
+  it('should estimate when the tokenizer cannot be loaded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(AutoTokenizer.from_pretrained).mockRejectedValueOnce(new Error('offline'));
+
+    expect(await loadTokenCounter('anthropic', 'claude-3-haiku')).toBe(HEURISTIC_COUNTER);
+    expect(await loadTokenCounter('ollama', 'qwen2.5')).toBe(HEURISTIC_COUNTER);
+  });
+});
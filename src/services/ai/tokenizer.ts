@@ -0,0 +1,117 @@
+/**
+ * Token Counting per Provider
+ * Prompts are measured with the tokenizer of the model family that will read them
+ * (loaded from the Hugging Face hub through transformers.js), falling back to the
+ * character-based estimate when no tokenizer is known or it cannot be loaded.
+ * Also holds the context windows used to budget prompts.
+ */
+
+import { AutoTokenizer } from '@huggingface/transformers';
+import type { AIProvider } from './types';
+
+/**
+ * Estimate token count (rough approximation)
+ * Used when the model's tokenizer is unknown or cannot be loaded
+ */
+export function estimateTokens(text: string): number {
+  // Rough estimate: 1 token ≈ 4 characters for English
+  // For Vietnamese: 1 token ≈ 2-3 characters (use 2.5)
+  const isVietnamese = /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i.test(
+    text
+  );
+  const charPerToken = isVietnamese ? 2.5 : 4;
+  return Math.ceil(text.length / charPerToken);
+}
+
+export interface TokenCounter {
+  tokenizer: string; // Hub model the counts come from, or "heuristic"
+  count(text: string): number;
+}
+
+export const HEURISTIC_COUNTER: TokenCounter = {
+  tokenizer: 'heuristic',
+  count: estimateTokens,
+};
+
+/**
+ * Context windows by provider when the model is not listed below (Ollama's is its num_ctx default)
+ */
+const DEFAULT_CONTEXT_WINDOWS: Record<AIProvider, number> = {
+  openai: 128_000,
+  gemini: 1_048_576,
+  anthropic: 200_000,
+  groq: 8_192,
+  ollama: 4_096,
+  'openai-compatible': 8_192, // Servers differ; vLLM reports its max_model_len
+};
+
+/**
+ * Context windows of known models, first match wins
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4\.1/, 1_047_576],
+  [/^(gpt-4o|gpt-4-turbo|o\d)/, 128_000],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5/, 16_385],
+  [/^gemini-1\.5-pro/, 2_097_152],
+  [/^claude/, 200_000],
+  [/^llama-3\.[1-3]/, 131_072],
+  [/^mixtral-8x7b/, 32_768],
+];
+
+/**
+ * Hub tokenizer for a provider and model; Claude and Gemini use the closest public tokenizer
+ */
+export function tokenizerModelFor(provider: AIProvider, model: string): string | undefined {
+  const name = model.toLowerCase();
+
+  if (provider === 'anthropic' || name.startsWith('claude')) return 'Xenova/claude-tokenizer';
+  if (provider === 'gemini' || name.includes('gemma')) return 'Xenova/gemma-tokenizer';
+  if (/^gpt-(3\.5|4)(-|$)/.test(name)) return 'Xenova/gpt-4'; // cl100k_base
+  if (provider === 'openai' || /^(gpt|o\d)/.test(name)) return 'Xenova/gpt-4o'; // o200k_base
+
+  // Open models served by Ollama, Groq or compatible endpoints, by family
+  if (/llama-?3/.test(name)) return 'Xenova/llama-3-tokenizer';
+  if (/mistral|mixtral/.test(name)) return 'Xenova/mistral-tokenizer-v3';
+  if (name.includes('llama')) return 'Xenova/llama-tokenizer';
+  return undefined;
+}
+
+/**
+ * Tokens the model accepts in total (prompt and answer)
+ */
+export function contextWindowFor(provider: AIProvider, model: string): number {
+  if (provider === 'ollama') {
+    return DEFAULT_CONTEXT_WINDOWS.ollama;
+  }
+  const name = model.toLowerCase();
+  return MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_CONTEXT_WINDOWS[provider];
+}
+
+const counters = new Map<string, Promise<TokenCounter>>();
+
+/**
+ * Token counter for a provider and model, loaded once per tokenizer
+ */
+export function loadTokenCounter(provider: AIProvider, model: string): Promise<TokenCounter> {
+  const tokenizerModel = tokenizerModelFor(provider, model);
+  if (!tokenizerModel) {
+    return Promise.resolve(HEURISTIC_COUNTER);
+  }
+
+  let loading = counters.get(tokenizerModel);
+  if (!loading) {
+    loading = AutoTokenizer.from_pretrained(tokenizerModel)
+      .then((tokenizer): TokenCounter => ({
+        tokenizer: tokenizerModel,
+        count: (text) => (text ? tokenizer.encode(text, { add_special_tokens: false }).length : 0),
+      }))
+      .catch((error) => {
+        // Keep the estimate for this session rather than retrying on every query
+        console.warn(`[RAG] Tokenizer ${tokenizerModel} unavailable, estimating tokens:`, error);
+        return HEURISTIC_COUNTER;
+      });
+    counters.set(tokenizerModel, loading);
+  }
+  return loading;
+}
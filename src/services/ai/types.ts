@@ -3,6 +3,8 @@
  * Defines all TypeScript types for AI providers and RAG system
  */
 
+import type { DocumentStatus } from '../../utils/documentVersioning';
+
 // ============================================================================
 // AI Provider Types
 // ============================================================================
@@ -10,7 +12,7 @@
 /**
  * Supported AI providers
  */
-export type AIProvider = 'openai' | 'gemini' | 'ollama' | 'anthropic' | 'groq';
+export type AIProvider = 'openai' | 'gemini' | 'ollama' | 'anthropic' | 'groq' | 'openai-compatible';
 
 /**
  * AI model configuration for each provider
@@ -44,6 +46,15 @@ export interface CompletionRequest {
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
+  usageTag?: UsageTag; // What the call was for, recorded with its usage
+}
+
+/**
+ * What a completion was made for: the answer itself or a step around it
+ */
+export interface UsageTag {
+  purpose: 'answer' | 'rewrite' | 'rerank' | 'grounding';
+  folderId?: string; // Folder the question was asked in, when limited to one
 }
 
 /**
@@ -74,14 +85,26 @@ export interface StreamChunk {
 // RAG Types
 // ============================================================================
 
+/**
+ * How chunks are retrieved: embeddings only, BM25 keywords only, or both fused
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
 /**
  * RAG query request
  */
 export interface RAGQuery {
   query: string;
   folderId?: string;
+  sectionFilter?: string; // Restrict to a legal section, e.g. "Điều 12" or "Chương III"
   topK?: number;          // Number of chunks to retrieve
-  threshold?: number;     // Similarity threshold
+  threshold?: number;     // Similarity threshold (vector ranking only)
+  retrievalMode?: RetrievalMode; // Default: 'hybrid'
+  asOfDate?: string;      // ISO date documents must be in effect on (default: today)
+  includeSuperseded?: boolean; // Also search expired and superseded documents
+  history?: ChatMessage[]; // Earlier turns of the conversation, oldest first
+  verifyGrounding?: boolean; // Check the answer against the sources (default: true)
+  groundingJudge?: boolean;  // Also ask the model to judge each claim (default: false)
   provider?: AIProvider;
   stream?: boolean;
 }
@@ -93,8 +116,51 @@ export interface RetrievedChunk {
   content: string;
   documentName: string;
   documentId: string;
+  chunkId?: string;       // Stored chunk ID
   similarity: number;
   chunkIndex: number;
+  pageStart?: number;     // First source page (PDF only)
+  pageEnd?: number;       // Last source page (PDF only)
+  sectionPath?: string;   // Legal hierarchy path, e.g. "Chương III > Điều 12 > Khoản 2"
+  keywordScore?: number;  // BM25 score, when matched by keyword search
+  fusedScore?: number;    // Reciprocal rank fusion score (hybrid mode)
+  rerankScore?: number;   // Relevance from the reranker (0-1), when reranking ran
+  documentVersion?: string;       // Regulation issue year, e.g. "2021"
+  documentStatus?: DocumentStatus; // On the query's reference date
+}
+
+/**
+ * How well one sentence of an answer is supported by the retrieved sources
+ */
+export interface SentenceSupport {
+  text: string;
+  start: number;          // Offsets of the sentence in the answer
+  end: number;
+  score: number;          // 0-1
+  supported: boolean;
+  sources: number[];      // Supporting sources, numbered like the [n] markers
+  unsupportedNumbers?: string[]; // Figures that appear in no source
+}
+
+/**
+ * Grounding verification of an answer
+ */
+export interface GroundingReport {
+  sentences: SentenceSupport[]; // Factual sentences only; headings and filler are skipped
+  score: number;                // Share of sentences that are supported
+  methods: Array<'lexical' | 'embedding' | 'llm'>;
+}
+
+/**
+ * How the retrieved chunks were fitted into the prompt
+ */
+export interface ContextReport {
+  tokenizer: string;      // Tokenizer used for counting, or "heuristic"
+  budget: number;         // Prompt tokens available (window minus tokens reserved for the answer)
+  contextTokens: number;  // Tokens taken by the document context
+  dropped: Array<Pick<RetrievedChunk, 'documentId' | 'documentName' | 'pageStart' | 'pageEnd' | 'sectionPath'> & {
+    tokens: number;
+  }>;
 }
 
 /**
@@ -113,13 +179,17 @@ export interface RAGResponse {
   answer: string;
   sources: RetrievedChunk[];
   model: string;
-  provider: AIProvider;
+  provider: AIProvider;        // Provider that answered
+  fallbackFrom?: AIProvider;   // Requested provider, when it failed or was skipped and another answered
   usage?: {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
   };
   processingTime?: number;
+  rewrittenQuery?: string; // Standalone question used for retrieval, when it differs from the query
+  grounding?: GroundingReport;
+  context?: ContextReport;
   error?: string;
 }
 
@@ -149,6 +219,25 @@ export interface ProviderUsage {
   lastUsed?: number;
 }
 
+/**
+ * One completion call as reported by a provider
+ */
+export interface UsageEvent {
+  provider: AIProvider;
+  model: string;
+  operation: 'complete' | 'stream';
+  tag?: UsageTag;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Receives every completion call of a provider
+ */
+export type UsageListener = (event: UsageEvent) => void;
+
 // ============================================================================
 // Configuration & Settings
 // ============================================================================
@@ -185,6 +274,13 @@ export interface AIProviderSettings {
       model: string;
       enabled: boolean;
     };
+    'openai-compatible'?: {
+      baseUrl: string;                  // Including the API prefix, e.g. http://localhost:8000/v1
+      apiKey?: string;
+      model: string;                    // Empty to use the first model the server lists
+      headers?: Record<string, string>;
+      enabled: boolean;
+    };
   };
   fallbackOrder: AIProvider[];  // Fallback sequence if primary fails
   enableAutoFallback: boolean;
@@ -192,6 +288,20 @@ export interface AIProviderSettings {
   timeout: number;              // ms
 }
 
+/**
+ * Monthly spending limit on paid providers
+ */
+export interface UsageBudget {
+  monthlyBudgetUsd: number;   // 0 for no budget
+  alertThreshold: number;     // Share of the budget (0-1) at which to warn
+  blockWhenExceeded: boolean; // Stop using paid providers once the budget is spent
+}
+
+/**
+ * How retrieved chunks are reranked before prompting
+ */
+export type RerankerType = 'none' | 'cross-encoder' | 'llm';
+
 /**
  * RAG system settings
  */
@@ -205,6 +315,10 @@ export interface RAGSettings {
   enableStreaming: boolean;      // Stream responses
   chunkOverlap: number;          // Overlap between chunks
   embeddingModel: string;        // Model for embeddings
+  reranker: RerankerType;        // Rerank retrieved chunks before prompting
+  rerankerModel: string;         // Cross-encoder model (transformers.js)
+  rerankCandidates: number;      // Chunks retrieved for the reranker
+  rerankTopK: number;            // Chunks kept after reranking
 }
 
 // ============================================================================
@@ -287,6 +401,7 @@ export const PROVIDER_COSTS: Record<AIProvider, { input: number; output: number
   ollama: { input: 0, output: 0 },            // Free (local)
   anthropic: { input: 0.25, output: 1.25 },   // Claude Haiku
   groq: { input: 0, output: 0 },              // Free tier
+  'openai-compatible': { input: 0, output: 0 }, // Self-hosted
 };
 
 /**
@@ -297,7 +412,8 @@ export const DEFAULT_MODELS: Record<AIProvider, string> = {
   gemini: 'gemini-1.5-flash-latest',
   ollama: 'llama3.1',
   anthropic: 'claude-3-haiku-20240307',
-  groq: 'llama-3.1-70b-versatile',
+  groq: 'llama-3.3-70b-versatile',
+  'openai-compatible': '', // Discovered from the server
 };
 
 /**
@@ -309,4 +425,5 @@ export const PROVIDER_NAMES: Record<AIProvider, string> = {
   ollama: 'Ollama (Local)',
   anthropic: 'Anthropic Claude',
   groq: 'Groq',
+  'openai-compatible': 'OpenAI-compatible (vLLM, LM Studio, llama.cpp)',
 };
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Provider Usage & Cost
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  blockedProviders,
+  budgetStatus,
+  dailySpend,
+  DEFAULT_USAGE_BUDGET,
+  estimateCost,
+  queriesByFolder,
+  summarizeByProvider,
+  toUsageEntry,
+} from './usage';
+import type { UsageRecord } from '../../utils/persistentStorage';
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  id: 'usage_1',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  operation: 'complete',
+  purpose: 'answer',
+  promptTokens: 1000,
+  completionTokens: 200,
+  totalTokens: 1200,
+  latencyMs: 800,
+  costUsd: 0.01,
+  createdAt: new Date(2024, 4, 31, 10).getTime(),
+  ...overrides,
+});
+
+describe('usage', () => {
+  it('should price calls per million tokens', () => {
+    expect(estimateCost('openai', 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+    expect(estimateCost('ollama', 5000, 5000)).toBe(0);
+
+    expect(
+      toUsageEntry({
+        provider: 'anthropic',
+        model: 'claude-3-haiku-20240307',
+        operation: 'stream',
+        tag: { purpose: 'answer', folderId: 'qcvn' },
+        promptTokens: 4000,
+        completionTokens: 400,
+        latencyMs: 2100,
+      })
+    ).toMatchObject({ folderId: 'qcvn', purpose: 'answer', totalTokens: 4400, costUsd: 0.0015 });
+  });
+
+  it('should warn near the budget and block paid providers once it is spent', () => {
+    const budget = { ...DEFAULT_USAGE_BUDGET, monthlyBudgetUsd: 10, blockWhenExceeded: true };
+
+    expect(budgetStatus(5, budget)).toBe('ok');
+    expect(budgetStatus(8, budget)).toBe('warning');
+    expect(budgetStatus(10, budget)).toBe('exceeded');
+    expect(budgetStatus(50, DEFAULT_USAGE_BUDGET)).toBe('none');
+
+    expect(blockedProviders(9, budget)).toEqual([]);
+    expect(blockedProviders(10, budget)).toEqual(['openai', 'gemini', 'anthropic']);
+    expect(blockedProviders(10, { ...budget, blockWhenExceeded: false })).toEqual([]);
+  });
+
+  it('should total spend per day and provider', () => {
+    const now = new Date(2024, 4, 31, 18).getTime();
+    const rows = dailySpend(
+      [
+        record({ costUsd: 0.02 }),
+        record({ costUsd: 0.03 }),
+        record({ provider: 'gemini', costUsd: 0.01, createdAt: new Date(2024, 4, 30, 9).getTime() }),
+        record({ createdAt: new Date(2024, 3, 1).getTime() }), // Outside the range
+      ],
+      3,
+      now
+    );
+
+    expect(rows.map((row) => row.date)).toEqual(['2024-05-29', '2024-05-30', '2024-05-31']);
+    expect(rows[1]).toEqual({ date: '2024-05-30', gemini: 0.01 });
+    expect(rows[2].openai).toBeCloseTo(0.05);
+  });
+
+  it('should count answered questions per folder and summarize providers', () => {
+    const records = [
+      record({ folderId: 'qcvn' }),
+      record({ folderId: 'qcvn', provider: 'ollama', costUsd: 0 }),
+      record({ folderId: 'qcvn', purpose: 'rewrite' }),
+      record({ folderId: 'tcvn', error: 'Rate limit exceeded' }),
+      record({}),
+    ];
+
+    expect(queriesByFolder(records)).toEqual([
+      { folderId: 'qcvn', queries: 2 },
+      { folderId: undefined, queries: 1 },
+    ]);
+
+    const [openai, ollama] = summarizeByProvider(records);
+    expect(openai).toMatchObject({ provider: 'openai', requestCount: 4, totalTokens: 4800 });
+    expect(openai.estimatedCost).toBeCloseTo(0.04);
+    expect(ollama).toMatchObject({ provider: 'ollama', requestCount: 1, estimatedCost: 0 });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Provider Usage & Cost
+ * Turns the calls reported by providers into usage records priced from PROVIDER_COSTS,
+ * aggregates them for the usage dashboard, and applies the monthly budget: past the
+ * budget, paid providers can be taken out of rotation until the month ends.
+ */
+
+import type { AIProvider, ProviderUsage, UsageBudget, UsageEvent } from './types';
+import { PROVIDER_COSTS } from './types';
+import type { UsageRecord } from '../../utils/persistentStorage';
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  monthlyBudgetUsd: 0,
+  alertThreshold: 0.8,
+  blockWhenExceeded: false,
+};
+
+/**
+ * Estimated cost in USD (PROVIDER_COSTS are per 1M tokens)
+ */
+export function estimateCost(provider: AIProvider, promptTokens: number, completionTokens: number): number {
+  const { input, output } = PROVIDER_COSTS[provider];
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+/**
+ * Whether a provider charges for tokens
+ */
+export function isPaidProvider(provider: AIProvider): boolean {
+  const { input, output } = PROVIDER_COSTS[provider];
+  return input > 0 || output > 0;
+}
+
+/**
+ * Usage record for a reported call, before it is stored
+ */
+export function toUsageEntry(event: UsageEvent): Omit<UsageRecord, 'id' | 'createdAt'> {
+  const { tag, ...call } = event;
+  return {
+    ...call,
+    purpose: tag?.purpose,
+    folderId: tag?.folderId,
+    totalTokens: event.promptTokens + event.completionTokens,
+    costUsd: estimateCost(event.provider, event.promptTokens, event.completionTokens),
+  };
+}
+
+/**
+ * Start of the calendar month (local time) containing `now`
+ */
+export function startOfMonth(now: number = Date.now()): number {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+export function totalCost(records: UsageRecord[]): number {
+  return records.reduce((sum, record) => sum + record.costUsd, 0);
+}
+
+/**
+ * Where the month's spending stands against the budget
+ */
+export function budgetStatus(spentUsd: number, budget: UsageBudget): 'none' | 'ok' | 'warning' | 'exceeded' {
+  if (budget.monthlyBudgetUsd <= 0) return 'none';
+  if (spentUsd >= budget.monthlyBudgetUsd) return 'exceeded';
+  return spentUsd >= budget.monthlyBudgetUsd * budget.alertThreshold ? 'warning' : 'ok';
+}
+
+/**
+ * Providers to stop using for the rest of the month: the paid ones, once the budget is
+ * spent and blocking is on
+ */
+export function blockedProviders(spentUsd: number, budget: UsageBudget): AIProvider[] {
+  if (!budget.blockWhenExceeded || budgetStatus(spentUsd, budget) !== 'exceeded') {
+    return [];
+  }
+  return (Object.keys(PROVIDER_COSTS) as AIProvider[]).filter(isPaidProvider);
+}
+
+/**
+ * Totals per provider, most expensive first
+ */
+export function summarizeByProvider(records: UsageRecord[]): ProviderUsage[] {
+  const totals = new Map<AIProvider, ProviderUsage>();
+  for (const record of records) {
+    const usage = totals.get(record.provider) ?? {
+      provider: record.provider,
+      requestCount: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+    };
+    usage.requestCount++;
+    usage.totalTokens += record.totalTokens;
+    usage.estimatedCost += record.costUsd;
+    usage.lastUsed = Math.max(usage.lastUsed ?? 0, record.createdAt);
+    totals.set(record.provider, usage);
+  }
+  return [...totals.values()].sort((a, b) => b.estimatedCost - a.estimatedCost || b.requestCount - a.requestCount);
+}
+
+/**
+ * Local calendar day of a timestamp, e.g. "2024-05-31"
+ */
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Spend per day and provider over the last `days` days (including today), one row per
+ * day with a cost column per provider
+ */
+export function dailySpend(
+  records: UsageRecord[],
+  days: number,
+  now: number = Date.now()
+): Array<{ date: string } & Partial<Record<AIProvider, number>>> {
+  const today = new Date(now);
+  const rows = new Map<string, { date: string } & Partial<Record<AIProvider, number>>>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset).getTime());
+    rows.set(date, { date });
+  }
+
+  for (const record of records) {
+    const row = rows.get(dayKey(record.createdAt));
+    if (!row) continue;
+    row[record.provider] = (row[record.provider] ?? 0) + record.costUsd;
+  }
+  return [...rows.values()];
+}
+
+/**
+ * Answered questions per folder, busiest first; questions across all folders have no folderId
+ */
+export function queriesByFolder(records: UsageRecord[]): Array<{ folderId?: string; queries: number }> {
+  const counts = new Map<string | undefined, number>();
+  for (const record of records) {
+    if (record.purpose !== 'answer' || record.error) continue;
+    counts.set(record.folderId, (counts.get(record.folderId) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([folderId, queries]) => ({ folderId, queries }))
+    .sort((a, b) => b.queries - a.queries);
+}
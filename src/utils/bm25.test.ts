@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for BM25 Scoring and Rank Fusion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tokenize, termFrequencies, rankByBM25, reciprocalRankFusion } from './bm25';
+
+describe('BM25', () => {
+  describe('tokenize', () => {
+    it('should split regulation codes into searchable parts', () => {
+      expect(tokenize('QCVN 06:2022/BXD')).toEqual(['qcvn', '06', 'qcvn_06', '2022', '06_2022', 'bxd', '2022_bxd']);
+    });
+
+    it('should count term frequencies', () => {
+      expect(termFrequencies(['a', 'b', 'a'])).toEqual({ a: 2, b: 1 });
+    });
+  });
+
+  describe('rankByBM25', () => {
+    const texts = [
+      'Công trình phải tuân thủ quy chuẩn về an toàn cháy.',
+      'Yêu cầu theo QCVN 06:2022/BXD về an toàn cháy cho nhà và công trình.',
+      'Tải trọng và tác động theo TCVN 2737.',
+      'Công trình công cộng phải có lối thoát nạn.'
+    ];
+
+    it('should rank the chunk containing the exact code first', () => {
+      const results = rankByBM25('QCVN 06:2022/BXD', texts, text => text);
+      expect(results[0].item).toBe(texts[1]);
+    });
+
+    it('should prefer rare terms over common ones', () => {
+      const results = rankByBM25('công trình TCVN 2737', texts, text => text);
+      expect(results[0].item).toBe(texts[2]);
+    });
+
+    it('should match unaccented queries against accented text', () => {
+      const results = rankByBM25('loi thoat nan', texts, text => text);
+      expect(results[0].item).toBe(texts[3]);
+    });
+
+    it('should return nothing when no term matches', () => {
+      expect(rankByBM25('thang máy', texts, text => text)).toEqual([]);
+      expect(rankByBM25('', texts, text => text)).toEqual([]);
+    });
+  });
+
+  describe('reciprocalRankFusion', () => {
+    it('should favour items ranked well in several lists', () => {
+      const fused = reciprocalRankFusion([
+        ['a', 'b', 'c'],
+        ['b', 'c', 'd']
+      ]);
+      expect(fused.map(result => result.id)).toEqual(['b', 'c', 'a', 'd']);
+    });
+
+    it('should use 1 / (k + rank) scores', () => {
+      const [top] = reciprocalRankFusion([['a']], 60);
+      expect(top.score).toBeCloseTo(1 / 61);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * BM25 Keyword Scoring
+ * Tokenization, BM25 term scoring and reciprocal rank fusion used by the
+ * keyword index (persistentStorage) and hybrid retrieval (RAGEngine)
+ */
+
+import { tokenizeVietnamese } from './vietnameseText';
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+/**
+ * Default constant for reciprocal rank fusion (Cormack et al.)
+ */
+export const RRF_K = 60;
+
+/**
+ * Document representation needed for BM25 scoring
+ */
+export interface BM25Document {
+  id: string;
+  termFreqs: Record<string, number>;
+  length: number;
+}
+
+/**
+ * Corpus statistics needed for BM25 scoring
+ */
+export interface BM25Stats {
+  documentCount: number;
+  averageLength: number;
+  documentFrequency: (term: string) => number;
+}
+
+/**
+ * Split text into search tokens (Vietnamese-aware, diacritic-insensitive)
+ * Codes such as "QCVN 06:2022/BXD" yield "qcvn", "06", "2022", "bxd" plus compounds
+ */
+export function tokenize(text: string): string[] {
+  if (!text) return [];
+  return tokenizeVietnamese(text);
+}
+
+/**
+ * Count term occurrences
+ */
+export function termFrequencies(tokens: string[]): Record<string, number> {
+  const freqs: Record<string, number> = {};
+  for (const token of tokens) {
+    freqs[token] = (freqs[token] || 0) + 1;
+  }
+  return freqs;
+}
+
+/**
+ * Inverse document frequency (BM25+ style, never negative)
+ */
+export function inverseDocumentFrequency(documentFrequency: number, documentCount: number): number {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * BM25 score of a document for the given query terms
+ */
+export function bm25Score(queryTerms: string[], document: BM25Document, stats: BM25Stats): number {
+  let score = 0;
+  const lengthNorm = 1 - BM25_B + BM25_B * (document.length / (stats.averageLength || 1));
+
+  for (const term of new Set(queryTerms)) {
+    const tf = document.termFreqs[term];
+    if (!tf) continue;
+
+    const idf = inverseDocumentFrequency(stats.documentFrequency(term), stats.documentCount);
+    score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+  }
+
+  return score;
+}
+
+/**
+ * Rank an in-memory collection of texts with BM25 (corpus = the collection itself)
+ */
+export function rankByBM25<T>(
+  query: string,
+  items: T[],
+  getText: (item: T) => string
+): Array<{ item: T; score: number }> {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0 || items.length === 0) return [];
+
+  const documents = items.map((item, i) => {
+    const tokens = tokenize(getText(item));
+    return { id: String(i), termFreqs: termFrequencies(tokens), length: tokens.length };
+  });
+
+  const documentFrequencies = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of Object.keys(doc.termFreqs)) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+  }
+
+  const stats: BM25Stats = {
+    documentCount: documents.length,
+    averageLength: documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length,
+    documentFrequency: term => documentFrequencies.get(term) || 0
+  };
+
+  return documents
+    .map((doc, i) => ({ item: items[i], score: bm25Score(queryTerms, doc, stats) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reciprocal rank fusion: combine several ranked id lists into one score per id
+ * score(id) = Σ 1 / (k + rank), rank starting at 1
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
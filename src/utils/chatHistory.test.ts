@@ -0,0 +1,40 @@
+/**
+ * Unit Tests for Chat Session Helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createConversationTitle, toChatHistory, UNTITLED_CONVERSATION } from './chatHistory';
+import type { StoredMessage } from './persistentStorage';
+
+describe('Chat History', () => {
+  it('should use short questions as the title', () => {
+    expect(createConversationTitle('  Chiều cao   tối đa của chung cư?  ')).toBe('Chiều cao tối đa của chung cư?');
+    expect(createConversationTitle('   ')).toBe(UNTITLED_CONVERSATION);
+  });
+
+  it('should cut long questions at a word boundary', () => {
+    const title = createConversationTitle(
+      'Theo QCVN 06:2022, khoảng cách tối thiểu giữa hai lối thoát nạn của nhà chung cư cao tầng là bao nhiêu mét?'
+    );
+
+    expect(title.length).toBeLessThanOrEqual(61);
+    expect(title.endsWith('…')).toBe(true);
+    expect(title).toBe('Theo QCVN 06:2022, khoảng cách tối thiểu giữa hai lối thoát…');
+  });
+
+  it('should leave failed answers out of the history', () => {
+    const message = (role: 'user' | 'assistant', content: string, error?: boolean): StoredMessage =>
+      ({ id: content, conversationId: 'c', role, content, error, createdAt: 0 });
+
+    expect(toChatHistory([
+      message('user', 'Câu hỏi 1'),
+      message('assistant', '❌ Lỗi: offline', true),
+      message('user', 'Câu hỏi 2'),
+      message('assistant', 'Trả lời 2', false)
+    ])).toEqual([
+      { role: 'user', content: 'Câu hỏi 1' },
+      { role: 'user', content: 'Câu hỏi 2' },
+      { role: 'assistant', content: 'Trả lời 2' }
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Chat session helpers: session titles and the history sent with follow-up questions
+ */
+
+import type { ChatMessage } from '@/services/ai/types';
+import type { StoredMessage } from './persistentStorage';
+
+const MAX_TITLE_LENGTH = 60;
+
+export const UNTITLED_CONVERSATION = 'Cuộc trò chuyện mới';
+
+/**
+ * Session title from its first question, cut at a word boundary
+ */
+export function createConversationTitle(question: string): string {
+  const text = question.trim().replace(/\s+/g, ' ');
+  if (!text) return UNTITLED_CONVERSATION;
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[,.;:?!]+$/, '')}…`;
+}
+
+/**
+ * Stored messages as RAG history; failed answers are left out
+ */
+export function toChatHistory(messages: StoredMessage[]): ChatMessage[] {
+  return messages
+    .filter(message => !message.error)
+    .map(({ role, content }) => ({ role, content }));
+}
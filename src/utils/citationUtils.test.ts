@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Citation Formatting and Parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatSourceCitation, parseCitations } from './citationUtils';
+
+const sources = ['A', 'B', 'C'];
+
+describe('Citations', () => {
+  it('should format page ranges', () => {
+    expect(formatSourceCitation({ documentName: 'Luật Xây dựng 2020', pageStart: 47 })).toBe('Luật Xây dựng 2020, tr. 47');
+    expect(formatSourceCitation({ documentName: 'QCVN 06', pageStart: 3, pageEnd: 5 })).toBe('QCVN 06, tr. 3–5');
+    expect(formatSourceCitation({ documentName: 'Quy chuẩn.docx' })).toBe('Quy chuẩn.docx');
+  });
+
+  it('should split an answer into text and citations', () => {
+    const { segments, cited } = parseCitations('Chiều cao tối đa 150 m [2]. Lối thoát nạn [1][3].', sources);
+
+    expect(segments).toEqual([
+      { type: 'text', text: 'Chiều cao tối đa 150 m ' },
+      { type: 'citation', number: 2, source: 'B' },
+      { type: 'text', text: '. Lối thoát nạn ' },
+      { type: 'citation', number: 1, source: 'A' },
+      { type: 'citation', number: 3, source: 'C' },
+      { type: 'text', text: '.' }
+    ]);
+    expect(cited).toEqual([2, 1, 3]);
+  });
+
+  it('should expand grouped markers and ranges', () => {
+    expect(parseCitations('x [1, 3]', sources).cited).toEqual([1, 3]);
+    expect(parseCitations('x [1-3]', sources).cited).toEqual([1, 2, 3]);
+    expect(parseCitations('x [Tài liệu 2]', sources).cited).toEqual([2]);
+  });
+
+  it('should drop markers that point at no source', () => {
+    const { segments, cited, invalid } = parseCitations('Theo [4] và [2].', sources);
+
+    expect(invalid).toEqual([4]);
+    expect(cited).toEqual([2]);
+    expect(segments).toEqual([
+      { type: 'text', text: 'Theo  và ' },
+      { type: 'citation', number: 2, source: 'B' },
+      { type: 'text', text: '.' }
+    ]);
+  });
+
+  it('should leave bracketed years alone', () => {
+    expect(parseCitations('QCVN 06 [2022]', sources).segments).toEqual([{ type: 'text', text: 'QCVN 06 [2022]' }]);
+  });
+});
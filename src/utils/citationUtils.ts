@@ -0,0 +1,89 @@
+/**
+ * Citation formatting helpers
+ * Builds human-readable source references such as "Luật Xây dựng 2020, tr. 47"
+ */
+
+/**
+ * Format a page range using the Vietnamese abbreviation "tr." (trang)
+ * Returns an empty string when the page range is unknown (e.g. DOCX sources)
+ */
+export function formatPageRange(pageStart?: number, pageEnd?: number): string {
+  if (!pageStart) return '';
+  if (!pageEnd || pageEnd === pageStart) return `tr. ${pageStart}`;
+  return `tr. ${pageStart}–${pageEnd}`;
+}
+
+/**
+ * Format a full source citation: document name followed by page range if known
+ */
+export function formatSourceCitation(source: {
+  documentName: string;
+  pageStart?: number;
+  pageEnd?: number;
+}): string {
+  const pages = formatPageRange(source.pageStart, source.pageEnd);
+  return pages ? `${source.documentName}, ${pages}` : source.documentName;
+}
+
+/**
+ * Piece of an answer: plain text or a citation marker resolved to its source
+ */
+export type CitationSegment<S> =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; number: number; source: S };
+
+// [1], [1, 3], [2-4], [Tài liệu 2]; longer numbers (e.g. years) are not markers
+const CITATION_MARKER_PATTERN = /\[(?:tài liệu\s*)?(\d{1,2}(?:\s*[,;–-]\s*\d{1,2})*)\]/giu;
+
+function expandMarker(body: string): number[] {
+  const numbers: number[] = [];
+  for (const part of body.split(/\s*[,;]\s*/)) {
+    const [start, end] = part.split(/\s*[–-]\s*/).map(Number);
+    if (end === undefined) {
+      numbers.push(start);
+    } else {
+      for (let n = start; n <= end && n - start < 20; n++) numbers.push(n);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Split an answer into text and citation markers numbered like the context blocks
+ * (1-based indexes into `sources`). Markers pointing at no source are dropped and reported.
+ */
+export function parseCitations<S>(answer: string, sources: S[]): {
+  segments: CitationSegment<S>[];
+  cited: number[];   // Valid citation numbers, in order of first use
+  invalid: number[]; // Numbers the model made up
+} {
+  const segments: CitationSegment<S>[] = [];
+  const cited: number[] = [];
+  const invalid: number[] = [];
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const previous = segments[segments.length - 1];
+    if (previous?.type === 'text') previous.text += text;
+    else segments.push({ type: 'text', text });
+  };
+
+  for (const match of answer.matchAll(CITATION_MARKER_PATTERN)) {
+    pushText(answer.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    for (const number of expandMarker(match[1])) {
+      const source = sources[number - 1];
+      if (source === undefined) {
+        if (!invalid.includes(number)) invalid.push(number);
+        continue;
+      }
+      if (!cited.includes(number)) cited.push(number);
+      segments.push({ type: 'citation', number, source });
+    }
+  }
+  pushText(answer.slice(last));
+
+  return { segments, cited, invalid };
+}
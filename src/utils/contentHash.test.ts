@@ -0,0 +1,30 @@
+/**
+ * Unit Tests for Content Hashing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sha256Hex, hashFile, hashText } from './contentHash';
+
+describe('Content Hashing', () => {
+  it('should produce the standard SHA-256 digest', async () => {
+    expect(await sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('should hash file bytes like the equivalent string', async () => {
+    // jsdom's Blob has no arrayBuffer(), so provide the bytes directly
+    const bytes = new TextEncoder().encode('Điều 1. Phạm vi điều chỉnh');
+    const file = { arrayBuffer: async () => bytes.buffer } as Blob;
+    expect(await hashFile(file)).toBe(await sha256Hex('Điều 1. Phạm vi điều chỉnh'));
+  });
+
+  it('should treat precomposed and combining Vietnamese text as equal', async () => {
+    const precomposed = 'Tầng hầm';
+    const combining = precomposed.normalize('NFD');
+    expect(combining).not.toBe(precomposed);
+    expect(await hashText(combining)).toBe(await hashText(precomposed));
+  });
+
+  it('should distinguish different texts', async () => {
+    expect(await hashText('Khoản 1')).not.toBe(await hashText('Khoản 2'));
+  });
+});
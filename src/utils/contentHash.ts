@@ -0,0 +1,30 @@
+/**
+ * Content Hashing
+ * SHA-256 (WebCrypto) of uploaded files and chunk texts, used to detect duplicate
+ * uploads and to reuse embeddings of unchanged chunks when a document is replaced
+ */
+
+import { normalizeVietnamese } from './vietnameseText';
+
+/**
+ * Hex-encoded SHA-256 digest
+ */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash of a file's bytes
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  return sha256Hex(await file.arrayBuffer());
+}
+
+/**
+ * Hash of chunk text; NFC-normalized so the same text from different extractions compares equal
+ */
+export async function hashText(text: string): Promise<string> {
+  return sha256Hex(normalizeVietnamese(text));
+}
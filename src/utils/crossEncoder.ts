@@ -0,0 +1,91 @@
+/**
+ * Cross-encoder Scoring
+ * Scores (query, passage) pairs with a transformers.js sequence-classification model.
+ * Unlike bi-encoder embeddings, the model reads the query and passage together,
+ * which ranks the clause that answers the question above loosely related text.
+ */
+
+import { AutoModelForSequenceClassification, AutoTokenizer } from '@huggingface/transformers';
+import { WorkerPool, WorkerTaskOptions, canSpawnWorkers } from './performance';
+import type { RerankTask } from '@/workers/workerProtocol';
+
+/**
+ * Multilingual reranker (handles Vietnamese)
+ */
+export const DEFAULT_RERANKER_MODEL = 'onnx-community/bge-reranker-v2-m3-ONNX';
+
+// Pairs per model call
+const RERANK_BATCH_SIZE = 8;
+
+export interface CrossEncoder {
+  tokenizer: Awaited<ReturnType<typeof AutoTokenizer.from_pretrained>>;
+  model: Awaited<ReturnType<typeof AutoModelForSequenceClassification.from_pretrained>>;
+}
+
+const crossEncoders = new Map<string, Promise<CrossEncoder>>();
+
+/**
+ * Load a cross-encoder once per model in this thread
+ */
+export function loadCrossEncoder(modelId: string): Promise<CrossEncoder> {
+  let loading = crossEncoders.get(modelId);
+  if (!loading) {
+    loading = (async () => ({
+      tokenizer: await AutoTokenizer.from_pretrained(modelId),
+      model: await AutoModelForSequenceClassification.from_pretrained(modelId, { dtype: 'q8' })
+    }))();
+    // A failed load may be retried later
+    loading.catch(() => crossEncoders.delete(modelId));
+    crossEncoders.set(modelId, loading);
+  }
+  return loading;
+}
+
+/**
+ * Relevance of each passage to the query, 0-1 (sigmoid of the model's logit)
+ */
+export async function scorePassages(
+  { tokenizer, model }: CrossEncoder,
+  query: string,
+  texts: string[],
+  options: { signal?: AbortSignal } = {}
+): Promise<number[]> {
+  const scores: number[] = [];
+
+  for (let i = 0; i < texts.length; i += RERANK_BATCH_SIZE) {
+    options.signal?.throwIfAborted();
+    const batch = texts.slice(i, i + RERANK_BATCH_SIZE);
+    const inputs = tokenizer(new Array(batch.length).fill(query), {
+      text_pair: batch,
+      padding: true,
+      truncation: true
+    });
+    const { logits } = await model(inputs);
+    scores.push(...(logits.sigmoid().tolist() as number[][]).map(([score]) => score));
+  }
+
+  return scores;
+}
+
+let rerankPool: WorkerPool | null = null;
+
+/**
+ * Score passages in the rerank worker; runs in the current thread when workers are unavailable
+ */
+export async function rerankTexts(
+  query: string,
+  texts: string[],
+  modelId: string,
+  options: WorkerTaskOptions = {}
+): Promise<number[]> {
+  if (!canSpawnWorkers()) {
+    return await scorePassages(await loadCrossEncoder(modelId), query, texts, { signal: options.signal });
+  }
+
+  rerankPool ??= new WorkerPool(
+    () => new Worker(new URL('../workers/rerankWorker.ts', import.meta.url), { type: 'module' }),
+    1
+  );
+  const task: RerankTask = { query, texts, model: modelId };
+  return await rerankPool.execute<number[]>(task, options);
+}
@@ -1,235 +1,240 @@
 
-import { VectorChunk } from './vectorUtils';
+import { MOCK_EMBEDDING_MODEL, BatchEmbedder } from './vectorUtils';
+import { EmbeddingVector } from './embeddingCodec';
+import { hashText } from './contentHash';
 import { addChunksToVectorStore } from './vectorStoreUtils';
-import { smartExtractText, OcrProgressCallback } from './ocrEngine';
+import { smartExtractText, OcrProgressCallback, ExtractedPage, ExtractionResult } from './ocrEngine';
+import { chunkText, chunkPages, chunkLegalText, chunkLegalPages, isLegalDocument, TextChunk } from './textChunker';
 import { embeddingCache, perfMonitor } from './performance';
-import { DocumentStorage, ChunkStorage } from './persistentStorage';
+import { DocumentStorage, DocumentFileStorage, ChunkStorage, NewChunk } from './persistentStorage';
+import { DocumentVersionInfo, parseRegulationCode, linkVersions } from './documentVersioning';
 
 /**
  * Constants for text extraction
  */
 const CHUNK_SIZE = 500; // Size of text chunks in characters
 const CHUNK_OVERLAP = 100; // Overlap between chunks to maintain context
+const LEGAL_MAX_CHUNK_SIZE = 1500; // Legal articles are kept whole up to this size
 
 /**
  * Progress callback type
  */
-type ProgressCallback = (progress: number) => void;
+export type ProgressCallback = (progress: number) => void;
 
 /**
- * Process a document file (PDF or DOCX) - Production Version with Real OCR
+ * Text chunk with the SHA-256 of its text
  */
-export async function processDocument(
+export interface HashedTextChunk extends TextChunk {
+  contentHash: string;
+}
+
+/**
+ * Unique document ID; the content hash prefix only aids debugging
+ * (a replaced document keeps its ID while its hash changes)
+ */
+export function createDocumentId(contentHash: string): string {
+  return `doc_${Date.now().toString(36)}_${contentHash.slice(0, 8)}`;
+}
+
+/**
+ * Extract stage: text (and pages for PDFs) via the text layer or OCR; progress 5-60%
+ */
+export async function extractDocument(
   file: File,
-  folderId: string,
-  documentName: string,
   onProgress: ProgressCallback,
-  embeddingPipeline: any
-): Promise<{ chunks: number; method: 'text' | 'ocr' }> {
-  perfMonitor.mark('processDocument-start');
-  
-  try {
-    // Initial progress update
-    onProgress(5);
-    
-    // Read the file using real OCR engine
-    const ocrCallback: OcrProgressCallback = (ocrProgress) => {
-      // Map OCR progress (0-60%) to overall progress (5-60%)
-      const mappedProgress = 5 + (ocrProgress.progress * 0.55);
-      onProgress(mappedProgress);
-    };
-    
-    const { text, method } = await smartExtractText(file, ocrCallback);
-    
-    perfMonitor.mark('extraction-complete');
-    perfMonitor.measure('Text Extraction', 'processDocument-start', 'extraction-complete');
-    
-    onProgress(60);
-    
-    // Split text into chunks
-    const chunks = chunkText(text, CHUNK_SIZE, CHUNK_OVERLAP);
-    
-    onProgress(70);
-    
-    // Generate embeddings and store chunks
-    await processChunks(chunks, documentName, folderId, file.name, embeddingPipeline, onProgress);
-    
-    perfMonitor.mark('processDocument-end');
-    perfMonitor.measure('Total Processing', 'processDocument-start', 'processDocument-end');
-    
-    // Save document to persistent storage
-    await DocumentStorage.save({
-      id: `${documentName}_${Date.now()}`,
-      name: documentName,
-      type: file.name.toLowerCase().endsWith('.pdf') ? 'pdf' : 'docx',
-      size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
-      dateAdded: new Date().toISOString().split('T')[0],
-      folderId: folderId,
-      content: text,
-      processingMethod: method,
-      chunks: chunks.map((_, i) => `${documentName}_${i}`)
-    });
-    
-    onProgress(100);
-    
-    return { chunks: chunks.length, method };
-  } catch (error) {
-    perfMonitor.mark('processDocument-error');
-    console.error('Error in processDocument:', error);
-    throw error;
-  }
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  onProgress(5);
+  
+  const ocrCallback: OcrProgressCallback = (ocrProgress) => {
+    // Map OCR progress (0-100%) to overall progress (5-60%)
+    onProgress(5 + (ocrProgress.progress * 0.55));
+  };
+  
+  const result = await smartExtractText(file, ocrCallback, signal);
+  onProgress(60);
+  return result;
 }
 
-// Note: extractTextFromFile, simulatePdfTextExtraction, simulateDocxTextExtraction,
-// and generateVietnameseText functions are now replaced by real OCR implementation
-// in ocrEngine.ts
-
 /**
- * Split text into overlapping chunks
+ * Store stage: save chunks (with indexes) and the document record; returns the document ID.
+ * Chunk IDs derive from the document ID, so re-running after an interruption overwrites instead of
+ * duplicating. When replacing, chunks of the previous version that no longer exist are deleted.
+ * The original file, when given, is kept for the document viewer.
  */
-function chunkText(text: string, chunkSize: number, overlap: number): string[] {
-  const chunks: string[] = [];
+export async function storeDocument(
+  file: { name: string; size: number },
+  documentName: string,
+  folderId: string,
+  extracted: ExtractionResult,
+  vectorChunks: NewChunk[],
+  options: { documentId: string; contentHash?: string; replace?: boolean; original?: Blob }
+): Promise<string> {
+  const { documentId, contentHash, replace, original } = options;
   
-  if (!text || text.length === 0) {
-    return chunks;
+  // A replacement keeps the version metadata (effective dates, supersession) of the document it replaces
+  let versionInfo: DocumentVersionInfo = {};
+  if (replace) {
+    const previous = await DocumentStorage.get(documentId);
+    const kept = new Set(vectorChunks.map(chunk => chunk.id));
+    const removed = (previous?.chunks ?? []).filter(id => !kept.has(id));
+    if (removed.length > 0) {
+      await ChunkStorage.deleteMany(removed);
+    }
+    if (previous) {
+      const { effectiveFrom, expiredOn, supersededBy, supersedes } = previous;
+      versionInfo = { effectiveFrom, expiredOn, supersededBy, supersedes };
+    }
+  }
+  const regulation = parseRegulationCode(documentName);
+  if (regulation) {
+    versionInfo = { ...versionInfo, regulationCode: regulation.code, version: regulation.version };
   }
   
-  let startIndex = 0;
-  
-  while (startIndex < text.length) {
-    // Determine end index for this chunk
-    let endIndex = startIndex + chunkSize;
-    
-    // If we're not at the end of the text, try to find a sentence or paragraph break
-    if (endIndex < text.length) {
-      // Look for paragraph break first
-      const paragraphBreakIndex = text.indexOf('\n\n', endIndex - 100);
-      if (paragraphBreakIndex !== -1 && paragraphBreakIndex < endIndex + 100) {
-        endIndex = paragraphBreakIndex;
-      } else {
-        // Look for sentence break (period followed by space)
-        const sentenceBreakIndex = text.indexOf('. ', endIndex - 50);
-        if (sentenceBreakIndex !== -1 && sentenceBreakIndex < endIndex + 50) {
-          endIndex = sentenceBreakIndex + 1; // Include the period
-        }
-      }
-    } else {
-      endIndex = text.length;
-    }
-    
-    // Add this chunk
-    chunks.push(text.substring(startIndex, endIndex).trim());
-    
-    // Move start index for next chunk, accounting for overlap
-    startIndex = endIndex - overlap;
-    
-    // Make sure we're making progress
-    if (startIndex >= text.length || startIndex <= 0) {
-      break;
+  // Store chunks in both memory and persistent storage
+  await addChunksToVectorStore(vectorChunks);
+  await ChunkStorage.saveBulk(vectorChunks);
+  
+  // Keep the original for the document viewer
+  if (original) {
+    await DocumentFileStorage.save(documentId, original, file.name);
+  }
+  
+  // Save document to persistent storage
+  await DocumentStorage.save({
+    ...versionInfo,
+    id: documentId,
+    contentHash,
+    name: documentName,
+    type: file.name.toLowerCase().endsWith('.pdf') ? 'pdf' : 'docx',
+    size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
+    dateAdded: new Date().toISOString().split('T')[0],
+    folderId: folderId,
+    content: extracted.text,
+    processingMethod: extracted.method,
+    chunks: vectorChunks.map(chunk => chunk.id),
+    metadata: extracted.pages ? { pageCount: extracted.pages.length } : undefined
+  });
+  
+  // A newer issue of the same regulation supersedes the older ones
+  if (regulation) {
+    const versions = await DocumentStorage.findByRegulationCode(regulation.code);
+    for (const { id, changes } of linkVersions(versions)) {
+      await DocumentStorage.update(id, changes);
     }
   }
   
-  return chunks;
+  return documentId;
 }
 
+// Note: extractTextFromFile, simulatePdfTextExtraction, simulateDocxTextExtraction,
+// and generateVietnameseText functions are now replaced by real OCR implementation
+// in ocrEngine.ts. Chunking lives in textChunker.ts
+
 /**
- * Process text chunks to generate embeddings and store them - Optimized with caching
+ * Split extracted text into chunks - page-aware for PDFs so chunks can cite their pages,
+ * and structure-aware (Chương / Điều / Khoản) for legal documents
  */
-async function processChunks(
-  chunks: string[],
+export function splitIntoChunks(text: string, pages?: ExtractedPage[]): TextChunk[] {
+  if (isLegalDocument(text)) {
+    return pages
+      ? chunkLegalPages(pages, LEGAL_MAX_CHUNK_SIZE, CHUNK_OVERLAP)
+      : chunkLegalText(text, LEGAL_MAX_CHUNK_SIZE, CHUNK_OVERLAP);
+  }
+
+  return pages
+    ? chunkPages(pages, CHUNK_SIZE, CHUNK_OVERLAP)
+    : chunkText(text, CHUNK_SIZE, CHUNK_OVERLAP);
+}
+
+/**
+ * Attach the SHA-256 of each chunk's text
+ */
+export async function hashChunks(chunks: TextChunk[]): Promise<HashedTextChunk[]> {
+  return Promise.all(chunks.map(async chunk => ({ ...chunk, contentHash: await hashText(chunk.text) })));
+}
+
+/**
+ * Embed stage: generate embeddings for text chunks in batches (progress 70-95%) - Optimized with caching.
+ * Chunks whose text hash already exists with the same model reuse that stored embedding.
+ */
+export async function embedChunks(
+  chunks: Array<TextChunk & { contentHash?: string }>,
+  documentId: string,
   documentName: string,
   folderId: string,
-  fileName: string,
-  embeddingPipeline: any,
+  embed: BatchEmbedder,
+  embeddingModel: string,
   onProgress: ProgressCallback
-): Promise<void> {
-  if (!embeddingPipeline) {
-    throw new Error('Embedding pipeline not initialized');
-  }
-  
+): Promise<NewChunk[]> {
   perfMonitor.mark('processChunks-start');
   
-  const vectorChunks: VectorChunk[] = [];
   const startProgress = 70;
   const endProgress = 95;
-  const progressPerChunk = (endProgress - startProgress) / chunks.length;
+  const cacheKey = (text: string) => `${embeddingModel}::${text}`;
   
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    
+  // Unchanged chunks (e.g. from the previous version of a replaced document)
+  const hashes = chunks.map(chunk => chunk.contentHash).filter((hash): hash is string => !!hash);
+  const stored = await ChunkStorage.getByContentHashes(hashes, embeddingModel);
+  const reusable = new Map(stored.map(chunk => [chunk.contentHash!, chunk]));
+  
+  // Then the in-memory cache; only the remaining texts are sent to the model
+  const embeddings: Array<EmbeddingVector | undefined> = chunks.map(chunk =>
+    (chunk.contentHash && reusable.get(chunk.contentHash)?.embedding) || embeddingCache.get(cacheKey(chunk.text)));
+  const scales: Array<number | undefined> = chunks.map(chunk =>
+    chunk.contentHash ? reusable.get(chunk.contentHash)?.embeddingScale : undefined);
+  const models: string[] = chunks.map(() => embeddingModel);
+  const missing = chunks.map((_, i) => i).filter(i => !embeddings[i]);
+  
+  if (stored.length > 0) {
+    console.log(`Reusing ${chunks.length - missing.length}/${chunks.length} embeddings for ${documentName}`);
+  }
+  
+  if (missing.length > 0) {
     try {
-      // Check cache first for performance
-      let embedding: number[] | undefined = embeddingCache.get(chunk);
+      const result = await embed(
+        missing.map(i => chunks[i].text),
+        progress => onProgress(startProgress + (progress / 100) * (endProgress - startProgress))
+      );
       
-      if (!embedding) {
-        // Generate embedding for this chunk
-        perfMonitor.mark(`embedding-${i}-start`);
-        
-        // Check if the pipeline is a mock pipeline (for demo purposes)
-        if (embeddingPipeline.__call) {
-          // Use the mock pipeline's __call method
-          const result = await embeddingPipeline.__call(chunk, { pooling: "mean", normalize: true });
-          embedding = Array.from(result.data) as number[];
-        } else {
-          // Use the real pipeline
-          const result = await embeddingPipeline(chunk, { pooling: "mean", normalize: true });
-          
-          // Check if result has data property
-          if (!result || !result.data) {
-            console.error('Invalid embedding result:', result);
-            // Use mock embedding if result is invalid
-            embedding = Array(384).fill(0).map(() => Math.random() - 0.5);
-          } else {
-            // Convert to array of numbers with proper type assertion
-            embedding = Array.from(result.data) as number[];
-          }
+      missing.forEach((chunkIndex, i) => {
+        embeddings[chunkIndex] = result.embeddings[i];
+        models[chunkIndex] = result.model;
+        // Cache only vectors of the requested model, matching the cache key
+        if (result.model === embeddingModel) {
+          embeddingCache.set(cacheKey(chunks[chunkIndex].text), result.embeddings[i]);
         }
-        
-        // Cache the embedding for future use
-        embeddingCache.set(chunk, embedding);
-        
-        perfMonitor.mark(`embedding-${i}-end`);
-        perfMonitor.measure(`Embedding ${i}`, `embedding-${i}-start`, `embedding-${i}-end`);
-      }
-      
-      // Create vector chunk
-      const vectorChunk: VectorChunk = {
-        id: `${documentName}_${i}`,
-        text: chunk,
-        embedding: embedding,
-        documentId: fileName,
-        documentName: documentName,
-        folderId: folderId
-      };
-      
-      vectorChunks.push(vectorChunk);
-      
-      // Update progress
-      onProgress(startProgress + (i + 1) * progressPerChunk);
+      });
     } catch (error) {
-      console.error('Error generating embedding for chunk:', error);
-      
-      // Use mock embedding for this chunk to allow processing to continue
-      const mockEmbedding = Array(384).fill(0).map(() => Math.random() - 0.5);
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      console.error('Error generating embeddings for chunks:', error);
       
-      vectorChunks.push({
-        id: `${documentName}_${i}`,
-        text: chunk,
-        embedding: mockEmbedding,
-        documentId: fileName,
-        documentName: documentName,
-        folderId: folderId
+      // Use mock embeddings to allow processing to continue; they are labelled so they can be re-embedded
+      missing.forEach(chunkIndex => {
+        embeddings[chunkIndex] = Array(384).fill(0).map(() => Math.random() - 0.5);
+        models[chunkIndex] = MOCK_EMBEDDING_MODEL;
       });
-      
-      // Update progress
-      onProgress(startProgress + (i + 1) * progressPerChunk);
     }
   }
   
+  const vectorChunks: NewChunk[] = chunks.map((chunk, i) => ({
+    id: `${documentId}_${i}`,
+    text: chunk.text,
+    embedding: embeddings[i]!,
+    embeddingScale: scales[i],
+    embeddingModel: models[i],
+    contentHash: chunk.contentHash,
+    documentId: documentId,
+    documentName: documentName,
+    folderId: folderId,
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+    sectionPath: chunk.sectionPath
+  }));
+  
+  onProgress(endProgress);
   perfMonitor.mark('processChunks-end');
   perfMonitor.measure('Process All Chunks', 'processChunks-start', 'processChunks-end');
   
-  // Store chunks in both memory and persistent storage
-  await addChunksToVectorStore(vectorChunks);
-  await ChunkStorage.saveBulk(vectorChunks);
+  return vectorChunks;
 }
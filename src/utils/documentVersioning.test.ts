@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Document Versioning
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRegulationCode,
+  findVersionReferences,
+  getDocumentStatus,
+  getExcludedDocumentIds,
+  linkVersions,
+  DocumentVersionInfo
+} from './documentVersioning';
+
+const qcvn2021 = { id: 'a', regulationCode: 'QCVN 06', version: '2021', supersededBy: 'b', expiredOn: '2023-01-16' };
+const qcvn2022 = { id: 'b', regulationCode: 'QCVN 06', version: '2022', supersedes: 'a', effectiveFrom: '2023-01-16' };
+const law: DocumentVersionInfo & { id: string } = { id: 'c' };
+
+describe('Document Versioning', () => {
+  it('should parse regulation codes from document names', () => {
+    expect(parseRegulationCode('QCVN 06:2022/BXD An toàn cháy')).toEqual({ code: 'QCVN 06', version: '2022' });
+    expect(parseRegulationCode('qcvn 6-2021.pdf')).toEqual({ code: 'QCVN 06', version: '2021' });
+    expect(parseRegulationCode('TCVN 2737:2023')).toEqual({ code: 'TCVN 2737', version: '2023' });
+    expect(parseRegulationCode('Luật Xây dựng 2020')).toBeUndefined();
+  });
+
+  it('should find version references in questions', () => {
+    expect(findVersionReferences('QCVN 06:2021 quy định gì về lối thoát nạn?')).toEqual([
+      { code: 'QCVN 06', version: '2021' }
+    ]);
+    expect(findVersionReferences('Phiên bản 2021 nói gì?')).toEqual([{ version: '2021' }]);
+    expect(findVersionReferences('QCVN 06 bản 2021 quy định gì?')).toEqual([{ code: 'QCVN 06', version: '2021' }]);
+    expect(findVersionReferences('chieu cao tang toi da')).toEqual([]);
+    // Everyday years are not version pins
+    expect(findVersionReferences('Nhà xây năm 2020 cần lối thoát nạn nào?')).toEqual([]);
+    expect(findVersionReferences('Bản 2019 của hồ sơ thiết kế')).toEqual([]);
+  });
+
+  it('should derive status from dates and supersession', () => {
+    expect(getDocumentStatus(qcvn2021, '2022-06-01')).toBe('effective');
+    expect(getDocumentStatus(qcvn2021, '2023-06-01')).toBe('superseded');
+    expect(getDocumentStatus({ expiredOn: '2020-01-01' }, '2023-06-01')).toBe('expired');
+    expect(getDocumentStatus(qcvn2022, '2022-06-01')).toBe('pending');
+    expect(getDocumentStatus({ supersededBy: 'x' })).toBe('superseded');
+    expect(getDocumentStatus(law)).toBe('effective');
+  });
+
+  it('should search only documents in effect by default', () => {
+    const documents = [qcvn2021, qcvn2022, law];
+
+    expect(getExcludedDocumentIds(documents, 'lối thoát nạn', { asOf: '2024-01-01' })).toEqual(new Set(['a']));
+    expect(getExcludedDocumentIds(documents, 'lối thoát nạn', { asOf: '2022-06-01' })).toEqual(new Set(['b']));
+    expect(getExcludedDocumentIds(documents, 'lối thoát nạn', { includeSuperseded: true }).size).toBe(0);
+  });
+
+  it('should search the version a question names instead of the current one', () => {
+    const documents = [qcvn2021, qcvn2022, law];
+
+    expect(getExcludedDocumentIds(documents, 'phiên bản 2021 nói gì về lối thoát nạn?', { asOf: '2024-01-01' }))
+      .toEqual(new Set(['b']));
+    expect(getExcludedDocumentIds(documents, 'So với QCVN 06:2021', { asOf: '2024-01-01' }))
+      .toEqual(new Set(['b']));
+  });
+
+  it('should link each version to the next one', () => {
+    const updates = linkVersions([
+      { id: 'v3', version: '2023', effectiveFrom: '2023-07-01' },
+      { id: 'v1', version: '2021' },
+      { id: 'v2', version: '2022', supersededBy: 'manual' }
+    ]);
+
+    expect(updates).toEqual([
+      { id: 'v1', changes: { supersededBy: 'v2' } },
+      { id: 'v2', changes: { supersedes: 'v1' } },
+      { id: 'v3', changes: { supersedes: 'v2' } }
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Document Versioning
+ * Vietnamese standards are reissued under the same code (QCVN 06:2021 → QCVN 06:2022).
+ * Documents record their regulation code, version and validity period; retrieval prefers
+ * documents in effect unless the question names an older version.
+ */
+
+import { normalizeForSearch } from './vietnameseText';
+
+export interface DocumentVersionInfo {
+  regulationCode?: string; // e.g. "QCVN 06", shared by every version of a regulation
+  version?: string;        // Issue year, e.g. "2022"
+  effectiveFrom?: string;  // ISO date (YYYY-MM-DD)
+  expiredOn?: string;      // ISO date (YYYY-MM-DD)
+  supersededBy?: string;   // ID of the document replacing this one
+  supersedes?: string;     // ID of the document this one replaces
+}
+
+export type DocumentStatus = 'effective' | 'pending' | 'expired' | 'superseded';
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  effective: 'Còn hiệu lực',
+  pending: 'Chưa có hiệu lực',
+  expired: 'Hết hiệu lực',
+  superseded: 'Đã bị thay thế'
+};
+
+/**
+ * A regulation version mentioned in a document name or a question
+ */
+export interface VersionReference {
+  code?: string;   // Absent for bare years ("phiên bản 2021")
+  version: string;
+}
+
+// QCVN 06:2022/BXD, TCVN 2737-2023, TCXDVN 276:2003 ...
+const REGULATION_CODE_PATTERN = /\b(QCVN|QCXDVN|TCVN|TCXDVN|TCXD)\s*(\d+(?:[-.]\d+)?)\s*[:-]\s*((?:19|20)\d{2})\b/gi;
+
+// "QCVN 06 bản 2021", "TCVN 2737 năm 2023" (matched on diacritic-folded text)
+const CODE_YEAR_PATTERN = /\b(qcvn|qcxdvn|tcvn|tcxdvn|tcxd)\s*(\d+(?:[-.]\d+)?)\s+(?:phien ban|ban|nam)\s+((?:19|20)\d{2})\b/g;
+
+// "phiên bản 2021" on its own. A bare "năm 2020" or "bản 2019" is everyday phrasing
+// ("công trình xây năm 2020"), not a version pin.
+const VERSION_YEAR_PATTERN = /\bphien ban\s+((?:19|20)\d{2})\b/g;
+
+/**
+ * Today as an ISO date
+ */
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function formatCode(prefix: string, number: string): string {
+  // "QCVN 6" and "QCVN 06" name the same regulation
+  const padded = /^\d$/.test(number) ? `0${number}` : number;
+  return `${prefix.toUpperCase()} ${padded}`;
+}
+
+/**
+ * Regulation code and issue year from a document name, e.g. "QCVN 06:2022/BXD" → QCVN 06, 2022
+ */
+export function parseRegulationCode(name: string): VersionReference | undefined {
+  const match = new RegExp(REGULATION_CODE_PATTERN.source, 'i').exec(name);
+  return match ? { code: formatCode(match[1], match[2]), version: match[3] } : undefined;
+}
+
+/**
+ * Versions a question asks about: full codes ("QCVN 06:2021", "QCVN 06 bản 2021") and
+ * explicit versions ("phiên bản 2021")
+ */
+export function findVersionReferences(query: string): VersionReference[] {
+  const references: VersionReference[] = [];
+  const folded = normalizeForSearch(query);
+  for (const match of [...query.matchAll(REGULATION_CODE_PATTERN), ...folded.matchAll(CODE_YEAR_PATTERN)]) {
+    references.push({ code: formatCode(match[1], match[2]), version: match[3] });
+  }
+  for (const match of folded.matchAll(VERSION_YEAR_PATTERN)) {
+    if (!references.some(reference => reference.version === match[1])) {
+      references.push({ version: match[1] });
+    }
+  }
+  return references;
+}
+
+/**
+ * Status of a document on a date (default today)
+ */
+export function getDocumentStatus(doc: DocumentVersionInfo, asOf: string = today()): DocumentStatus {
+  if (doc.expiredOn && doc.expiredOn <= asOf) {
+    return doc.supersededBy ? 'superseded' : 'expired';
+  }
+  // Replaced without a known end date: the successor applies from now on
+  if (doc.supersededBy && !doc.expiredOn) return 'superseded';
+  if (doc.effectiveFrom && doc.effectiveFrom > asOf) return 'pending';
+  return 'effective';
+}
+
+function matchesReference(doc: DocumentVersionInfo, reference: VersionReference): boolean {
+  if (reference.code && doc.regulationCode !== reference.code) return false;
+  return doc.version === reference.version ||
+    (!doc.version && !!doc.effectiveFrom?.startsWith(reference.version));
+}
+
+/**
+ * Documents to leave out of retrieval for a question: those not in effect on `asOf`,
+ * unless the question names their version. When it does, the other versions of that
+ * regulation are left out instead.
+ */
+export function getExcludedDocumentIds(
+  documents: Array<DocumentVersionInfo & { id: string }>,
+  query: string,
+  options: { asOf?: string; includeSuperseded?: boolean } = {}
+): Set<string> {
+  const excluded = new Set<string>();
+  if (options.includeSuperseded) return excluded;
+
+  const references = findVersionReferences(query);
+  const requested = documents.filter(doc => references.some(reference => matchesReference(doc, reference)));
+  const requestedCodes = new Set(requested.map(doc => doc.regulationCode).filter(Boolean));
+
+  for (const doc of documents) {
+    if (requested.includes(doc)) continue;
+    if (doc.regulationCode && requestedCodes.has(doc.regulationCode)) {
+      excluded.add(doc.id);
+    } else if (getDocumentStatus(doc, options.asOf) !== 'effective') {
+      excluded.add(doc.id);
+    }
+  }
+  return excluded;
+}
+
+/**
+ * Supersession links between versions of one regulation, oldest version first; each
+ * version is superseded by the next. Fields already set (e.g. by hand) are kept.
+ */
+export function linkVersions<T extends DocumentVersionInfo & { id: string; dateAdded?: string }>(
+  versions: T[]
+): Array<{ id: string; changes: DocumentVersionInfo }> {
+  const ordered = versions
+    .filter(doc => doc.version)
+    .sort((a, b) => a.version!.localeCompare(b.version!) || (a.dateAdded ?? '').localeCompare(b.dateAdded ?? ''));
+
+  const updates = new Map<string, DocumentVersionInfo>();
+  const change = (id: string, changes: DocumentVersionInfo) =>
+    updates.set(id, { ...updates.get(id), ...changes });
+
+  for (let i = 1; i < ordered.length; i++) {
+    const older = ordered[i - 1];
+    const newer = ordered[i];
+    if (older.version === newer.version) continue;
+
+    if (!older.supersededBy) {
+      change(older.id, {
+        supersededBy: newer.id,
+        ...(!older.expiredOn && newer.effectiveFrom && { expiredOn: newer.effectiveFrom })
+      });
+    }
+    if (!newer.supersedes) {
+      change(newer.id, { supersedes: older.id });
+    }
+  }
+
+  return Array.from(updates, ([id, changes]) => ({ id, changes }));
+}
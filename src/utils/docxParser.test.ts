@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for DOCX Parser
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { parseDocx, docxBlocksToText } from './docxParser';
+
+// jsdom's TextEncoder returns a Uint8Array from another realm, which fflate would treat as a folder
+const xml = (content: string) => Uint8Array.from(strToU8(content));
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const paragraph = (text: string, props = '') =>
+  `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const buildDocx = (body: string) =>
+  zipSync({
+    'word/document.xml': xml(`<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}</w:body></w:document>`),
+    'word/styles.xml': xml(
+      `<?xml version="1.0" encoding="UTF-8"?><w:styles ${W}>` +
+        `<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>` +
+        `<w:style w:type="paragraph" w:styleId="Chuong"><w:name w:val="Chuong"/><w:pPr><w:outlineLvl w:val="1"/></w:pPr></w:style>` +
+        `</w:styles>`
+    ),
+    'word/numbering.xml': xml(
+      `<?xml version="1.0" encoding="UTF-8"?><w:numbering ${W}>` +
+        `<w:abstractNum w:abstractNumId="0">` +
+        `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>` +
+        `<w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="%2)"/></w:lvl>` +
+        `</w:abstractNum>` +
+        `<w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/></w:lvl></w:abstractNum>` +
+        `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>` +
+        `<w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>` +
+        `</w:numbering>`
+    )
+  });
+
+const numbered = (numId: number, ilvl: number) =>
+  `<w:numPr><w:ilvl w:val="${ilvl}"/><w:numId w:val="${numId}"/></w:numPr>`;
+
+describe('DOCX Parser', () => {
+  it('should detect heading levels from styles and outline levels', () => {
+    const blocks = parseDocx(
+      buildDocx(
+        paragraph('THÔNG TƯ', '<w:pStyle w:val="Heading1"/>') +
+          paragraph('Chương I. QUY ĐỊNH CHUNG', '<w:pStyle w:val="Chuong"/>') +
+          paragraph('Điều 1. Phạm vi điều chỉnh', '<w:outlineLvl w:val="2"/>') +
+          paragraph('Thông tư này quy định chi tiết.')
+      )
+    );
+
+    expect(blocks).toEqual([
+      { type: 'heading', level: 1, text: 'THÔNG TƯ' },
+      { type: 'heading', level: 2, text: 'Chương I. QUY ĐỊNH CHUNG' },
+      { type: 'heading', level: 3, text: 'Điều 1. Phạm vi điều chỉnh' },
+      { type: 'paragraph', text: 'Thông tư này quy định chi tiết.' }
+    ]);
+  });
+
+  it('should number list items and reset nested counters', () => {
+    const blocks = parseDocx(
+      buildDocx(
+        paragraph('Khoản một', numbered(1, 0)) +
+          paragraph('Điểm a', numbered(1, 1)) +
+          paragraph('Điểm b', numbered(1, 1)) +
+          paragraph('Khoản hai', numbered(1, 0)) +
+          paragraph('Điểm a mới', numbered(1, 1)) +
+          paragraph('Gạch đầu dòng', numbered(2, 0))
+      )
+    );
+
+    const markers = blocks.map(block => (block.type === 'listItem' ? block.marker : ''));
+    expect(markers).toEqual(['1.', 'a)', 'b)', '2.', 'a)', '-']);
+  });
+
+  it('should keep table cells in rows', () => {
+    const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+    const blocks = parseDocx(
+      buildDocx(
+        `<w:tbl><w:tr>${cell('Loại nhà')}${cell('Chiều cao (m)')}</w:tr>` +
+          `<w:tr>${cell('Nhà ở riêng lẻ')}${cell('3,2')}</w:tr></w:tbl>`
+      )
+    );
+
+    expect(blocks).toEqual([
+      { type: 'table', rows: [['Loại nhà', 'Chiều cao (m)'], ['Nhà ở riêng lẻ', '3,2']] }
+    ]);
+  });
+
+  it('should skip deleted revisions', () => {
+    const blocks = parseDocx(
+      buildDocx('<w:p><w:r><w:t>Giữ lại</w:t></w:r><w:del><w:r><w:delText>đã xóa</w:delText></w:r></w:del></w:p>')
+    );
+    expect(blocks).toEqual([{ type: 'paragraph', text: 'Giữ lại' }]);
+  });
+
+  it('should parse without DOMParser, as in the ingestion worker', () => {
+    vi.stubGlobal('DOMParser', undefined);
+    try {
+      const blocks = parseDocx(
+        buildDocx(
+          paragraph('Điều 1. Phạm vi', '<w:pStyle w:val="Heading1"/>') +
+            paragraph('Áp dụng &amp; hướng dẫn &lt;QCVN&gt;', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>') +
+            '<w:p><w:r><w:t><![CDATA[a < b]]></w:t></w:r></w:p>'
+        )
+      );
+
+      expect(blocks).toEqual([
+        { type: 'heading', level: 1, text: 'Điều 1. Phạm vi' },
+        { type: 'listItem', level: 0, marker: '1.', text: 'Áp dụng & hướng dẫn <QCVN>' },
+        { type: 'paragraph', text: 'a < b' }
+      ]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should render structured text', () => {
+    const text = docxBlocksToText([
+      { type: 'heading', level: 2, text: 'Điều 12. Chiều cao tầng' },
+      { type: 'listItem', level: 0, marker: '1.', text: 'Nhà ở riêng lẻ' },
+      { type: 'listItem', level: 1, marker: 'a)', text: 'Tầng 1' },
+      { type: 'table', rows: [['A', 'B']] }
+    ]);
+
+    expect(text).toBe('## Điều 12. Chiều cao tầng\n\n1. Nhà ở riêng lẻ\n  a) Tầng 1\n\n| A | B |');
+  });
+
+  it('should reject archives without word/document.xml', () => {
+    const archive = zipSync({ 'readme.txt': xml('not a docx') });
+    expect(() => parseDocx(archive)).toThrow(/word\/document\.xml/);
+  });
+});
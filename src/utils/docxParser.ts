@@ -0,0 +1,461 @@
+/**
+ * DOCX Parser
+ * Unzips a .docx archive and reads word/document.xml into structured blocks,
+ * preserving heading levels, numbered/bulleted lists and table cells. The XML is read
+ * without DOMParser, which does not exist in the ingestion worker.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Structured content block extracted from a Word document
+ */
+export type DocxBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'listItem'; level: number; marker: string; text: string }
+  | { type: 'table'; rows: string[][] };
+
+interface StyleInfo {
+  name: string;
+  outlineLevel?: number;
+  numId?: string;
+  numLevel?: number;
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+}
+
+/**
+ * XmlElement of the parsed XML tree, with namespaces resolved
+ */
+interface XmlElement {
+  localName: string;
+  namespace?: string;
+  attributes: Array<{ name: string; localName: string; namespace?: string; value: string }>;
+  children: Array<XmlElement | string>; // Elements and text
+}
+
+interface NumberingDefinitions {
+  // numId -> ilvl -> level definition
+  levels: Map<string, Map<number, NumberingLevel>>;
+}
+
+/**
+ * Parse a DOCX file into structured blocks
+ */
+export function parseDocx(data: ArrayBuffer | Uint8Array): DocxBlock[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const files = unzipSync(bytes, {
+    filter: (file) => file.name.startsWith('word/') && file.name.endsWith('.xml')
+  });
+
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {
+    throw new Error('Không tìm thấy word/document.xml - tệp không phải định dạng DOCX hợp lệ');
+  }
+
+  const styles = files['word/styles.xml'] ? parseStyles(parseXml(files['word/styles.xml'])) : new Map<string, StyleInfo>();
+  const numbering = files['word/numbering.xml']
+    ? parseNumbering(parseXml(files['word/numbering.xml']))
+    : { levels: new Map() };
+
+  const body = firstChild(parseXml(documentXml), 'body');
+  if (!body) {
+    return [];
+  }
+
+  const reader = new BodyReader(styles, numbering);
+  reader.readContainer(body);
+  return reader.blocks;
+}
+
+/**
+ * Render structured blocks as plain text (Markdown-style headings and tables)
+ */
+export function docxBlocksToText(blocks: DocxBlock[]): string {
+  const parts: string[] = [];
+
+  blocks.forEach((block, i) => {
+    let rendered: string;
+
+    switch (block.type) {
+      case 'heading':
+        rendered = `${'#'.repeat(block.level)} ${block.text}`;
+        break;
+      case 'listItem':
+        rendered = `${'  '.repeat(block.level)}${block.marker} ${block.text}`;
+        break;
+      case 'table':
+        rendered = block.rows.map(row => `| ${row.join(' | ')} |`).join('\n');
+        break;
+      default:
+        rendered = block.text;
+    }
+
+    // Keep consecutive list items together, separate everything else by a blank line
+    const separator = i === 0 ? '' : block.type === 'listItem' && blocks[i - 1].type === 'listItem' ? '\n' : '\n\n';
+    parts.push(separator + rendered);
+  });
+
+  return parts.join('');
+}
+
+/**
+ * Walks the document body and collects blocks, tracking list counters
+ */
+class BodyReader {
+  blocks: DocxBlock[] = [];
+  private counters = new Map<string, number[]>();
+
+  constructor(
+    private styles: Map<string, StyleInfo>,
+    private numbering: NumberingDefinitions
+  ) {}
+
+  readContainer(container: XmlElement): void {
+    for (const child of elementChildren(container)) {
+      switch (child.localName) {
+        case 'p':
+          this.readParagraph(child);
+          break;
+        case 'tbl':
+          this.readTable(child);
+          break;
+        case 'sdt': {
+          // Content controls wrap regular paragraphs and tables
+          const content = firstChild(child, 'sdtContent');
+          if (content) this.readContainer(content);
+          break;
+        }
+      }
+    }
+  }
+
+  private readParagraph(paragraph: XmlElement): void {
+    const text = paragraphText(paragraph).trim();
+    if (!text) return;
+
+    const props = firstChild(paragraph, 'pPr');
+    const styleId = attr(firstChild(props, 'pStyle'), 'val');
+    const style = styleId ? this.styles.get(styleId) : undefined;
+
+    const headingLevel = this.headingLevel(props, style);
+    if (headingLevel) {
+      this.blocks.push({ type: 'heading', level: headingLevel, text });
+      return;
+    }
+
+    const numPr = firstChild(props, 'numPr');
+    const numId = attr(firstChild(numPr, 'numId'), 'val') ?? style?.numId;
+    const level = Number(attr(firstChild(numPr, 'ilvl'), 'val') ?? style?.numLevel ?? 0);
+
+    // numId 0 explicitly removes numbering
+    if (numId && numId !== '0') {
+      this.blocks.push({ type: 'listItem', level, marker: this.nextMarker(numId, level), text });
+      return;
+    }
+
+    this.blocks.push({ type: 'paragraph', text });
+  }
+
+  private readTable(table: XmlElement): void {
+    const rows: string[][] = [];
+
+    for (const row of elementChildren(table).filter(el => el.localName === 'tr')) {
+      const cells = elementChildren(row)
+        .filter(el => el.localName === 'tc')
+        .map(cell =>
+          descendants(cell, 'p')
+            .map(p => paragraphText(p).trim())
+            .filter(Boolean)
+            .join(' ')
+        );
+
+      if (cells.some(Boolean)) {
+        rows.push(cells);
+      }
+    }
+
+    if (rows.length > 0) {
+      this.blocks.push({ type: 'table', rows });
+    }
+  }
+
+  private headingLevel(props: XmlElement | undefined, style?: StyleInfo): number | undefined {
+    const outline = attr(firstChild(props, 'outlineLvl'), 'val');
+    if (outline !== undefined && Number(outline) < 9) {
+      return Number(outline) + 1;
+    }
+    if (style?.outlineLevel !== undefined && style.outlineLevel < 9) {
+      return style.outlineLevel + 1;
+    }
+
+    const match = style?.name.match(/^heading\s*(\d)$/i);
+    if (match) return Number(match[1]);
+    if (style?.name.toLowerCase() === 'title') return 1;
+
+    return undefined;
+  }
+
+  private nextMarker(numId: string, level: number): string {
+    const definition = this.numbering.levels.get(numId)?.get(level);
+    const counters = this.counters.get(numId) ?? [];
+
+    // Advance this level and reset deeper levels
+    counters[level] = (counters[level] ?? (definition?.start ?? 1) - 1) + 1;
+    counters.length = level + 1;
+    this.counters.set(numId, counters);
+
+    if (!definition || definition.format === 'bullet') {
+      return '-';
+    }
+
+    return definition.text.replace(/%(\d)/g, (_, n: string) => {
+      const lvl = Number(n) - 1;
+      const levelFormat = this.numbering.levels.get(numId)?.get(lvl)?.format ?? 'decimal';
+      return formatNumber(counters[lvl] ?? 1, levelFormat);
+    }) || `${counters[level]}.`;
+  }
+}
+
+function parseStyles(doc: XmlElement): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+
+  for (const style of descendants(doc, 'style')) {
+    const id = attr(style, 'styleId');
+    if (!id) continue;
+
+    const props = firstChild(style, 'pPr');
+    const outline = attr(firstChild(props, 'outlineLvl'), 'val');
+    const numPr = firstChild(props, 'numPr');
+
+    styles.set(id, {
+      name: attr(firstChild(style, 'name'), 'val') ?? id,
+      outlineLevel: outline !== undefined ? Number(outline) : undefined,
+      numId: attr(firstChild(numPr, 'numId'), 'val'),
+      numLevel: numPr ? Number(attr(firstChild(numPr, 'ilvl'), 'val') ?? 0) : undefined
+    });
+  }
+
+  return styles;
+}
+
+function parseNumbering(doc: XmlElement): NumberingDefinitions {
+  const abstractLevels = new Map<string, Map<number, NumberingLevel>>();
+
+  for (const abstractNum of descendants(doc, 'abstractNum')) {
+    const levels = new Map<number, NumberingLevel>();
+    for (const lvl of elementChildren(abstractNum).filter(el => el.localName === 'lvl')) {
+      levels.set(Number(attr(lvl, 'ilvl') ?? 0), {
+        format: attr(firstChild(lvl, 'numFmt'), 'val') ?? 'decimal',
+        text: attr(firstChild(lvl, 'lvlText'), 'val') ?? '',
+        start: Number(attr(firstChild(lvl, 'start'), 'val') ?? 1)
+      });
+    }
+    abstractLevels.set(attr(abstractNum, 'abstractNumId') ?? '', levels);
+  }
+
+  const levels = new Map<string, Map<number, NumberingLevel>>();
+  for (const num of descendants(doc, 'num')) {
+    const numId = attr(num, 'numId');
+    const abstractId = attr(firstChild(num, 'abstractNumId'), 'val');
+    if (numId && abstractId && abstractLevels.has(abstractId)) {
+      levels.set(numId, abstractLevels.get(abstractId)!);
+    }
+  }
+
+  return { levels };
+}
+
+/**
+ * Collect visible text of a paragraph (skips deleted revisions and field codes)
+ */
+function paragraphText(paragraph: XmlElement): string {
+  let text = '';
+
+  const walk = (node: XmlElement) => {
+    for (const child of elementChildren(node)) {
+      switch (child.localName) {
+        case 't':
+          text += textContent(child);
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        case 'noBreakHyphen':
+          text += '-';
+          break;
+        case 'pPr':
+        case 'rPr':
+        case 'del':
+        case 'instrText':
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+
+  walk(paragraph);
+  return text;
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return toLetters(value).toLowerCase();
+    case 'upperLetter':
+      return toLetters(value);
+    case 'lowerRoman':
+      return toRoman(value).toLowerCase();
+    case 'upperRoman':
+      return toRoman(value);
+    default:
+      return String(value);
+  }
+}
+
+function toLetters(value: number): string {
+  let result = '';
+  let n = value;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    result = String.fromCharCode(65 + rem) + result;
+    n = Math.floor((n - 1) / 26);
+  }
+  return result;
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let result = '';
+  let n = value;
+  for (const [num, roman] of numerals) {
+    while (n >= num) {
+      result += roman;
+      n -= num;
+    }
+  }
+  return result;
+}
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\/[^>]+>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const hex = name[1].toLowerCase() === 'x';
+      return String.fromCodePoint(parseInt(name.slice(hex ? 2 : 1), hex ? 16 : 10));
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+function splitName(name: string): [prefix: string | undefined, localName: string] {
+  const colon = name.indexOf(':');
+  return colon === -1 ? [undefined, name] : [name.slice(0, colon), name.slice(colon + 1)];
+}
+
+/**
+ * Parse XML into its root element. WordprocessingML parts are well-formed and have no
+ * DTD, so a tokenizer that tracks namespace declarations is enough.
+ */
+function parseXml(bytes: Uint8Array): XmlElement {
+  const root: XmlElement = { localName: '', attributes: [], children: [] };
+  const stack: Array<{ element: XmlElement; namespaces: Map<string | undefined, string> }> = [
+    { element: root, namespaces: new Map([['xml', XML_NAMESPACE]]) }
+  ];
+
+  for (const [token, cdata, tagName, attributeText, selfClosing, text] of strFromU8(bytes).matchAll(XML_TOKEN)) {
+    const parent = stack[stack.length - 1];
+
+    if (text !== undefined || cdata !== undefined) {
+      parent.element.children.push(cdata ?? decodeEntities(text));
+    } else if (tagName) {
+      const raw = [...attributeText.matchAll(XML_ATTRIBUTE)].map(([, name, double, single]) => ({
+        name,
+        value: decodeEntities(double ?? single)
+      }));
+
+      const namespaces = new Map(parent.namespaces);
+      for (const { name, value } of raw) {
+        if (name === 'xmlns') namespaces.set(undefined, value);
+        else if (name.startsWith('xmlns:')) namespaces.set(name.slice(6), value);
+      }
+
+      const [prefix, localName] = splitName(tagName);
+      const element: XmlElement = {
+        localName,
+        namespace: namespaces.get(prefix),
+        attributes: raw.map(({ name, value }) => {
+          const [attributePrefix, attributeName] = splitName(name);
+          // Unprefixed attributes have no namespace
+          const namespace = attributePrefix ? namespaces.get(attributePrefix) : undefined;
+          return { name, localName: attributeName, namespace, value };
+        }),
+        children: []
+      };
+      parent.element.children.push(element);
+      if (!selfClosing) stack.push({ element, namespaces });
+    } else if (token.startsWith('</') && stack.length > 1) {
+      stack.pop();
+    }
+  }
+
+  const documentElement = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!documentElement) {
+    throw new Error('Tệp XML trong DOCX không hợp lệ');
+  }
+  return documentElement;
+}
+
+function textContent(node: XmlElement): string {
+  return node.children.map(child => (typeof child === 'string' ? child : textContent(child))).join('');
+}
+
+function elementChildren(node: XmlElement): XmlElement[] {
+  return node.children.filter((child): child is XmlElement => typeof child !== 'string');
+}
+
+function firstChild(node: XmlElement | undefined | null, localName: string): XmlElement | undefined {
+  if (!node) return undefined;
+  return elementChildren(node).find(el => el.localName === localName);
+}
+
+/**
+ * Word elements with this local name anywhere below the node, in document order
+ */
+function descendants(node: XmlElement, localName: string): XmlElement[] {
+  return elementChildren(node).flatMap(child => [
+    ...(child.localName === localName && child.namespace === WORD_NS ? [child] : []),
+    ...descendants(child, localName)
+  ]);
+}
+
+function attr(node: XmlElement | undefined, localName: string): string | undefined {
+  if (!node) return undefined;
+  return (
+    node.attributes.find(a => a.localName === localName && a.namespace === WORD_NS) ??
+    node.attributes.find(a => a.name === `w:${localName}`)
+  )?.value;
+}
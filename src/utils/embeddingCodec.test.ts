@@ -0,0 +1,42 @@
+/**
+ * Unit Tests for Embedding Storage Codec
+ */
+
+import { describe, it, expect } from 'vitest';
+import { quantizeInt8, encodeEmbedding, decodeEmbedding, cosineSimilarity } from './embeddingCodec';
+
+describe('Embedding Codec', () => {
+  const vector = [0.12, -0.5, 0.33, 0.9, -0.07, 0];
+
+  it('should store float32 embeddings as Float32Array', () => {
+    const encoded = encodeEmbedding(vector, 'float32');
+    expect(encoded.embedding).toBeInstanceOf(Float32Array);
+    expect(encoded.embeddingScale).toBeUndefined();
+    expect(Array.from(encoded.embedding)[3]).toBeCloseTo(0.9, 6);
+  });
+
+  it('should quantize to int8 with the largest magnitude at 127', () => {
+    const { data, scale } = quantizeInt8(vector);
+    expect(data).toBeInstanceOf(Int8Array);
+    expect(data[3]).toBe(127);
+    expect(scale).toBeCloseTo(0.9 / 127);
+  });
+
+  it('should round-trip int8 embeddings within one quantization step', () => {
+    const encoded = encodeEmbedding(vector, 'int8');
+    const decoded = decodeEmbedding(encoded.embedding, encoded.embeddingScale);
+    vector.forEach((value, i) => expect(Math.abs(decoded[i] - value)).toBeLessThanOrEqual(encoded.embeddingScale!));
+  });
+
+  it('should compare a float query directly against int8 data', () => {
+    const query = [0.1, -0.4, 0.3, 0.8, 0, 0.05];
+    const { data } = quantizeInt8(vector);
+    expect(cosineSimilarity(query, data)).toBeCloseTo(cosineSimilarity(query, vector), 2);
+    expect(cosineSimilarity(Float32Array.from(vector), vector)).toBeCloseTo(1, 6);
+  });
+
+  it('should handle zero vectors and reject mismatched lengths', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(() => cosineSimilarity([1, 2], [1, 2, 3])).toThrow();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Embedding Storage Codec
+ * Converts embeddings to compact typed arrays for IndexedDB: Float32Array (4 bytes/dim)
+ * or symmetric int8 scalar quantization (1 byte/dim plus one scale factor)
+ */
+
+export type EmbeddingFormat = 'float32' | 'int8';
+
+/**
+ * Embedding as produced by models (number[]) or as stored (typed arrays)
+ */
+export type EmbeddingVector = number[] | Float32Array | Int8Array;
+
+export interface EncodedEmbedding {
+  embedding: Float32Array | Int8Array;
+  embeddingScale?: number; // Present only for int8: value ≈ embedding[i] * embeddingScale
+}
+
+export const DEFAULT_EMBEDDING_FORMAT: EmbeddingFormat = 'float32';
+
+/**
+ * Quantize to int8 with a single symmetric scale (max |value| maps to 127)
+ */
+export function quantizeInt8(vector: ArrayLike<number>): { data: Int8Array; scale: number } {
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+  }
+
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+  const data = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    data[i] = Math.round(vector[i] / scale);
+  }
+
+  return { data, scale };
+}
+
+/**
+ * Reconstruct approximate float values from int8 data
+ */
+export function dequantizeInt8(data: Int8Array, scale: number): Float32Array {
+  const vector = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    vector[i] = data[i] * scale;
+  }
+  return vector;
+}
+
+/**
+ * Encode an embedding for storage in the given format
+ */
+export function encodeEmbedding(vector: EmbeddingVector, format: EmbeddingFormat = DEFAULT_EMBEDDING_FORMAT): EncodedEmbedding {
+  if (format === 'int8') {
+    if (vector instanceof Int8Array) {
+      throw new Error('Embedding is already quantized');
+    }
+    const { data, scale } = quantizeInt8(vector);
+    return { embedding: data, embeddingScale: scale };
+  }
+
+  if (vector instanceof Int8Array) {
+    throw new Error('Cannot convert a quantized embedding back to float32 without its scale');
+  }
+  return { embedding: vector instanceof Float32Array ? vector : Float32Array.from(vector) };
+}
+
+/**
+ * Decode a stored embedding to float values
+ */
+export function decodeEmbedding(embedding: EmbeddingVector, embeddingScale?: number): Float32Array {
+  if (embedding instanceof Int8Array) {
+    return dequantizeInt8(embedding, embeddingScale ?? 1);
+  }
+  return embedding instanceof Float32Array ? embedding : Float32Array.from(embedding);
+}
+
+/**
+ * Cosine similarity on plain or typed arrays.
+ * Symmetric quantization only rescales a vector, so int8 data can be compared directly.
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for HNSW Index
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HNSWIndex } from './hnswIndex';
+import { cosineSimilarity } from './vectorUtils';
+
+// Deterministic pseudo-random generator (mulberry32)
+const seeded = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const randomVectors = (count: number, dimension: number, random: () => number) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `chunk_${i}`,
+    vector: Array.from({ length: dimension }, () => random() * 2 - 1)
+  }));
+
+const exactTopK = (items: Array<{ id: string; vector: number[] }>, query: number[], k: number) =>
+  items
+    .map(item => ({ id: item.id, similarity: cosineSimilarity(query, item.vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(item => item.id);
+
+describe('HNSW Index', () => {
+  const random = seeded(42);
+  const items = randomVectors(400, 16, random);
+
+  const build = () => {
+    const index = new HNSWIndex({ m: 8, efConstruction: 64, random: seeded(7) });
+    items.forEach(item => index.insert(item.id, item.vector));
+    return index;
+  };
+
+  it('should find nearly all exact nearest neighbours', () => {
+    const index = build();
+    let hits = 0;
+    const queries = randomVectors(20, 16, random);
+
+    for (const query of queries) {
+      const expected = new Set(exactTopK(items, query.vector, 10));
+      const found = index.search(query.vector, 10, 64);
+      hits += found.filter(result => expected.has(result.id)).length;
+    }
+
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('should return cosine similarities', () => {
+    const index = build();
+    const [top] = index.search(items[5].vector, 1);
+    expect(top.id).toBe('chunk_5');
+    expect(top.similarity).toBeCloseTo(1, 5);
+  });
+
+  it('should never return removed vectors and keep links valid', () => {
+    const index = build();
+    const removed = items.slice(0, 100).map(item => item.id);
+    index.remove(removed);
+
+    expect(index.size).toBe(300);
+    const found = index.search(items[0].vector, 20);
+    expect(found.some(result => removed.includes(result.id))).toBe(false);
+
+    for (const item of items.slice(100)) {
+      index.getNode(item.id)!.neighbors.flat().forEach(link => expect(index.has(link)).toBe(true));
+    }
+  });
+
+  it('should respect the result filter', () => {
+    const index = build();
+    const allowed = new Set(items.filter((_, i) => i % 10 === 0).map(item => item.id));
+    const found = index.search(items[3].vector, 5, 64, id => allowed.has(id));
+
+    expect(found).toHaveLength(5);
+    found.forEach(result => expect(allowed.has(result.id)).toBe(true));
+  });
+
+  it('should restore a serialized graph', () => {
+    const index = build();
+    const nodes = items.map(item => index.getNode(item.id)!);
+    const vectors = new Map(items.map(item => [item.id, item.vector]));
+    const restored = HNSWIndex.restore(index.getMeta(), nodes, vectors);
+
+    expect(restored.search(items[7].vector, 5)).toEqual(index.search(items[7].vector, 5));
+  });
+
+  it('should drop links to nodes that were not persisted', () => {
+    const index = build();
+    const entryPoint = index.getMeta().entryPoint!;
+    // Partial persist: the entry point and a few linked nodes are missing
+    const missing = new Set([entryPoint, ...index.getNode(entryPoint)!.neighbors[0].slice(0, 3)]);
+    const nodes = items.filter(item => !missing.has(item.id)).map(item => index.getNode(item.id)!);
+    const vectors = new Map(items.map(item => [item.id, item.vector]));
+    const restored = HNSWIndex.restore(index.getMeta(), nodes, vectors);
+
+    expect(restored.has(entryPoint)).toBe(false);
+    const found = restored.search(items[7].vector, 5);
+    expect(found).toHaveLength(5);
+    found.forEach(result => expect(missing.has(result.id)).toBe(false));
+  });
+
+  it('should reject vectors of a different dimension', () => {
+    const index = build();
+    expect(() => index.insert('other', [1, 2, 3])).toThrow(/dimension/);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * HNSW Approximate Nearest-Neighbour Index
+ * Hierarchical navigable small-world graph over embeddings (cosine similarity).
+ * Supports incremental insert/remove; the graph is serializable so it can be persisted.
+ */
+
+export interface HNSWOptions {
+  m?: number;              // Links per node on upper layers (layer 0 allows 2*m)
+  efConstruction?: number; // Candidate list size while inserting
+  random?: () => number;   // Level generator source, injectable for tests
+}
+
+/**
+ * Serializable graph node; neighbors[l] are the links on layer l
+ */
+export interface HNSWNode {
+  id: string;
+  level: number;
+  neighbors: string[][];
+}
+
+export interface HNSWMeta {
+  entryPoint: string | null;
+  maxLevel: number;
+  dimension: number;
+}
+
+export interface HNSWSearchResult {
+  id: string;
+  similarity: number;
+}
+
+type Vector = ArrayLike<number>;
+
+interface Candidate {
+  id: string;
+  distance: number;
+}
+
+export const HNSW_DEFAULT_M = 16;
+export const HNSW_DEFAULT_EF_CONSTRUCTION = 100;
+export const HNSW_DEFAULT_EF_SEARCH = 64;
+
+export class HNSWIndex {
+  private nodes = new Map<string, HNSWNode>();
+  private vectors = new Map<string, Float32Array>();
+  private norms = new Map<string, number>();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private dimension = 0;
+
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly levelMultiplier: number;
+  private readonly random: () => number;
+
+  constructor(options: HNSWOptions = {}) {
+    this.m = options.m ?? HNSW_DEFAULT_M;
+    this.efConstruction = options.efConstruction ?? HNSW_DEFAULT_EF_CONSTRUCTION;
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Recreate an index from persisted nodes and the chunk embeddings.
+   * Nodes without a vector are dropped, as are links to nodes that are not restored
+   * (deleted, or missing after a partial persist).
+   */
+  static restore(
+    meta: HNSWMeta,
+    nodes: HNSWNode[],
+    vectors: Map<string, Vector>,
+    options: HNSWOptions = {}
+  ): HNSWIndex {
+    const index = new HNSWIndex(options);
+    index.entryPoint = meta.entryPoint;
+    index.maxLevel = meta.maxLevel;
+    index.dimension = meta.dimension;
+
+    for (const node of nodes) {
+      const vector = vectors.get(node.id);
+      if (!vector) continue;
+      index.nodes.set(node.id, node);
+      index.setVector(node.id, vector);
+    }
+
+    for (const [id, node] of index.nodes) {
+      const neighbors = node.neighbors.map(links => links.filter(link => index.nodes.has(link)));
+      index.nodes.set(id, { ...node, neighbors });
+    }
+    const entry = index.entryPoint !== null ? index.nodes.get(index.entryPoint) : undefined;
+    if (!entry || entry.level !== index.maxLevel) {
+      index.resetEntryPoint();
+    }
+
+    return index;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  getNode(id: string): HNSWNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  getMeta(): HNSWMeta {
+    return { entryPoint: this.entryPoint, maxLevel: this.maxLevel, dimension: this.dimension };
+  }
+
+  /**
+   * Insert (or replace) a vector; returns IDs of nodes whose links changed
+   */
+  insert(id: string, vector: Vector): string[] {
+    if (this.dimension !== 0 && vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    const changed = new Set<string>();
+    if (this.nodes.has(id)) {
+      this.remove([id]).forEach(changedId => changed.add(changedId));
+    }
+    this.dimension = vector.length;
+
+    this.setVector(id, vector);
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const node: HNSWNode = { id, level, neighbors: Array.from({ length: level + 1 }, () => []) };
+    this.nodes.set(id, node);
+    changed.add(id);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return Array.from(changed);
+    }
+
+    // Greedy descent through layers above the new node's level
+    let entries = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entries = [this.searchLayer(id, entries, 1, l)[0].id];
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(id, entries, this.efConstruction, l);
+      const maxLinks = this.maxLinks(l);
+      node.neighbors[l] = found.slice(0, maxLinks).map(c => c.id);
+
+      for (const neighborId of node.neighbors[l]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[l].push(id);
+        if (neighbor.neighbors[l].length > maxLinks) {
+          neighbor.neighbors[l] = this.closest(neighborId, neighbor.neighbors[l], maxLinks);
+        }
+        changed.add(neighborId);
+      }
+
+      entries = found.map(c => c.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+
+    return Array.from(changed);
+  }
+
+  /**
+   * Remove vectors and repair links of nodes that pointed to them;
+   * returns IDs of remaining nodes whose links changed
+   */
+  remove(ids: string[]): string[] {
+    const removed = new Set(ids.filter(id => this.nodes.has(id)));
+    if (removed.size === 0) return [];
+
+    const changed: string[] = [];
+    for (const node of this.nodes.values()) {
+      if (removed.has(node.id)) continue;
+
+      let nodeChanged = false;
+      node.neighbors.forEach((links, l) => {
+        if (!links.some(link => removed.has(link))) return;
+
+        // Reconnect through the removed nodes' own neighbours
+        const candidates = new Set(links.filter(link => !removed.has(link)));
+        for (const link of links) {
+          if (!removed.has(link)) continue;
+          for (const replacement of this.nodes.get(link)!.neighbors[l] ?? []) {
+            if (replacement !== node.id && !removed.has(replacement)) {
+              candidates.add(replacement);
+            }
+          }
+        }
+
+        node.neighbors[l] = this.closest(node.id, Array.from(candidates), this.maxLinks(l));
+        nodeChanged = true;
+      });
+
+      if (nodeChanged) changed.push(node.id);
+    }
+
+    for (const id of removed) {
+      this.nodes.delete(id);
+      this.vectors.delete(id);
+      this.norms.delete(id);
+    }
+
+    if (this.entryPoint !== null && removed.has(this.entryPoint)) {
+      this.resetEntryPoint();
+    }
+
+    return changed;
+  }
+
+  /**
+   * Find the k most similar vectors; `filter` restricts which IDs may be returned
+   */
+  search(
+    query: Vector,
+    k: number,
+    ef: number = HNSW_DEFAULT_EF_SEARCH,
+    filter?: (id: string) => boolean
+  ): HNSWSearchResult[] {
+    if (this.entryPoint === null || query.length !== this.dimension) return [];
+
+    const queryVector = Float32Array.from(query);
+    const queryNorm = norm(queryVector);
+    const distance = (id: string) => this.distanceTo(queryVector, queryNorm, id);
+
+    let entries = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entries = [this.searchLayerWith(distance, entries, 1, l)[0].id];
+    }
+
+    return this.searchLayerWith(distance, entries, Math.max(ef, k), 0, filter)
+      .slice(0, k)
+      .map(c => ({ id: c.id, similarity: 1 - c.distance }));
+  }
+
+  // Highest-level node becomes the entry point
+  private resetEntryPoint(): void {
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    for (const node of this.nodes.values()) {
+      if (node.level > this.maxLevel) {
+        this.entryPoint = node.id;
+        this.maxLevel = node.level;
+      }
+    }
+
+    if (this.nodes.size === 0) {
+      this.dimension = 0;
+    }
+  }
+
+  private searchLayer(id: string, entries: string[], ef: number, level: number): Candidate[] {
+    const vector = this.vectors.get(id)!;
+    const vectorNorm = this.norms.get(id)!;
+    return this.searchLayerWith(other => this.distanceTo(vector, vectorNorm, other), entries, ef, level)
+      .filter(c => c.id !== id);
+  }
+
+  /**
+   * Best-first search on one layer; returns up to ef candidates sorted by distance
+   */
+  private searchLayerWith(
+    distance: (id: string) => number,
+    entries: string[],
+    ef: number,
+    level: number,
+    filter?: (id: string) => boolean
+  ): Candidate[] {
+    const visited = new Set(entries);
+    const candidates: Candidate[] = entries.map(id => ({ id, distance: distance(id) }));
+    candidates.sort((a, b) => a.distance - b.distance);
+    const results: Candidate[] = candidates.filter(c => !filter || filter(c.id));
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.distance > results[results.length - 1].distance) {
+        break;
+      }
+
+      for (const neighborId of this.nodes.get(current.id)?.neighbors[level] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const candidate = { id: neighborId, distance: distance(neighborId) };
+        if (results.length < ef || candidate.distance < results[results.length - 1].distance) {
+          insertSorted(candidates, candidate);
+          if (!filter || filter(neighborId)) {
+            insertSorted(results, candidate);
+            if (results.length > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private closest(id: string, ids: string[], limit: number): string[] {
+    const vector = this.vectors.get(id)!;
+    const vectorNorm = this.norms.get(id)!;
+    return ids
+      .map(other => ({ id: other, distance: this.distanceTo(vector, vectorNorm, other) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(c => c.id);
+  }
+
+  private maxLinks(level: number): number {
+    return level === 0 ? this.m * 2 : this.m;
+  }
+
+  private setVector(id: string, vector: Vector): void {
+    const stored = Float32Array.from(vector);
+    this.vectors.set(id, stored);
+    this.norms.set(id, norm(stored));
+  }
+
+  // Cosine distance (1 - cosine similarity)
+  private distanceTo(vector: Float32Array, vectorNorm: number, id: string): number {
+    const other = this.vectors.get(id)!;
+    const denominator = vectorNorm * this.norms.get(id)!;
+    if (denominator === 0) return 1;
+
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += vector[i] * other[i];
+    }
+    return 1 - dot / denominator;
+  }
+}
+
+function norm(vector: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  return Math.sqrt(sum);
+}
+
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].distance < candidate.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
@@ -0,0 +1,201 @@
+/**
+ * Unit Tests for the Persistent Ingestion Queue
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IngestionJob, StoredDocument } from './persistentStorage';
+
+// In-memory stand-ins for IndexedDB and the processing stages
+const mocks = vi.hoisted(() => ({
+  jobs: new Map<string, IngestionJob>(),
+  documents: [] as StoredDocument[],
+  extractDocument: vi.fn(),
+  embedChunks: vi.fn(),
+  storeDocument: vi.fn()
+}));
+
+vi.mock('./persistentStorage', () => ({
+  DocumentStorage: {
+    findByHash: async (hash: string) => mocks.documents.filter(doc => doc.contentHash === hash),
+    findByName: async (folderId: string, name: string) =>
+      mocks.documents.find(doc => doc.folderId === folderId && doc.name === name)
+  },
+  IngestionJobStorage: {
+    save: async (job: IngestionJob) => { mocks.jobs.set(job.id, { ...job }); },
+    saveBulk: async (jobs: IngestionJob[]) => { jobs.forEach(job => mocks.jobs.set(job.id, { ...job })); },
+    get: async (id: string) => mocks.jobs.get(id),
+    recoverInterrupted: async () => {
+      mocks.jobs.forEach(job => { if (job.status === 'running') job.status = 'queued'; });
+    },
+    getNextQueued: async () => Array.from(mocks.jobs.values())
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt)[0]
+  }
+}));
+
+vi.mock('./documentProcessor', () => ({
+  extractDocument: mocks.extractDocument,
+  splitIntoChunks: (text: string) => text.split('|').map(part => ({ text: part })),
+  hashChunks: async (chunks: Array<{ text: string }>) => chunks.map(chunk => ({ ...chunk, contentHash: chunk.text })),
+  createDocumentId: (hash: string) => `doc_${hash}`,
+  embedChunks: mocks.embedChunks,
+  storeDocument: mocks.storeDocument
+}));
+
+// File content stands in for its hash
+vi.mock('./contentHash', () => ({
+  hashFile: async (file: { content: string }) => `hash:${file.content}`
+}));
+
+import { enqueueFiles, inspectUploads, runIngestionJob, drainIngestionQueue, summarizeJob } from './ingestionQueue';
+
+const embedderFor = () => async () => ({ model: 'model', embeddings: [] });
+const file = (name: string, content = name) => Object.assign(new File([content], name), { content });
+const upload = (name: string) => ({ file: file(name), contentHash: `hash:${name}` });
+
+describe('Ingestion Queue', () => {
+  beforeEach(() => {
+    mocks.jobs.clear();
+    mocks.documents = [];
+    mocks.extractDocument.mockReset().mockResolvedValue({ text: 'a|b|c', method: 'text' });
+    mocks.embedChunks.mockReset().mockImplementation(async (chunks: Array<{ text: string }>) =>
+      chunks.map((chunk, i) => ({ id: `chunk_${i}`, text: chunk.text })));
+    mocks.storeDocument.mockReset();
+  });
+
+  it('should run every stage and drop intermediate data when done', async () => {
+    const [job] = await enqueueFiles([upload('a.pdf')], 'folder', 'model');
+    const result = await runIngestionJob(job.id, { embedderFor });
+
+    expect(result.status).toBe('completed');
+    expect(result.result).toEqual({ documentId: 'doc_hash:a.pdf', chunks: 3, method: 'text' });
+    expect(mocks.jobs.get(job.id)!.file).toBeUndefined();
+    expect(mocks.jobs.get(job.id)!.embedded).toBeUndefined();
+  });
+
+  it('should store new documents under a fresh ID and replacements under the old one', async () => {
+    const [created, replacement] = await enqueueFiles([
+      upload('a.pdf'),
+      { ...upload('b.pdf'), replaceDocumentId: 'doc_existing' }
+    ], 'folder', 'model');
+
+    expect(created).toMatchObject({ documentId: 'doc_hash:a.pdf', replace: false });
+    expect(replacement).toMatchObject({ documentId: 'doc_existing', replace: true });
+
+    await runIngestionJob(replacement.id, { embedderFor });
+    expect(mocks.embedChunks.mock.calls[0][1]).toBe('doc_existing');
+    expect(mocks.storeDocument.mock.calls[0][5]).toEqual({
+      documentId: 'doc_existing',
+      contentHash: 'hash:b.pdf',
+      replace: true,
+      original: expect.any(File)
+    });
+  });
+
+  it('should resume from the last checkpointed stage', async () => {
+    const [job] = await enqueueFiles([upload('a.pdf')], 'folder', 'model');
+    mocks.jobs.set(job.id, {
+      ...job,
+      status: 'queued',
+      stage: 'embed',
+      extracted: { text: 'x|y', method: 'ocr' },
+      chunks: [{ text: 'x' }, { text: 'y' }]
+    });
+
+    const result = await runIngestionJob(job.id, { embedderFor });
+
+    expect(mocks.extractDocument).not.toHaveBeenCalled();
+    expect(result.result).toEqual({ documentId: 'doc_hash:a.pdf', chunks: 2, method: 'ocr' });
+  });
+
+  it('should record failures and retry from the failed stage', async () => {
+    const [job] = await enqueueFiles([upload('a.pdf')], 'folder', 'model');
+    mocks.embedChunks.mockRejectedValueOnce(new Error('model unavailable'));
+
+    const failed = await runIngestionJob(job.id, { embedderFor });
+    expect(failed.status).toBe('failed');
+    expect(failed.stage).toBe('embed');
+    expect(failed.attempts).toBe(1);
+    expect(failed.error).toBe('model unavailable');
+
+    const retried = await runIngestionJob(job.id, { embedderFor });
+    expect(retried.status).toBe('completed');
+    expect(mocks.extractDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pause after the current stage when aborted', async () => {
+    const [job] = await enqueueFiles([upload('a.pdf')], 'folder', 'model');
+    const controller = new AbortController();
+    mocks.extractDocument.mockImplementation(async () => {
+      controller.abort();
+      return { text: 'a', method: 'text' };
+    });
+
+    const result = await runIngestionJob(job.id, { embedderFor, signal: controller.signal });
+
+    expect(result.status).toBe('paused');
+    expect(mocks.jobs.get(job.id)!.stage).toBe('chunk');
+  });
+
+  it('should drain queued jobs in upload order', async () => {
+    await enqueueFiles([upload('1.pdf'), upload('2.pdf'), upload('3.pdf')], 'folder', 'model');
+    const order: string[] = [];
+
+    await drainIngestionQueue({
+      embedderFor,
+      onUpdate: job => { if (job.status === 'completed') order.push(job.fileName); }
+    });
+
+    expect(order).toEqual(['1.pdf', '2.pdf', '3.pdf']);
+  });
+
+  it('should hold the ingestion lock and requeue jobs a closed tab left running', async () => {
+    const [job] = await enqueueFiles([upload('a.pdf')], 'folder', 'model');
+    mocks.jobs.get(job.id)!.status = 'running';
+    const request = vi.fn((_name: string, _options: LockOptions, callback: () => Promise<void>) => callback());
+    vi.stubGlobal('navigator', { locks: { request } });
+
+    try {
+      await drainIngestionQueue({ embedderFor });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(request).toHaveBeenCalledWith('ingestion', expect.anything(), expect.any(Function));
+    expect(mocks.jobs.get(job.id)!.status).toBe('completed');
+  });
+
+  it('should flag exact duplicates and possible new versions', async () => {
+    mocks.documents = [
+      { id: 'd1', name: 'old.pdf', folderId: 'folder', contentHash: 'hash:same', type: 'pdf', size: '', dateAdded: '' },
+      { id: 'd2', name: 'rule.pdf', folderId: 'folder', contentHash: 'hash:v1', type: 'pdf', size: '', dateAdded: '' }
+    ];
+
+    const inspected = await inspectUploads([
+      file('copy.pdf', 'same'),
+      file('rule.pdf', 'v2'),
+      file('new.pdf', 'fresh'),
+      file('new-again.pdf', 'fresh')
+    ], 'folder');
+
+    expect(inspected[0].duplicateOf).toBe('old.pdf');
+    expect(inspected[1].duplicateOf).toBeUndefined();
+    expect(inspected[1].previousVersion?.id).toBe('d2');
+    expect(inspected[2].duplicateOf).toBeUndefined();
+    expect(inspected[3].duplicateOf).toBe('new.pdf');
+  });
+
+  it('should strip the file and stage outputs from job summaries', () => {
+    const summary = summarizeJob({
+      id: 'j', file: file('a.pdf'), fileName: 'a.pdf', fileSize: 1, documentName: 'a.pdf', folderId: 'f',
+      embeddingModel: 'm', stage: 'store', status: 'running', progress: 90, attempts: 0,
+      extracted: { text: 't', method: 'text' }, chunks: [{ text: 't' }], embedded: [],
+      createdAt: 0, updatedAt: 0
+    });
+
+    expect(summary).not.toHaveProperty('file');
+    expect(summary).not.toHaveProperty('extracted');
+    expect(summary).not.toHaveProperty('chunks');
+    expect(summary).not.toHaveProperty('embedded');
+  });
+});
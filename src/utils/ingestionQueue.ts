@@ -0,0 +1,232 @@
+/**
+ * Persistent Ingestion Queue
+ * One IndexedDB job per uploaded file, processed in stages extract → chunk → embed → store.
+ * Every stage checkpoints its output on the job, so after a reload the queue resumes
+ * from the last finished stage of each file.
+ */
+
+import { IngestionJob, IngestionJobStorage, DocumentStorage, StoredDocument } from './persistentStorage';
+import {
+  extractDocument,
+  splitIntoChunks,
+  hashChunks,
+  embedChunks,
+  storeDocument,
+  createDocumentId
+} from './documentProcessor';
+import { hashFile } from './contentHash';
+import type { BatchEmbedder } from './vectorUtils';
+
+const INGESTION_LOCK = 'ingestion';
+
+export interface IngestionRunOptions {
+  embedderFor: (model: string) => BatchEmbedder;
+  signal?: AbortSignal;                       // Abort pauses the job (stages that support it stop early)
+  onUpdate?: (job: IngestionJob) => void;     // Progress and status changes
+}
+
+/**
+ * Messages between the page and the ingestion worker
+ */
+export type IngestionWorkerRequest = { type: 'start' } | { type: 'pause' };
+export type IngestionWorkerMessage = { type: 'update'; job: IngestionJob } | { type: 'idle' };
+
+/**
+ * Job without its file and stage outputs, small enough to post on every progress tick
+ */
+export function summarizeJob(job: IngestionJob): IngestionJob {
+  const { file: _file, extracted: _extracted, chunks: _chunks, embedded: _embedded, ...summary } = job;
+  return summary;
+}
+
+/**
+ * File to ingest; `replaceDocumentId` turns the upload into a new version of that document
+ */
+export interface IngestionUpload {
+  file: File;
+  contentHash: string;
+  replaceDocumentId?: string;
+}
+
+/**
+ * Upload checked against stored documents before queueing
+ */
+export interface InspectedUpload {
+  file: File;
+  contentHash: string;
+  duplicateOf?: string;                 // Name of a stored document (or earlier file in the batch) with identical content
+  previousVersion?: StoredDocument;     // Same name in the target folder, different content
+}
+
+/**
+ * Hash files and find exact duplicates and documents they may be new versions of
+ */
+export async function inspectUploads(files: File[], folderId: string): Promise<InspectedUpload[]> {
+  const seen = new Map<string, string>();
+  const inspected: InspectedUpload[] = [];
+
+  for (const file of files) {
+    const contentHash = await hashFile(file);
+    const [existing] = await DocumentStorage.findByHash(contentHash);
+    const duplicateOf = existing?.name ?? seen.get(contentHash);
+    seen.set(contentHash, seen.get(contentHash) ?? file.name);
+
+    inspected.push({
+      file,
+      contentHash,
+      duplicateOf,
+      previousVersion: duplicateOf ? undefined : await DocumentStorage.findByName(folderId, file.name)
+    });
+  }
+
+  return inspected;
+}
+
+/**
+ * Queue files for ingestion; returns the created jobs
+ */
+export async function enqueueFiles(uploads: IngestionUpload[], folderId: string, embeddingModel: string): Promise<IngestionJob[]> {
+  const now = Date.now();
+  const jobs: IngestionJob[] = uploads.map(({ file, contentHash, replaceDocumentId }, i) => ({
+    id: `ingest_${now}_${i}`,
+    file,
+    contentHash,
+    documentId: replaceDocumentId ?? createDocumentId(contentHash),
+    replace: !!replaceDocumentId,
+    fileName: file.name,
+    fileSize: file.size,
+    documentName: file.name,
+    folderId,
+    embeddingModel,
+    stage: 'extract',
+    status: 'queued',
+    progress: 0,
+    attempts: 0,
+    createdAt: now + i, // Keeps upload order
+    updatedAt: now
+  }));
+
+  await IngestionJobStorage.saveBulk(jobs);
+  return jobs;
+}
+
+/**
+ * Run the remaining stages of one job. Returns the job in its final state
+ * (completed, paused when aborted, or failed).
+ */
+export async function runIngestionJob(jobId: string, options: IngestionRunOptions): Promise<IngestionJob> {
+  const { embedderFor, signal, onUpdate } = options;
+  const stored = await IngestionJobStorage.get(jobId);
+  if (!stored) {
+    throw new Error(`Ingestion job ${jobId} not found`);
+  }
+
+  // Jobs queued before content hashing get their document ID on first run
+  let job: IngestionJob = { documentId: createDocumentId(stored.id), ...stored, status: 'running', error: undefined };
+  const documentId = job.documentId!;
+  const checkpoint = async (changes: Partial<IngestionJob>) => {
+    job = { ...job, ...changes, updatedAt: Date.now() };
+    await IngestionJobStorage.save(job);
+    onUpdate?.(job);
+  };
+  // Progress ticks are only reported; they are persisted with the next checkpoint
+  const reportProgress = (progress: number) => {
+    job = { ...job, progress };
+    onUpdate?.(job);
+  };
+
+  await checkpoint({});
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        await checkpoint({ status: 'paused' });
+        return job;
+      }
+
+      switch (job.stage) {
+        case 'extract': {
+          if (!job.file) {
+            throw new Error('Tệp gốc không còn trong hàng đợi, vui lòng tải lên lại');
+          }
+          const extracted = await extractDocument(job.file, reportProgress, signal);
+          await checkpoint({ extracted, stage: 'chunk' });
+          break;
+        }
+
+        case 'chunk': {
+          const chunks = await hashChunks(splitIntoChunks(job.extracted!.text, job.extracted!.pages));
+          await checkpoint({ chunks, stage: 'embed', progress: 70 });
+          break;
+        }
+
+        case 'embed': {
+          const embedded = await embedChunks(
+            job.chunks!, documentId, job.documentName, job.folderId,
+            embedderFor(job.embeddingModel), job.embeddingModel, reportProgress
+          );
+          await checkpoint({ embedded, stage: 'store' });
+          break;
+        }
+
+        case 'store': {
+          await storeDocument(
+            { name: job.fileName, size: job.fileSize }, job.documentName, job.folderId, job.extracted!, job.embedded!,
+            { documentId, contentHash: job.contentHash, replace: job.replace, original: job.file }
+          );
+          // Intermediate data is no longer needed once the document is stored
+          await checkpoint({
+            status: 'completed',
+            progress: 100,
+            result: { documentId, chunks: job.embedded!.length, method: job.extracted!.method },
+            file: undefined,
+            extracted: undefined,
+            chunks: undefined,
+            embedded: undefined
+          });
+          return job;
+        }
+      }
+    }
+  } catch (error) {
+    // Cancelled mid-stage: the stage re-runs on resume
+    if (signal?.aborted) {
+      await checkpoint({ status: 'paused' });
+      return job;
+    }
+    console.error(`[Ingestion] Job ${jobId} failed at stage ${job.stage}:`, error);
+    await checkpoint({
+      status: 'failed',
+      attempts: job.attempts + 1,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return job;
+  }
+}
+
+/**
+ * Process queued jobs oldest first until the queue is empty or the signal aborts.
+ * Every open tab drains the same queue, so only the holder of the ingestion lock runs
+ * jobs; a job still marked running when the lock is granted was left by a closed tab.
+ */
+export async function drainIngestionQueue(options: IngestionRunOptions): Promise<void> {
+  const drain = async () => {
+    await IngestionJobStorage.recoverInterrupted();
+    while (!options.signal?.aborted) {
+      const next = await IngestionJobStorage.getNextQueued();
+      if (!next) return;
+      await runIngestionJob(next.id, options);
+    }
+  };
+
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    await drain();
+    return;
+  }
+  try {
+    await navigator.locks.request(INGESTION_LOCK, { signal: options.signal }, drain);
+  } catch (error) {
+    // Paused while another tab held the lock
+    if (!options.signal?.aborted) throw error;
+  }
+}
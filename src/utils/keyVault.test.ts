@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for the API Key Vault
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createVault, decryptSecret, encryptSecret, openVault, redactSecret, VaultSession } from './keyVault';
+
+// Few iterations keep the tests fast; stored vaults record their own count
+const ITERATIONS = 1000;
+
+describe('keyVault', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should encrypt and decrypt secrets with the passphrase key', async () => {
+    const { meta, key } = await createVault('correct horse battery', ITERATIONS);
+    const secret = await encryptSecret(key, 'sk-ant-api03-secret');
+
+    expect(secret.data).not.toContain('sk-ant');
+    const reopened = await openVault('correct horse battery', meta);
+    await expect(decryptSecret(reopened, secret)).resolves.toBe('sk-ant-api03-secret');
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const { meta } = await createVault('correct horse battery', ITERATIONS);
+
+    await expect(openVault('wrong passphrase', meta)).rejects.toThrow('Incorrect passphrase');
+  });
+
+  it('should use a fresh nonce for every encryption', async () => {
+    const { key } = await createVault('correct horse battery', ITERATIONS);
+
+    const first = await encryptSecret(key, 'gsk_same');
+    const second = await encryptSecret(key, 'gsk_same');
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+
+  it('should redact all but the last characters', () => {
+    expect(redactSecret('sk-proj-abcdefgh1234')).toBe('••••1234');
+    expect(redactSecret('short')).toBe('••••');
+    expect(redactSecret(undefined)).toBeUndefined();
+  });
+
+  it('should lock after inactivity and notify listeners', async () => {
+    vi.useFakeTimers();
+    const { key } = await createVault('correct horse battery', ITERATIONS);
+    const session = new VaultSession(60_000);
+    const onLock = vi.fn();
+    session.onLock(onLock);
+
+    session.unlock(key);
+    vi.advanceTimersByTime(45_000);
+    session.touch();
+    vi.advanceTimersByTime(45_000);
+    expect(session.isUnlocked()).toBe(true);
+
+    vi.advanceTimersByTime(15_000);
+    expect(session.isUnlocked()).toBe(false);
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(() => session.getKey()).toThrow('Key vault is locked');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * API Key Vault
+ * Provider credentials are stored encrypted with AES-GCM under a key derived from a user
+ * passphrase (PBKDF2-SHA256). The derived key lives only in memory for the session and is
+ * dropped when the vault locks, manually or after a period of inactivity.
+ */
+
+/**
+ * PBKDF2 iterations for new vaults (OWASP recommendation for SHA-256)
+ */
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Known text encrypted at setup, decrypted to verify the passphrase on unlock
+ */
+const CHECK_TEXT = 'querymaster-key-vault';
+
+/**
+ * Lock after this long without user activity (ms)
+ */
+export const AUTO_LOCK_MS = 15 * 60 * 1000;
+
+export interface EncryptedSecret {
+  iv: string;   // Base64 AES-GCM nonce
+  data: string; // Base64 ciphertext with authentication tag
+}
+
+/**
+ * Stored alongside the encrypted keys; holds no secret
+ */
+export interface VaultMeta {
+  salt: string; // Base64
+  iterations: number;
+  check: EncryptedSecret;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+export async function deriveVaultKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptSecret(key: CryptoKey, plaintext: string): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a secret; fails when the key is wrong or the data was altered
+ */
+export async function decryptSecret(key: CryptoKey, secret: EncryptedSecret): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+    key,
+    fromBase64(secret.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Set up a vault for a new passphrase
+ */
+export async function createVault(
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{ meta: VaultMeta; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveVaultKey(passphrase, salt, iterations);
+  return {
+    meta: { salt: toBase64(salt), iterations, check: await encryptSecret(key, CHECK_TEXT) },
+    key,
+  };
+}
+
+/**
+ * Derive the vault key from a passphrase, rejecting a wrong passphrase
+ */
+export async function openVault(passphrase: string, meta: VaultMeta): Promise<CryptoKey> {
+  const key = await deriveVaultKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  const check = await decryptSecret(key, meta.check).catch(() => undefined);
+  if (check !== CHECK_TEXT) {
+    throw new Error('Incorrect passphrase');
+  }
+  return key;
+}
+
+/**
+ * Key shown in place of a secret: its last characters only
+ */
+export function redactSecret(secret: string | undefined): string | undefined {
+  if (!secret) return undefined;
+  return secret.length > 8 ? `••••${secret.slice(-4)}` : '••••';
+}
+
+/**
+ * Holds the unlocked vault key for the session and locks it after inactivity
+ */
+export class VaultSession {
+  private key: CryptoKey | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private listeners = new Set<() => void>();
+
+  constructor(private autoLockMs: number = AUTO_LOCK_MS) {}
+
+  unlock(key: CryptoKey): void {
+    this.key = key;
+    this.touch();
+  }
+
+  lock(): void {
+    clearTimeout(this.timer);
+    if (!this.key) return;
+    this.key = null;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Key for encrypting or decrypting secrets; throws when locked
+   */
+  getKey(): CryptoKey {
+    if (!this.key) {
+      throw new Error('Key vault is locked');
+    }
+    return this.key;
+  }
+
+  /**
+   * Record user activity, postponing the auto-lock
+   */
+  touch(): void {
+    if (!this.key) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.lock(), this.autoLockMs);
+  }
+
+  /**
+   * Listen for the vault locking; returns an unsubscribe function
+   */
+  onLock(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
@@ -4,7 +4,10 @@
  */
 
 import * as pdfjsLib from 'pdfjs-dist';
-import { createWorker, Worker } from 'tesseract.js';
+import { createWorker, Worker as TesseractWorker } from 'tesseract.js';
+import { parseDocx, docxBlocksToText } from './docxParser';
+import { WorkerPool, canSpawnWorkers } from './performance';
+import type { OcrTask } from '@/workers/workerProtocol';
 
 // Configure PDF.js worker - Use local worker from node_modules
 // This fixes the "Setting up fake worker failed" error in Vite
@@ -22,12 +25,79 @@ export interface OcrProgress {
 export type OcrProgressCallback = (progress: OcrProgress) => void;
 
 /**
- * Extract text from PDF using PDF.js
+ * Text of a single PDF page (1-based page number)
+ */
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Result of smart extraction - pages are only present for paginated formats (PDF)
+ */
+export interface ExtractionResult {
+  text: string;
+  pages?: ExtractedPage[];
+  method: 'text' | 'ocr';
+}
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+/**
+ * PDF.js canvas factory for Web Workers, where its default factory cannot reach
+ * `document` to create the scratch canvases used for images, masks and patterns
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    if (width <= 0 || height <= 0) {
+      throw new Error('Invalid canvas size');
+    }
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    if (!canvasAndContext.canvas) {
+      throw new Error('Canvas is not specified');
+    }
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+/**
+ * Open a PDF with the configured PDF.js worker (document viewer)
+ */
+export async function openPdf(data: ArrayBuffer): Promise<pdfjsLib.PDFDocumentProxy> {
+  return await pdfjsLib.getDocument({ data }).promise;
+}
+
+/**
+ * Join extracted pages into a single text, separated by blank lines
+ */
+export function joinPages(pages: ExtractedPage[]): string {
+  return pages.map(page => page.text).join('\n\n').trim();
+}
+
+/**
+ * Extract text from PDF using PDF.js (one entry per page)
  */
 export async function extractTextFromPDF(
   file: File,
   onProgress?: OcrProgressCallback
-): Promise<string> {
+): Promise<ExtractedPage[]> {
   try {
     onProgress?.({
       stage: 'loading',
@@ -40,7 +110,7 @@ export async function extractTextFromPDF(
     const pdf = await loadingTask.promise;
     
     const totalPages = pdf.numPages;
-    let fullText = '';
+    const pages: ExtractedPage[] = [];
     
     onProgress?.({
       stage: 'processing',
@@ -52,12 +122,13 @@ export async function extractTextFromPDF(
       const page = await pdf.getPage(pageNum);
       const textContent = await page.getTextContent();
       
-      // Extract text from page
+      // Extract text from page, keeping line breaks so headings like "Điều 12." start a line
       const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
+        .map((item: any) => item.str + (item.hasEOL ? '\n' : ' '))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n');
       
-      fullText += pageText + '\n\n';
+      pages.push({ pageNumber: pageNum, text: pageText.trim() });
       
       // Update progress
       const progress = 20 + (pageNum / totalPages) * 60;
@@ -74,7 +145,7 @@ export async function extractTextFromPDF(
       message: 'Hoàn thành trích xuất text từ PDF'
     });
 
-    return fullText.trim();
+    return pages;
   } catch (error) {
     console.error('Error extracting text from PDF:', error);
     throw new Error(`Lỗi khi trích xuất text từ PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -82,12 +153,15 @@ export async function extractTextFromPDF(
 }
 
 /**
- * Extract text from images in PDF using OCR (Tesseract.js)
+ * Extract text from images in PDF using OCR (Tesseract.js), one entry per page
  */
 export async function extractTextFromPDFWithOCR(
   file: File,
-  onProgress?: OcrProgressCallback
-): Promise<string> {
+  onProgress?: OcrProgressCallback,
+  signal?: AbortSignal
+): Promise<ExtractedPage[]> {
+  let worker: TesseractWorker | undefined;
+  let pdf: pdfjsLib.PDFDocumentProxy | undefined;
   try {
     onProgress?.({
       stage: 'loading',
@@ -96,7 +170,7 @@ export async function extractTextFromPDFWithOCR(
     });
 
     // Create Tesseract worker
-    const worker = await createWorker('vie+eng', 1, {
+    worker = await createWorker('vie+eng', 1, {
       logger: (m) => {
         if (m.status === 'recognizing text') {
           const progress = 10 + (m.progress * 70);
@@ -117,33 +191,41 @@ export async function extractTextFromPDFWithOCR(
 
     // Convert PDF pages to images and OCR
     const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
+    const loadingTask = pdfjsLib.getDocument({
+      data: arrayBuffer,
+      CanvasFactory: typeof document === 'undefined' ? OffscreenCanvasFactory : undefined
+    });
+    pdf = await loadingTask.promise;
     
     const totalPages = pdf.numPages;
-    let fullText = '';
+    const pages: ExtractedPage[] = [];
 
     for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      signal?.throwIfAborted();
       const page = await pdf.getPage(pageNum);
       
-      // Render page to canvas
+      // Render page to canvas (OffscreenCanvas when running inside a Web Worker)
       const viewport = page.getViewport({ scale: 2.0 });
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d')!;
+      const canvas = typeof document !== 'undefined'
+        ? document.createElement('canvas')
+        : new OffscreenCanvas(viewport.width, viewport.height);
+      const context = canvas.getContext('2d') as CanvasRenderingContext2D;
       canvas.height = viewport.height;
       canvas.width = viewport.width;
 
       await page.render({ 
         canvasContext: context, 
         viewport,
-        canvas
+        canvas: canvas as HTMLCanvasElement
       }).promise;
       
       // Convert canvas to image and OCR
-      const imageData = canvas.toDataURL('image/png');
+      const imageData = canvas instanceof OffscreenCanvas
+        ? await canvas.convertToBlob({ type: 'image/png' })
+        : canvas.toDataURL('image/png');
       const { data: { text } } = await worker.recognize(imageData);
       
-      fullText += text + '\n\n';
+      pages.push({ pageNumber: pageNum, text: text.trim() });
       
       onProgress?.({
         stage: 'ocr',
@@ -152,24 +234,56 @@ export async function extractTextFromPDFWithOCR(
       });
     }
 
-    await worker.terminate();
-
     onProgress?.({
       stage: 'complete',
       progress: 100,
       message: 'Hoàn thành OCR'
     });
 
-    return fullText.trim();
+    return pages;
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('Error performing OCR on PDF:', error);
     throw new Error(`Lỗi khi thực hiện OCR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    // Pool workers are long-lived, so release the document along with the OCR engine
+    await pdf?.destroy();
+    await worker?.terminate();
   }
 }
 
+let ocrPool: WorkerPool | null = null;
+
 /**
- * Extract text from DOCX files
- * Note: For proper DOCX support, consider using mammoth.js
+ * OCR a PDF in the OCR worker pool so page rendering and recognition stay off the page's thread;
+ * runs in place where workers are unavailable
+ */
+export async function ocrPDFInWorker(
+  file: File,
+  onProgress?: OcrProgressCallback,
+  signal?: AbortSignal
+): Promise<ExtractedPage[]> {
+  if (!canSpawnWorkers()) {
+    return extractTextFromPDFWithOCR(file, onProgress, signal);
+  }
+
+  ocrPool ??= new WorkerPool(
+    () => new Worker(new URL('../workers/ocrWorker.ts', import.meta.url), { type: 'module' }),
+    Math.min(2, navigator.hardwareConcurrency || 2)
+  );
+  const data = await file.arrayBuffer();
+  const task: OcrTask = { name: file.name, data };
+  return await ocrPool.execute<ExtractedPage[]>(task, {
+    signal,
+    transfer: [data],
+    onProgress: (progress, message) => onProgress?.({ stage: 'ocr', progress, message: message ?? '' })
+  });
+}
+
+/**
+ * Extract structured text from DOCX files
+ * Headings are rendered Markdown-style (#), list items keep their numbering
+ * and table rows are rendered as "| cell | cell |"
  */
 export async function extractTextFromDOCX(
   file: File,
@@ -182,9 +296,7 @@ export async function extractTextFromDOCX(
       message: 'Đang đọc file DOCX...'
     });
 
-    // For now, we'll use a simple text extraction
-    // In production, use mammoth.js or similar library
-    const text = await file.text();
+    const arrayBuffer = await file.arrayBuffer();
     
     onProgress?.({
       stage: 'processing',
@@ -192,11 +304,8 @@ export async function extractTextFromDOCX(
       message: 'Đang xử lý nội dung...'
     });
 
-    // Simple XML parsing for DOCX (basic implementation)
-    const textContent = text
-      .replace(/<[^>]*>/g, ' ') // Remove XML tags
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
+    const blocks = parseDocx(arrayBuffer);
+    const textContent = docxBlocksToText(blocks);
 
     onProgress?.({
       stage: 'complete',
@@ -216,18 +325,20 @@ export async function extractTextFromDOCX(
  */
 export async function smartExtractText(
   file: File,
-  onProgress?: OcrProgressCallback
-): Promise<{ text: string; method: 'text' | 'ocr' }> {
+  onProgress?: OcrProgressCallback,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
   const fileType = file.name.toLowerCase().endsWith('.pdf') ? 'pdf' : 'docx';
   
   if (fileType === 'pdf') {
     try {
       // Try text extraction first
-      const text = await extractTextFromPDF(file, onProgress);
+      const pages = await extractTextFromPDF(file, onProgress);
+      const text = joinPages(pages);
       
       // Check if we got meaningful text
       if (text.length > 100) {
-        return { text, method: 'text' };
+        return { text, pages, method: 'text' };
       }
       
       // If text is too short, try OCR
@@ -237,8 +348,8 @@ export async function smartExtractText(
         message: 'Text extraction không đủ, chuyển sang OCR...'
       });
       
-      const ocrText = await extractTextFromPDFWithOCR(file, onProgress);
-      return { text: ocrText, method: 'ocr' };
+      const ocrPages = await ocrPDFInWorker(file, onProgress, signal);
+      return { text: joinPages(ocrPages), pages: ocrPages, method: 'ocr' };
     } catch (error) {
       console.error('Error in smart extraction:', error);
       throw error;
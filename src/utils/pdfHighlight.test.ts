@@ -0,0 +1,56 @@
+/**
+ * Unit Tests for PDF Passage Highlighting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findChunkSpans, spanRect } from './pdfHighlight';
+
+const items = [
+  'Điều 12. Chiều cao công trình',
+  'Chiều cao tối đa của nhà chung cư',
+  'là 150 m tính từ cao độ',
+  'mặt đất.',
+  'Điều 13. Khoảng lùi'
+];
+
+describe('PDF Highlight', () => {
+  it('should highlight every item of a passage', () => {
+    const spans = findChunkSpans(items, 'Chiều cao tối đa của nhà chung cư\nlà 150 m tính từ cao độ\nmặt đất.');
+
+    expect(spans).toEqual([
+      { item: 1, start: 0, end: items[1].length },
+      { item: 2, start: 0, end: items[2].length },
+      { item: 3, start: 0, end: items[3].length }
+    ]);
+  });
+
+  it('should match across differently wrapped lines and partial items', () => {
+    const spans = findChunkSpans(items, 'nhà chung cư là 150 m');
+
+    expect(spans).toEqual([
+      { item: 1, start: items[1].indexOf('nhà'), end: items[1].length },
+      { item: 2, start: 0, end: 'là 150 m'.length }
+    ]);
+  });
+
+  it('should skip lines that are not on the page', () => {
+    // Carried-over heading from another page, then the passage itself
+    const spans = findChunkSpans(items, 'Chương III\nĐiều 13. Khoảng lùi');
+
+    expect(spans).toEqual([{ item: 4, start: 0, end: items[4].length }]);
+  });
+
+  it('should match decomposed Vietnamese text', () => {
+    const decomposed = items.map(item => item.normalize('NFD'));
+    expect(findChunkSpans(decomposed, 'mặt đất.')).toHaveLength(1);
+  });
+
+  it('should place partial spans proportionally within the item', () => {
+    const rect = spanRect(
+      { str: 'abcdefghij', transform: [10, 0, 0, 10, 100, 500], width: 50, height: 10 },
+      { item: 0, start: 2, end: 6 }
+    );
+
+    expect(rect).toEqual([110, 500, 130, 510]);
+  });
+});
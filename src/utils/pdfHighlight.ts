@@ -0,0 +1,121 @@
+/**
+ * PDF Passage Highlighting
+ * Locates a chunk's text among the text items pdf.js returns for a page (getTextContent)
+ * and turns the matched character ranges into rectangles in PDF user space.
+ */
+
+import { normalizeVietnamese } from './vietnameseText';
+
+/**
+ * The parts of a pdf.js TextItem used for highlighting
+ */
+export interface PdfTextItem {
+  str: string;
+  transform: number[]; // [a, b, c, d, x, y]: x/y is the baseline origin
+  width: number;
+  height: number;
+}
+
+/**
+ * Matched characters [start, end) of one text item
+ */
+export interface TextSpan {
+  item: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Chunk lines shorter than this are not searched on their own (e.g. "1." or "a)")
+ */
+const MIN_LINE_LENGTH = 4;
+
+/**
+ * Page text with whitespace collapsed; each character remembers its item and offset
+ */
+function buildPageIndex(items: string[]): { text: string; origin: Array<{ item: number; offset: number } | null> } {
+  let text = '';
+  const origin: Array<{ item: number; offset: number } | null> = [];
+
+  const pushSpace = (source: { item: number; offset: number } | null) => {
+    if (text.length > 0 && !text.endsWith(' ')) {
+      text += ' ';
+      origin.push(source);
+    }
+  };
+
+  items.forEach((str, item) => {
+    const normalized = normalizeVietnamese(str);
+    for (let offset = 0; offset < normalized.length; offset++) {
+      const char = normalized[offset];
+      if (/\s/.test(char)) {
+        pushSpace({ item, offset });
+      } else {
+        text += char;
+        origin.push({ item, offset });
+      }
+    }
+    pushSpace(null); // Items are separate words or lines
+  });
+
+  return { text, origin };
+}
+
+function normalizeLine(line: string): string {
+  return normalizeVietnamese(line).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Character ranges of the page's text items that belong to the chunk. Each chunk line is
+ * searched separately, in order, so carried-over headings and page breaks do not prevent
+ * the rest of the passage from matching.
+ */
+export function findChunkSpans(items: string[], chunkText: string): TextSpan[] {
+  const page = buildPageIndex(items);
+  const lines = chunkText
+    .split('\n')
+    .map(normalizeLine)
+    .filter(line => line.length >= MIN_LINE_LENGTH);
+
+  const matched = new Set<number>(); // Indexes into page.text
+  let cursor = 0;
+  for (const line of lines) {
+    let at = page.text.indexOf(line, cursor);
+    if (at === -1) at = page.text.indexOf(line);
+    if (at === -1) continue;
+
+    for (let i = at; i < at + line.length; i++) matched.add(i);
+    cursor = at + line.length;
+  }
+
+  // Merge consecutive matched characters into per-item ranges
+  const spans: TextSpan[] = [];
+  let previous = -2;
+  for (const index of Array.from(matched).sort((a, b) => a - b)) {
+    const origin = page.origin[index];
+    const last = spans[spans.length - 1];
+    if (origin && last?.item === origin.item && previous === index - 1) {
+      last.end = origin.offset + 1;
+    } else if (origin) {
+      spans.push({ item: origin.item, start: origin.offset, end: origin.offset + 1 });
+    }
+    previous = index;
+  }
+  return spans;
+}
+
+/**
+ * Rectangle [x1, y1, x2, y2] of a span in PDF user space (characters assumed equally wide)
+ */
+export function spanRect(item: PdfTextItem, span: TextSpan): [number, number, number, number] {
+  const length = Math.max(normalizeVietnamese(item.str).length, 1);
+  const [, , , , x, y] = item.transform;
+  // Text height defaults to the font size from the transform
+  const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+  return [
+    x + (item.width * span.start) / length,
+    y,
+    x + (item.width * span.end) / length,
+    y + height
+  ];
+}
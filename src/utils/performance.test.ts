@@ -0,0 +1,89 @@
+/**
+ * Unit Tests for WorkerPool
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkerPool } from './performance';
+import type { WorkerRequest, WorkerResponse } from '@/workers/workerProtocol';
+
+// Worker double: answers each task after a tick, reporting progress first; cancel ends a task early
+class FakeWorker {
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: WorkerRequest[] = [];
+
+  postMessage(request: WorkerRequest) {
+    this.requests.push(request);
+    const reply = (response: WorkerResponse) => this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>);
+
+    if (request.type === 'cancel') {
+      setTimeout(() => reply({ type: 'error', taskId: request.taskId, error: 'aborted', cancelled: true }));
+      return;
+    }
+    setTimeout(() => {
+      if (this.requests.some(r => r.type === 'cancel' && r.taskId === request.taskId)) return;
+      reply({ type: 'progress', taskId: request.taskId, progress: 50 });
+      reply({ type: 'result', taskId: request.taskId, result: (request.data as number) * 2 });
+    }, 5);
+  }
+
+  terminate() {}
+}
+
+const createPool = (size: number) => {
+  const workers: FakeWorker[] = [];
+  const pool = new WorkerPool(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  }, size);
+  return { pool, workers };
+};
+
+describe('WorkerPool', () => {
+  it('should resolve tasks with worker results and report progress', async () => {
+    const { pool } = createPool(2);
+    const onProgress = vi.fn();
+
+    const results = await Promise.all([1, 2, 3].map(n => pool.execute<number>(n, { onProgress })));
+
+    expect(results).toEqual([2, 4, 6]);
+    expect(onProgress).toHaveBeenCalledWith(50, undefined);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop cancelled tasks that are still queued', async () => {
+    const { pool, workers } = createPool(1);
+    const controller = new AbortController();
+
+    const first = pool.execute<number>(1);
+    const second = pool.execute<number>(2, { signal: controller.signal });
+    controller.abort();
+
+    await expect(second).rejects.toThrow('Task cancelled');
+    await expect(first).resolves.toBe(2);
+    expect(workers[0].requests).toHaveLength(1);
+  });
+
+  it('should ask a busy worker to cancel and free it afterwards', async () => {
+    const { pool, workers } = createPool(1);
+    const controller = new AbortController();
+
+    const running = pool.execute<number>(1, { signal: controller.signal });
+    controller.abort();
+
+    await expect(running).rejects.toThrow('Task cancelled');
+    expect(workers[0].requests[1]).toEqual({ type: 'cancel', taskId: 1 });
+    await expect(pool.execute<number>(5)).resolves.toBe(10);
+  });
+
+  it('should stop listening to a shared signal once tasks settle', async () => {
+    const { pool } = createPool(1);
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await Promise.all([1, 2, 3].map(n => pool.execute<number>(n, { signal: controller.signal })));
+
+    expect(removeListener).toHaveBeenCalledTimes(3);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import { useCallback, useRef, useEffect, useMemo } from 'react';
+import type { WorkerRequest, WorkerResponse } from '@/workers/workerProtocol';
 
 /**
  * Debounce Hook for performance optimization
@@ -162,37 +163,83 @@ export async function processBatch<T, R>(
 
 /**
  * Web Worker Utilities
+ * Workers implement the task protocol in workers/workerProtocol.ts (see serveWorkerTasks)
  */
+export interface WorkerTaskOptions {
+  signal?: AbortSignal;                                   // Cancels a queued or running task
+  onProgress?: (progress: number, message?: string) => void;
+  transfer?: Transferable[];                              // Buffers moved to the worker
+}
+
+interface PoolTask {
+  id: number;
+  data: any;
+  options: WorkerTaskOptions;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
+const cancelledError = () => new DOMException('Task cancelled', 'AbortError');
+
+/**
+ * True wherever Worker exists, including inside workers (the ingestion worker hands
+ * embedding and OCR to the pools); false in test environments, where work runs in place.
+ * Pool workers call the in-place functions, so pools never nest further.
+ */
+export const canSpawnWorkers = (): boolean => typeof Worker !== 'undefined';
+
 export class WorkerPool {
   private workers: Worker[] = [];
-  private taskQueue: Array<{
-    data: any;
-    resolve: (value: any) => void;
-    reject: (error: any) => void;
-  }> = [];
-  private activeWorkers = new Set<Worker>();
-
+  private taskQueue: PoolTask[] = [];
+  private activeWorkers = new Map<Worker, PoolTask>();
+  private nextTaskId = 1;
+
+  /**
+   * Pass a factory (`() => new Worker(new URL('...', import.meta.url), { type: 'module' })`)
+   * so Vite can detect and bundle the worker script
+   */
   constructor(
-    workerScript: string | URL,
+    workerScript: string | URL | (() => Worker),
     poolSize: number = navigator.hardwareConcurrency || 4
   ) {
     for (let i = 0; i < poolSize; i++) {
-      const worker = new Worker(workerScript, { type: 'module' });
+      const worker = typeof workerScript === 'function'
+        ? workerScript()
+        : new Worker(workerScript, { type: 'module' });
       this.workers.push(worker);
       
-      worker.onmessage = (e) => {
-        this.activeWorkers.delete(worker);
-        this.processNextTask();
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        this.handleResponse(worker, e.data);
       };
       
       worker.onerror = (error) => {
         console.error('Worker error:', error);
+        this.activeWorkers.get(worker)?.reject(new Error(error.message || 'Worker error'));
         this.activeWorkers.delete(worker);
         this.processNextTask();
       };
     }
   }
 
+  private handleResponse(worker: Worker, response: WorkerResponse): void {
+    const task = this.activeWorkers.get(worker);
+    if (!task || task.id !== response.taskId) return;
+    
+    if (response.type === 'progress') {
+      task.options.onProgress?.(response.progress, response.message);
+      return;
+    }
+    
+    if (response.type === 'result') {
+      task.resolve(response.result);
+    } else {
+      task.reject(response.cancelled ? cancelledError() : new Error(response.error));
+    }
+    
+    this.activeWorkers.delete(worker);
+    this.processNextTask();
+  }
+
   private processNextTask(): void {
     if (this.taskQueue.length === 0) return;
     
@@ -202,26 +249,51 @@ export class WorkerPool {
     const task = this.taskQueue.shift();
     if (!task) return;
     
-    this.activeWorkers.add(availableWorker);
-    
-    availableWorker.onmessage = (e) => {
-      task.resolve(e.data);
-      this.activeWorkers.delete(availableWorker);
-      this.processNextTask();
-    };
-    
-    availableWorker.onerror = (error) => {
-      task.reject(error);
-      this.activeWorkers.delete(availableWorker);
-      this.processNextTask();
-    };
-    
-    availableWorker.postMessage(task.data);
+    this.activeWorkers.set(availableWorker, task);
+    const request: WorkerRequest = { type: 'task', taskId: task.id, data: task.data };
+    availableWorker.postMessage(request, task.options.transfer ?? []);
   }
 
-  execute<T = any>(data: any): Promise<T> {
+  private cancel(task: PoolTask): void {
+    const queuedIndex = this.taskQueue.indexOf(task);
+    if (queuedIndex >= 0) {
+      this.taskQueue.splice(queuedIndex, 1);
+    } else {
+      // The worker stops at its next checkpoint and stays busy until it answers
+      for (const [worker, active] of this.activeWorkers) {
+        if (active === task) {
+          const request: WorkerRequest = { type: 'cancel', taskId: task.id };
+          worker.postMessage(request);
+        }
+      }
+    }
+    task.reject(cancelledError());
+  }
+
+  execute<T = any>(data: any, options: WorkerTaskOptions = {}): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.taskQueue.push({ data, resolve, reject });
+      if (options.signal?.aborted) {
+        reject(cancelledError());
+        return;
+      }
+      
+      // Callers may reuse one signal for many tasks, so drop the listener once a task settles
+      const onAbort = () => this.cancel(task);
+      const task: PoolTask = {
+        id: this.nextTaskId++,
+        data,
+        options,
+        resolve: value => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: error => {
+          options.signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.taskQueue.push(task);
       this.processNextTask();
     });
   }
@@ -229,7 +301,9 @@ export class WorkerPool {
   terminate(): void {
     this.workers.forEach(worker => worker.terminate());
     this.workers = [];
+    this.activeWorkers.forEach(task => task.reject(cancelledError()));
     this.activeWorkers.clear();
+    this.taskQueue.forEach(task => task.reject(cancelledError()));
     this.taskQueue = [];
   }
 }
@@ -12,7 +12,7 @@ import {
   DatabaseUtils,
   initializeDatabase
 } from './persistentStorage';
-import type { StoredDocument, StoredChunk, StoredFolder } from './persistentStorage';
+import type { StoredDocument, NewChunk, StoredFolder } from './persistentStorage';
 
 describe('Persistent Storage', () => {
   beforeEach(async () => {
@@ -123,13 +123,14 @@ describe('Persistent Storage', () => {
 
   describe('ChunkStorage', () => {
     it('should save and retrieve chunks', async () => {
-      const chunk: Omit<StoredChunk, 'createdAt' | 'updatedAt'> = {
+      const chunk: NewChunk = {
         id: 'chunk-1',
         text: 'Test chunk text',
         embedding: Array(384).fill(0.5),
         documentId: 'doc-1',
         documentName: 'Test Doc',
-        folderId: 'folder-1'
+        folderId: 'folder-1',
+        embeddingModel: 'Xenova/all-MiniLM-L6-v2'
       };
 
       await ChunkStorage.save(chunk);
@@ -141,14 +142,15 @@ describe('Persistent Storage', () => {
     });
 
     it('should bulk save chunks', async () => {
-      const chunks: Omit<StoredChunk, 'createdAt' | 'updatedAt'>[] = [
+      const chunks: NewChunk[] = [
         {
           id: 'chunk-1',
           text: 'Chunk 1',
           embedding: Array(384).fill(0.1),
           documentId: 'doc-1',
           documentName: 'Doc 1',
-          folderId: 'folder-1'
+          folderId: 'folder-1',
+          embeddingModel: 'Xenova/all-MiniLM-L6-v2'
         },
         {
           id: 'chunk-2',
@@ -156,7 +158,8 @@ describe('Persistent Storage', () => {
           embedding: Array(384).fill(0.2),
           documentId: 'doc-1',
           documentName: 'Doc 1',
-          folderId: 'folder-1'
+          folderId: 'folder-1',
+          embeddingModel: 'Xenova/all-MiniLM-L6-v2'
         }
       ];
 
@@ -167,14 +170,15 @@ describe('Persistent Storage', () => {
     });
 
     it('should get chunks by document', async () => {
-      const chunks: Omit<StoredChunk, 'createdAt' | 'updatedAt'>[] = [
+      const chunks: NewChunk[] = [
         {
           id: 'chunk-1',
           text: 'Chunk 1',
           embedding: Array(384).fill(0.1),
           documentId: 'doc-1',
           documentName: 'Doc 1',
-          folderId: 'folder-1'
+          folderId: 'folder-1',
+          embeddingModel: 'Xenova/all-MiniLM-L6-v2'
         },
         {
           id: 'chunk-2',
@@ -182,7 +186,8 @@ describe('Persistent Storage', () => {
           embedding: Array(384).fill(0.2),
           documentId: 'doc-2',
           documentName: 'Doc 2',
-          folderId: 'folder-1'
+          folderId: 'folder-1',
+          embeddingModel: 'Xenova/all-MiniLM-L6-v2'
         }
       ];
 
@@ -3,36 +3,267 @@
  * Stores documents, chunks, embeddings, and folders
  */
 
-import Dexie, { Table } from 'dexie';
+import Dexie, { Table, Transaction } from 'dexie';
 import { VectorChunk } from './vectorUtils';
+import { tokenize, termFrequencies, bm25Score } from './bm25';
+import { HNSWIndex, HNSWMeta, HNSWNode, HNSW_DEFAULT_EF_SEARCH } from './hnswIndex';
+import { encodeEmbedding, EmbeddingFormat, DEFAULT_EMBEDDING_FORMAT } from './embeddingCodec';
+import { TextChunk } from './textChunker';
+import type { ExtractionResult } from './ocrEngine';
 import { DocumentItem, Folder } from '@/hooks/useDocuments';
+import { DocumentVersionInfo, parseRegulationCode, linkVersions } from './documentVersioning';
+import { normalizeForSearch } from './vietnameseText';
+import type { EncryptedSecret, VaultMeta } from './keyVault';
+import type {
+  AIProvider,
+  AIProviderSettings,
+  ContextReport,
+  GroundingReport,
+  RAGSettings,
+  RetrievedChunk,
+  UsageBudget,
+  UsageEvent
+} from '@/services/ai/types';
 
 export interface StoredDocument extends DocumentItem {
+  contentHash?: string; // SHA-256 of the uploaded file (absent for documents stored before hashing)
   content?: string; // Full text content
   chunks?: string[]; // IDs of associated chunks
   processingMethod?: 'text' | 'ocr';
   metadata?: Record<string, any>;
 }
 
+/**
+ * Version fields of a document, kept apart from its content so retrieval can check
+ * validity without loading every document's text
+ */
+export interface StoredDocumentVersion extends DocumentVersionInfo {
+  id: string;
+}
+
+/**
+ * Stored chunk; `embedding` is a Float32Array, or an Int8Array with `embeddingScale`
+ */
 export interface StoredChunk extends VectorChunk {
+  embeddingModel: string; // Model that produced the embedding
+  dimension: number;      // Embedding length
+  contentHash?: string;   // SHA-256 of the chunk text, to reuse embeddings of unchanged chunks
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * Chunk as passed to ChunkStorage (dimension and timestamps are filled in)
+ */
+export type NewChunk = Omit<StoredChunk, 'createdAt' | 'updatedAt' | 'dimension'>;
+
 export interface StoredFolder extends Folder {
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * Inverted index entry for one chunk (BM25 keyword search)
+ * `terms` is a multi-entry index, so chunks can be looked up by term
+ */
+export interface StoredTermEntry {
+  chunkId: string;
+  documentId: string;
+  folderId: string;
+  terms: string[];
+  termFreqs: Record<string, number>;
+  length: number;
+}
+
+/**
+ * Running corpus statistics for the keyword index
+ */
+export interface KeywordIndexStats {
+  id: string;
+  documentCount: number;
+  totalLength: number;
+}
+
+/**
+ * Persisted HNSW graph node (vectors stay in the chunks table)
+ */
+export interface StoredVectorNode extends HNSWNode {
+  folderId: string;
+  embeddingModel: string; // One graph per embedding model
+}
+
+export interface StoredVectorIndexMeta extends HNSWMeta {
+  id: string;
+}
+
+/**
+ * Background job re-embedding chunks with a new model (resumable)
+ */
+export interface ReembedJob {
+  id: string;
+  targetModel: string;
+  folderId?: string; // Whole database when omitted
+  status: 'running' | 'paused' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Per-file ingestion job; each stage checkpoints its output so a reload resumes
+ * from the last completed stage instead of starting over
+ */
+export type IngestionStage = 'extract' | 'chunk' | 'embed' | 'store';
+
+export interface IngestionJob {
+  id: string;
+  file?: File;            // Original upload, dropped once the job completes
+  contentHash?: string;   // SHA-256 of the file
+  documentId?: string;    // Document to create, or to replace when `replace` is set
+  replace?: boolean;
+  fileName: string;
+  fileSize: number;
+  documentName: string;
+  folderId: string;
+  embeddingModel: string;
+  stage: IngestionStage;  // Next stage to run
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+  progress: number;       // 0-100
+  attempts: number;
+  error?: string;
+  extracted?: ExtractionResult;
+  chunks?: Array<TextChunk & { contentHash?: string }>;
+  embedded?: NewChunk[];
+  result?: { documentId: string; chunks: number; method: 'text' | 'ocr' };
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Original uploaded file, kept for the document viewer
+ */
+export interface StoredDocumentFile {
+  documentId: string;
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+  createdAt: number;
+}
+
+/**
+ * One recorded provider call, with its estimated cost
+ */
+export interface UsageRecord extends Omit<UsageEvent, 'tag'> {
+  id: string;
+  purpose?: NonNullable<UsageEvent['tag']>['purpose'];
+  folderId?: string;
+  totalTokens: number;
+  costUsd: number;
+  createdAt: number;
+}
+
+/**
+ * Saved chat session
+ */
+export interface StoredConversation {
+  id: string;
+  title: string;          // Generated from the first question, can be renamed
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Chat message; assistant messages keep what is needed to revisit the answer later
+ */
+export interface StoredMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: RetrievedChunk[];
+  provider?: AIProvider;
+  fallbackFrom?: AIProvider; // Requested provider that another one stood in for
+  model?: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  searchQuery?: string;   // Standalone question used for retrieval
+  grounding?: GroundingReport;
+  context?: ContextReport;
+  processingTime?: number;
+  error?: boolean;        // Failed answers are not sent back as history
+  createdAt: number;
+}
+
 export interface AppSettings {
   id: string;
   selectedModel?: string;
   selectedEmbeddingModel?: string;
   selectedPlatform?: string;
   ocrConfig?: Record<string, any>;
+  embeddingFormat?: EmbeddingFormat; // How new chunk embeddings are stored
+  aiProviders?: AIProviderSettings;   // Saved from the AI settings panel, API keys blanked
+  apiKeys?: Partial<Record<AIProvider, EncryptedSecret>>; // Encrypted with the key vault
+  vault?: VaultMeta;
+  rag?: RAGSettings;
+  usageBudget?: UsageBudget;
   lastSync?: number;
 }
 
+const KEYWORD_INDEX_STATS_ID = 'bm25';
+
+// Queries always used this model before chunks recorded their embedding model
+const LEGACY_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const LEGACY_EMBEDDING_DIMENSION = 384;
+// Label for legacy chunks whose model cannot be inferred; re-embed them to search by vector
+export const UNKNOWN_EMBEDDING_MODEL = 'unknown';
+
+/**
+ * Tokenize chunk text into a keyword index entry
+ */
+function buildTermEntry(chunk: Pick<VectorChunk, 'id' | 'documentId' | 'folderId' | 'text'>): StoredTermEntry {
+  const tokens = tokenize(chunk.text);
+  const termFreqs = termFrequencies(tokens);
+  return {
+    chunkId: chunk.id,
+    documentId: chunk.documentId,
+    folderId: chunk.folderId,
+    terms: Object.keys(termFreqs),
+    termFreqs,
+    length: tokens.length
+  };
+}
+
+/**
+ * Convert a chunk's embedding to its storage representation (typed array)
+ */
+function encodeChunkEmbedding<T extends VectorChunk>(chunk: T, format: EmbeddingFormat): T {
+  if (chunk.embedding instanceof Int8Array) {
+    return chunk; // Already quantized
+  }
+  return { ...chunk, embeddingScale: undefined, ...encodeEmbedding(chunk.embedding, format) };
+}
+
+/**
+ * Rebuild the keyword index inside a schema upgrade (tokenization changed)
+ */
+async function rebuildKeywordIndex(tx: Transaction): Promise<void> {
+  const chunks: StoredChunk[] = await tx.table('chunks').toArray();
+  const entries = chunks.map(buildTermEntry);
+  await tx.table('termIndex').clear();
+  await tx.table('termIndex').bulkPut(entries);
+  await tx.table('indexStats').put({
+    id: KEYWORD_INDEX_STATS_ID,
+    documentCount: entries.length,
+    totalLength: entries.reduce((sum, entry) => sum + entry.length, 0)
+  });
+}
+
 /**
  * Dexie Database Class
  */
@@ -41,6 +272,17 @@ class ArchiQueryDatabase extends Dexie {
   chunks!: Table<StoredChunk, string>;
   folders!: Table<StoredFolder, string>;
   settings!: Table<AppSettings, string>;
+  termIndex!: Table<StoredTermEntry, string>;
+  indexStats!: Table<KeywordIndexStats, string>;
+  vectorNodes!: Table<StoredVectorNode, string>;
+  vectorIndexMeta!: Table<StoredVectorIndexMeta, string>;
+  reembedJobs!: Table<ReembedJob, string>;
+  ingestionJobs!: Table<IngestionJob, string>;
+  conversations!: Table<StoredConversation, string>;
+  messages!: Table<StoredMessage, string>;
+  documentFiles!: Table<StoredDocumentFile, string>;
+  usage!: Table<UsageRecord, string>;
+  documentVersions!: Table<StoredDocumentVersion, string>;
 
   constructor() {
     super('ArchiQueryDB');
@@ -51,19 +293,131 @@ class ArchiQueryDatabase extends Dexie {
       folders: 'id, name, parentId',
       settings: 'id'
     });
+
+    // v2: BM25 keyword index, built from existing chunks on upgrade
+    this.version(2).stores({
+      termIndex: 'chunkId, *terms, documentId, folderId',
+      indexStats: 'id'
+    }).upgrade(rebuildKeywordIndex);
+
+    // v3: Vietnamese diacritic-insensitive tokens, index rebuilt on upgrade
+    this.version(3).stores({}).upgrade(rebuildKeywordIndex);
+
+    // v4: HNSW vector index (built lazily on first use, see VectorIndex.load)
+    this.version(4).stores({
+      vectorNodes: 'id, folderId',
+      vectorIndexMeta: 'id'
+    });
+
+    // v5: embeddings stored as typed arrays (optionally int8) instead of number[]
+    this.version(5).stores({}).upgrade(async tx => {
+      const settings: AppSettings | undefined = await tx.table('settings').get('app');
+      const format = settings?.embeddingFormat ?? DEFAULT_EMBEDDING_FORMAT;
+      await tx.table('chunks').toCollection().modify((chunk: StoredChunk) => {
+        if (Array.isArray(chunk.embedding)) {
+          Object.assign(chunk, encodeChunkEmbedding(chunk, format));
+        }
+      });
+    });
+
+    // v6: chunks record their embedding model and dimension; one HNSW graph per model
+    this.version(6).stores({
+      chunks: 'id, documentId, folderId, documentName, embeddingModel',
+      vectorNodes: 'id, folderId, embeddingModel',
+      reembedJobs: 'id, status'
+    }).upgrade(async tx => {
+      await tx.table('chunks').toCollection().modify((chunk: StoredChunk) => {
+        chunk.dimension = chunk.embedding.length;
+        chunk.embeddingModel = chunk.dimension === LEGACY_EMBEDDING_DIMENSION
+          ? LEGACY_EMBEDDING_MODEL
+          : UNKNOWN_EMBEDDING_MODEL;
+      });
+      // Graphs are rebuilt per model on first use
+      await tx.table('vectorNodes').clear();
+      await tx.table('vectorIndexMeta').clear();
+    });
+
+    // v7: persistent ingestion queue
+    this.version(7).stores({
+      ingestionJobs: 'id, status, createdAt'
+    });
+
+    // v8: content hashes for duplicate detection and embedding reuse
+    // (existing rows stay unhashed: WebCrypto cannot run inside an upgrade transaction)
+    this.version(8).stores({
+      documents: 'id, name, folderId, dateAdded, type, contentHash',
+      chunks: 'id, documentId, folderId, documentName, embeddingModel, contentHash'
+    });
+
+    // v9: regulation versions; codes are parsed from existing document names and linked
+    this.version(9).stores({
+      documents: 'id, name, folderId, dateAdded, type, contentHash, regulationCode'
+    }).upgrade(async tx => {
+      const documents: StoredDocument[] = await tx.table('documents').toArray();
+      for (const doc of documents) {
+        const parsed = parseRegulationCode(doc.name);
+        if (parsed) {
+          doc.regulationCode = parsed.code;
+          doc.version = parsed.version;
+        }
+      }
+      const byCode = new Map<string, StoredDocument[]>();
+      for (const doc of documents.filter(doc => doc.regulationCode)) {
+        byCode.set(doc.regulationCode!, [...(byCode.get(doc.regulationCode!) ?? []), doc]);
+      }
+      const byId = new Map(documents.map(doc => [doc.id, doc]));
+      for (const versions of byCode.values()) {
+        for (const { id, changes } of linkVersions(versions)) {
+          Object.assign(byId.get(id)!, changes);
+        }
+      }
+      await tx.table('documents').bulkPut(documents);
+    });
+
+    // v10: persistent chat sessions
+    this.version(10).stores({
+      conversations: 'id, updatedAt',
+      messages: 'id, conversationId, createdAt'
+    });
+
+    // v11: original files (documents stored earlier have none and open as text only)
+    this.version(11).stores({
+      documentFiles: 'documentId'
+    });
+
+    // v12: provider usage and cost log
+    this.version(12).stores({
+      usage: 'id, createdAt, provider, folderId'
+    });
+
+    // v13: version fields of each document, filled from the existing documents
+    this.version(13).stores({
+      documentVersions: 'id'
+    }).upgrade(async tx => {
+      const documents: StoredDocument[] = await tx.table('documents').toArray();
+      await tx.table('documentVersions').bulkPut(documents.map(versionEntry));
+    });
   }
 }
 
 // Create database instance
 export const db = new ArchiQueryDatabase();
 
+function versionEntry(doc: StoredDocument): StoredDocumentVersion {
+  const { id, regulationCode, version, effectiveFrom, expiredOn, supersededBy, supersedes } = doc;
+  return { id, regulationCode, version, effectiveFrom, expiredOn, supersededBy, supersedes };
+}
+
 /**
  * Document Operations
  */
 export const DocumentStorage = {
   // Add or update document
   async save(document: StoredDocument): Promise<string> {
-    await db.documents.put(document);
+    await db.transaction('rw', db.documents, db.documentVersions, async () => {
+      await db.documents.put(document);
+      await db.documentVersions.put(versionEntry(document));
+    });
     return document.id;
   },
 
@@ -77,6 +431,11 @@ export const DocumentStorage = {
     return await db.documents.toArray();
   },
 
+  // Version fields of every document (no content)
+  async getVersions(): Promise<StoredDocumentVersion[]> {
+    return await db.documentVersions.toArray();
+  },
+
   // Get documents by folder
   async getByFolder(folderId: string): Promise<StoredDocument[]> {
     return await db.documents.where('folderId').equals(folderId).toArray();
@@ -88,10 +447,36 @@ export const DocumentStorage = {
     if (doc?.chunks) {
       // Delete associated chunks
       await db.chunks.bulkDelete(doc.chunks);
+      await unindexChunks(doc.chunks);
     }
+    await db.documentFiles.delete(id);
+    await db.documentVersions.delete(id);
     await db.documents.delete(id);
   },
 
+  // Update version metadata (effective dates, supersession)
+  async update(id: string, changes: DocumentVersionInfo): Promise<void> {
+    await db.transaction('rw', db.documents, db.documentVersions, async () => {
+      await db.documents.update(id, doc => { Object.assign(doc, changes); });
+      await db.documentVersions.update(id, changes);
+    });
+  },
+
+  // All stored versions of a regulation
+  async findByRegulationCode(regulationCode: string): Promise<StoredDocument[]> {
+    return await db.documents.where('regulationCode').equals(regulationCode).toArray();
+  },
+
+  // Documents with the given file hash
+  async findByHash(contentHash: string): Promise<StoredDocument[]> {
+    return await db.documents.where('contentHash').equals(contentHash).toArray();
+  },
+
+  // Document with the given name in a folder
+  async findByName(folderId: string, name: string): Promise<StoredDocument | undefined> {
+    return await db.documents.where('folderId').equals(folderId).filter(doc => doc.name === name).first();
+  },
+
   // Search documents by name
   async search(query: string): Promise<StoredDocument[]> {
     const lowerQuery = query.toLowerCase();
@@ -111,26 +496,32 @@ export const DocumentStorage = {
  */
 export const ChunkStorage = {
   // Add or update chunk
-  async save(chunk: Omit<StoredChunk, 'createdAt' | 'updatedAt'>): Promise<string> {
+  async save(chunk: NewChunk): Promise<string> {
     const now = Date.now();
+    const format = await getEmbeddingFormat();
     const storedChunk: StoredChunk = {
-      ...chunk,
+      ...encodeChunkEmbedding(chunk, format),
+      dimension: chunk.embedding.length,
       createdAt: now,
       updatedAt: now
     };
     await db.chunks.put(storedChunk);
+    await indexChunks([storedChunk]);
     return chunk.id;
   },
 
   // Bulk save chunks (more efficient)
-  async saveBulk(chunks: Omit<StoredChunk, 'createdAt' | 'updatedAt'>[]): Promise<void> {
+  async saveBulk(chunks: NewChunk[]): Promise<void> {
     const now = Date.now();
+    const format = await getEmbeddingFormat();
     const storedChunks: StoredChunk[] = chunks.map(chunk => ({
-      ...chunk,
+      ...encodeChunkEmbedding(chunk, format),
+      dimension: chunk.embedding.length,
       createdAt: now,
       updatedAt: now
     }));
     await db.chunks.bulkPut(storedChunks);
+    await indexChunks(storedChunks);
   },
 
   // Get chunk by ID
@@ -138,6 +529,60 @@ export const ChunkStorage = {
     return await db.chunks.get(id);
   },
 
+  // Get chunks by IDs (missing IDs are skipped)
+  async getMany(ids: string[]): Promise<StoredChunk[]> {
+    return (await db.chunks.bulkGet(ids)).filter(Boolean);
+  },
+
+  // Replace embeddings (text unchanged, so the keyword index is left alone)
+  async updateEmbeddings(updates: Array<{ id: string; embedding: number[]; embeddingModel: string }>): Promise<void> {
+    const format = await getEmbeddingFormat();
+    const chunks = await ChunkStorage.getMany(updates.map(update => update.id));
+    const byId = new Map(updates.map(update => [update.id, update]));
+
+    const updated: StoredChunk[] = chunks.map(chunk => {
+      const { embedding, embeddingModel } = byId.get(chunk.id)!;
+      return {
+        ...encodeChunkEmbedding({ ...chunk, embedding }, format),
+        embeddingModel,
+        dimension: embedding.length,
+        updatedAt: Date.now()
+      };
+    });
+
+    await db.chunks.bulkPut(updated);
+    await VectorIndex.index(updated);
+  },
+
+  // Distinct embedding models present in the store
+  async getEmbeddingModels(): Promise<string[]> {
+    return (await db.chunks.orderBy('embeddingModel').uniqueKeys()) as string[];
+  },
+
+  // Count chunks embedded with a model
+  async countByModel(embeddingModel: string): Promise<number> {
+    return await db.chunks.where('embeddingModel').equals(embeddingModel).count();
+  },
+
+  // Chunks not yet embedded with a model (optionally within one folder)
+  async getStale(embeddingModel: string, folderId?: string, limit: number = Infinity): Promise<StoredChunk[]> {
+    return await db.chunks
+      .where('embeddingModel')
+      .notEqual(embeddingModel)
+      .filter(chunk => !folderId || chunk.folderId === folderId)
+      .limit(limit)
+      .toArray();
+  },
+
+  // Count chunks not yet embedded with a model (optionally within one folder)
+  async countStale(embeddingModel: string, folderId?: string): Promise<number> {
+    return await db.chunks
+      .where('embeddingModel')
+      .notEqual(embeddingModel)
+      .filter(chunk => !folderId || chunk.folderId === folderId)
+      .count();
+  },
+
   // Get all chunks
   async getAll(): Promise<StoredChunk[]> {
     return await db.chunks.toArray();
@@ -156,12 +601,30 @@ export const ChunkStorage = {
   // Delete chunk
   async delete(id: string): Promise<void> {
     await db.chunks.delete(id);
+    await unindexChunks([id]);
+  },
+
+  // Delete several chunks
+  async deleteMany(ids: string[]): Promise<void> {
+    await db.chunks.bulkDelete(ids);
+    await unindexChunks(ids);
+  },
+
+  // Chunks whose text hashes to one of `contentHashes`, embedded with a model
+  async getByContentHashes(contentHashes: string[], embeddingModel: string): Promise<StoredChunk[]> {
+    if (contentHashes.length === 0) return [];
+    return await db.chunks
+      .where('contentHash')
+      .anyOf(contentHashes)
+      .filter(chunk => chunk.embeddingModel === embeddingModel)
+      .toArray();
   },
 
   // Delete chunks by document
   async deleteByDocument(documentId: string): Promise<void> {
     const chunks = await db.chunks.where('documentId').equals(documentId).toArray();
     await db.chunks.bulkDelete(chunks.map(c => c.id));
+    await unindexChunks(chunks.map(c => c.id));
   },
 
   // Get chunk count
@@ -172,6 +635,542 @@ export const ChunkStorage = {
   // Clear all chunks (use with caution)
   async clear(): Promise<void> {
     await db.chunks.clear();
+    await clearChunkIndexes();
+  }
+};
+
+/**
+ * Keyword Index Operations (BM25 inverted index over chunk text)
+ */
+export const KeywordIndex = {
+  // Add or replace index entries for chunks
+  async index(chunks: Pick<VectorChunk, 'id' | 'documentId' | 'folderId' | 'text'>[]): Promise<void> {
+    if (chunks.length === 0) return;
+    const entries = chunks.map(buildTermEntry);
+
+    await db.transaction('rw', db.termIndex, db.indexStats, async () => {
+      const previous = await db.termIndex.bulkGet(entries.map(e => e.chunkId));
+      const stats = await KeywordIndex.getStats();
+
+      for (const old of previous) {
+        if (!old) continue;
+        stats.documentCount -= 1;
+        stats.totalLength -= old.length;
+      }
+      for (const entry of entries) {
+        stats.documentCount += 1;
+        stats.totalLength += entry.length;
+      }
+
+      await db.termIndex.bulkPut(entries);
+      await db.indexStats.put(stats);
+    });
+  },
+
+  // Remove index entries for chunk IDs
+  async remove(chunkIds: string[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    await db.transaction('rw', db.termIndex, db.indexStats, async () => {
+      const existing = (await db.termIndex.bulkGet(chunkIds)).filter(Boolean);
+      const stats = await KeywordIndex.getStats();
+
+      stats.documentCount -= existing.length;
+      stats.totalLength -= existing.reduce((sum, entry) => sum + entry.length, 0);
+
+      await db.termIndex.bulkDelete(existing.map(entry => entry.chunkId));
+      await db.indexStats.put(stats);
+    });
+  },
+
+  // Get corpus statistics
+  async getStats(): Promise<KeywordIndexStats> {
+    return (await db.indexStats.get(KEYWORD_INDEX_STATS_ID)) ?? {
+      id: KEYWORD_INDEX_STATS_ID,
+      documentCount: 0,
+      totalLength: 0
+    };
+  },
+
+  // Rank chunks by BM25 score for a query, optionally restricted to folders
+  async search(query: string, folderIds?: string[], limit: number = 20): Promise<Array<{ chunkId: string; score: number }>> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const stats = await KeywordIndex.getStats();
+    if (stats.documentCount === 0) return [];
+
+    const documentFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      documentFrequencies.set(term, await db.termIndex.where('terms').equals(term).count());
+    }
+
+    let candidates = await db.termIndex.where('terms').anyOf(terms).distinct().toArray();
+    if (folderIds && folderIds.length > 0) {
+      const allowed = new Set(folderIds);
+      candidates = candidates.filter(entry => allowed.has(entry.folderId));
+    }
+
+    const bm25Stats = {
+      documentCount: stats.documentCount,
+      averageLength: stats.totalLength / stats.documentCount,
+      documentFrequency: (term: string) => documentFrequencies.get(term) || 0
+    };
+
+    return candidates
+      .map(entry => ({
+        chunkId: entry.chunkId,
+        score: bm25Score(terms, { id: entry.chunkId, termFreqs: entry.termFreqs, length: entry.length }, bm25Stats)
+      }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+
+  // Rebuild the whole index from stored chunks
+  async rebuild(): Promise<void> {
+    await KeywordIndex.clear();
+    await KeywordIndex.index(await db.chunks.toArray());
+  },
+
+  // Clear the index
+  async clear(): Promise<void> {
+    await db.termIndex.clear();
+    await db.indexStats.clear();
+  }
+};
+
+/**
+ * In-memory HNSW graph for one embedding model, loaded lazily from Dexie and kept in sync with it
+ */
+interface LoadedVectorGraph {
+  index: HNSWIndex;
+  folders: Map<string, string>;
+}
+
+type IndexableChunk = Pick<StoredChunk, 'id' | 'folderId' | 'embedding' | 'embeddingModel'>;
+
+const vectorGraphs = new Map<string, LoadedVectorGraph>();
+const vectorGraphLoads = new Map<string, Promise<LoadedVectorGraph>>();
+// Set in a context that shares the graphs with another one (the ingestion worker)
+let reloadGraphsBeforeWrites = false;
+
+const vectorIndexMetaId = (embeddingModel: string) => `hnsw:${embeddingModel}`;
+
+/**
+ * Vector Index Operations (HNSW approximate nearest-neighbour search, one graph per model)
+ */
+export const VectorIndex = {
+  // Load a model's graph and embeddings into memory, building it if missing
+  async load(embeddingModel: string): Promise<LoadedVectorGraph> {
+    const loaded = vectorGraphs.get(embeddingModel);
+    if (loaded) return loaded;
+
+    let loading = vectorGraphLoads.get(embeddingModel);
+    if (!loading) {
+      loading = (async () => {
+        const meta = await db.vectorIndexMeta.get(vectorIndexMetaId(embeddingModel));
+        const nodes = await db.vectorNodes.where('embeddingModel').equals(embeddingModel).toArray();
+
+        const entries: IndexableChunk[] = [];
+        await db.chunks.where('embeddingModel').equals(embeddingModel).each(chunk => {
+          entries.push({ id: chunk.id, folderId: chunk.folderId, embedding: chunk.embedding, embeddingModel });
+        });
+        const vectors = new Map(entries.map(entry => [entry.id, entry.embedding]));
+
+        let graph: LoadedVectorGraph;
+        if (!meta) {
+          console.log(`[VectorIndex] Building HNSW index for ${entries.length} chunks (${embeddingModel})`);
+          graph = { index: new HNSWIndex(), folders: new Map() };
+          vectorGraphs.set(embeddingModel, graph);
+          await db.vectorNodes.where('embeddingModel').equals(embeddingModel).delete();
+          await VectorIndex.insert(embeddingModel, graph, entries);
+          return graph;
+        }
+
+        // Nodes whose chunks were deleted before the graph was loaded
+        const orphans = new Set(nodes.filter(node => !vectors.has(node.id)).map(node => node.id));
+        const affected = nodes
+          .filter(node => !orphans.has(node.id) && node.neighbors.some(links => links.some(link => orphans.has(link))))
+          .map(node => node.id);
+
+        graph = {
+          index: HNSWIndex.restore(meta, nodes, vectors),
+          folders: new Map(nodes.map(node => [node.id, node.folderId]))
+        };
+        vectorGraphs.set(embeddingModel, graph);
+
+        if (orphans.size > 0) {
+          await db.vectorNodes.bulkDelete(Array.from(orphans));
+          await VectorIndex.persist(embeddingModel, graph, affected);
+        }
+
+        // Chunks written before the graph was loaded
+        await VectorIndex.insert(embeddingModel, graph, entries.filter(entry => !graph.index.has(entry.id)));
+        return graph;
+      })().finally(() => {
+        vectorGraphLoads.delete(embeddingModel);
+      });
+      vectorGraphLoads.set(embeddingModel, loading);
+    }
+    return loading;
+  },
+
+  // Insert or replace chunk embeddings, each in its model's graph
+  async index(chunks: IndexableChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    // Chunks re-embedded with another model leave their previous graph
+    const previous = await db.vectorNodes.bulkGet(chunks.map(chunk => chunk.id));
+    const moved = previous.filter((node, i) => node && node.embeddingModel !== chunks[i].embeddingModel);
+    if (moved.length > 0) {
+      await VectorIndex.remove(moved.map(node => node.id));
+    }
+
+    const byModel = new Map<string, IndexableChunk[]>();
+    for (const chunk of chunks) {
+      const group = byModel.get(chunk.embeddingModel) ?? [];
+      group.push(chunk);
+      byModel.set(chunk.embeddingModel, group);
+    }
+
+    for (const [embeddingModel, group] of byModel) {
+      if (reloadGraphsBeforeWrites) vectorGraphs.delete(embeddingModel);
+      const graph = vectorGraphs.get(embeddingModel);
+      if (graph) {
+        await VectorIndex.insert(embeddingModel, graph, group);
+      } else {
+        // Loading picks up chunks already written to the chunks table
+        await VectorIndex.load(embeddingModel);
+      }
+    }
+  },
+
+  // Insert embeddings into a loaded graph and persist the changed nodes
+  async insert(embeddingModel: string, graph: LoadedVectorGraph, chunks: IndexableChunk[]): Promise<void> {
+    const changed = new Set<string>();
+    for (const chunk of chunks) {
+      if (!chunk.embedding?.length) continue;
+      try {
+        graph.index.insert(chunk.id, chunk.embedding).forEach(id => changed.add(id));
+        graph.folders.set(chunk.id, chunk.folderId);
+      } catch (error) {
+        console.warn(`[VectorIndex] Skipping chunk ${chunk.id}:`, error);
+      }
+    }
+
+    await VectorIndex.persist(embeddingModel, graph, changed);
+  },
+
+  // Remove chunk embeddings from whichever graphs hold them
+  async remove(chunkIds: string[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    const nodes = (await db.vectorNodes.bulkGet(chunkIds)).filter(Boolean);
+    const models = new Set(nodes.map(node => node.embeddingModel));
+
+    for (const embeddingModel of models) {
+      const ids = nodes.filter(node => node.embeddingModel === embeddingModel).map(node => node.id);
+      if (reloadGraphsBeforeWrites) vectorGraphs.delete(embeddingModel);
+      const graph = await VectorIndex.load(embeddingModel);
+
+      const changed = graph.index.remove(ids);
+      ids.forEach(id => graph.folders.delete(id));
+
+      await db.vectorNodes.bulkDelete(ids);
+      await VectorIndex.persist(embeddingModel, graph, changed);
+    }
+  },
+
+  // Write changed nodes and graph metadata
+  async persist(embeddingModel: string, graph: LoadedVectorGraph, changedIds: Iterable<string>): Promise<void> {
+    const nodes: StoredVectorNode[] = [];
+    for (const id of changedIds) {
+      const node = graph.index.getNode(id);
+      if (node) nodes.push({ ...node, folderId: graph.folders.get(id) ?? '', embeddingModel });
+    }
+
+    await db.transaction('rw', db.vectorNodes, db.vectorIndexMeta, async () => {
+      await db.vectorNodes.bulkPut(nodes);
+      await db.vectorIndexMeta.put({ id: vectorIndexMetaId(embeddingModel), ...graph.index.getMeta() });
+    });
+  },
+
+  // Approximate top-k search within one model's graph, optionally restricted to folders
+  async search(
+    embedding: number[],
+    embeddingModel: string,
+    k: number,
+    folderIds?: string[],
+    ef: number = HNSW_DEFAULT_EF_SEARCH
+  ): Promise<Array<{ chunkId: string; similarity: number }>> {
+    const { index, folders } = await VectorIndex.load(embeddingModel);
+    const allowed = folderIds && folderIds.length > 0 ? new Set(folderIds) : undefined;
+    const filter = allowed ? (id: string) => allowed.has(folders.get(id) ?? '') : undefined;
+
+    return index.search(embedding, k, ef, filter).map(result => ({
+      chunkId: result.id,
+      similarity: result.similarity
+    }));
+  },
+
+  // Drop all graphs; they are rebuilt from stored chunks on next use
+  async rebuild(): Promise<void> {
+    await VectorIndex.clear();
+  },
+
+  // Forget in-memory graphs (another context wrote to them); they reload from Dexie on next use
+  invalidate(): void {
+    vectorGraphs.clear();
+  },
+
+  // Reload a graph from Dexie before every write, so a stale copy is never persisted over
+  // changes made by another context. For the ingestion worker, whose graph the page edits.
+  reloadBeforeWrites(): void {
+    reloadGraphsBeforeWrites = true;
+  },
+
+  // Clear all graphs (memory and Dexie)
+  async clear(): Promise<void> {
+    vectorGraphs.clear();
+    await db.vectorNodes.clear();
+    await db.vectorIndexMeta.clear();
+  }
+};
+
+/**
+ * Storage format for new embeddings (app setting, float32 by default)
+ */
+async function getEmbeddingFormat(): Promise<EmbeddingFormat> {
+  const settings = await db.settings.get('app');
+  return settings?.embeddingFormat ?? DEFAULT_EMBEDDING_FORMAT;
+}
+
+/**
+ * Keep keyword and vector indexes in sync with chunk writes
+ */
+async function indexChunks(chunks: StoredChunk[]): Promise<void> {
+  await KeywordIndex.index(chunks);
+  await VectorIndex.index(chunks);
+}
+
+async function unindexChunks(chunkIds: string[]): Promise<void> {
+  await KeywordIndex.remove(chunkIds);
+  await VectorIndex.remove(chunkIds);
+}
+
+async function clearChunkIndexes(): Promise<void> {
+  await KeywordIndex.clear();
+  await VectorIndex.clear();
+}
+
+/**
+ * Re-embed Job Operations
+ */
+export const ReembedJobStorage = {
+  // Add or update job
+  async save(job: ReembedJob): Promise<void> {
+    await db.reembedJobs.put({ ...job, updatedAt: Date.now() });
+  },
+
+  // Get job by ID
+  async get(id: string): Promise<ReembedJob | undefined> {
+    return await db.reembedJobs.get(id);
+  },
+
+  // Most recent unfinished job (running jobs were interrupted by a reload)
+  async getUnfinished(): Promise<ReembedJob | undefined> {
+    const jobs = await db.reembedJobs.where('status').anyOf('running', 'paused', 'failed').toArray();
+    return jobs.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  },
+
+  // Delete job
+  async delete(id: string): Promise<void> {
+    await db.reembedJobs.delete(id);
+  }
+};
+
+/**
+ * Ingestion Queue Operations
+ */
+export const IngestionJobStorage = {
+  // Add or update job
+  async save(job: IngestionJob): Promise<void> {
+    await db.ingestionJobs.put({ ...job, updatedAt: Date.now() });
+  },
+
+  // Add jobs in one transaction
+  async saveBulk(jobs: IngestionJob[]): Promise<void> {
+    await db.ingestionJobs.bulkPut(jobs);
+  },
+
+  // Get job by ID
+  async get(id: string): Promise<IngestionJob | undefined> {
+    return await db.ingestionJobs.get(id);
+  },
+
+  // All jobs, oldest first
+  async getAll(): Promise<IngestionJob[]> {
+    return await db.ingestionJobs.orderBy('createdAt').toArray();
+  },
+
+  // Oldest queued job
+  async getNextQueued(): Promise<IngestionJob | undefined> {
+    const queued = await db.ingestionJobs.where('status').equals('queued').toArray();
+    return queued.sort((a, b) => a.createdAt - b.createdAt)[0];
+  },
+
+  // Change the status of every job currently in one of `from`
+  async setStatus(from: IngestionJob['status'][], to: IngestionJob['status']): Promise<number> {
+    return await db.ingestionJobs.where('status').anyOf(from).modify({ status: to, updatedAt: Date.now() });
+  },
+
+  // Jobs left running by a closed tab go back to the queue (call only while holding the ingestion lock)
+  async recoverInterrupted(): Promise<number> {
+    return await IngestionJobStorage.setStatus(['running'], 'queued');
+  },
+
+  // Delete job
+  async delete(id: string): Promise<void> {
+    await db.ingestionJobs.delete(id);
+  },
+
+  // Remove finished jobs from the list
+  async clearCompleted(): Promise<void> {
+    await db.ingestionJobs.where('status').equals('completed').delete();
+  }
+};
+
+/**
+ * Original File Operations
+ */
+export const DocumentFileStorage = {
+  // Keep (or replace) the original file of a document
+  async save(documentId: string, blob: Blob, fileName: string): Promise<void> {
+    await db.documentFiles.put({
+      documentId,
+      blob,
+      fileName,
+      mimeType: blob.type || (fileName.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'application/octet-stream'),
+      createdAt: Date.now()
+    });
+  },
+
+  // Get the original file of a document
+  async get(documentId: string): Promise<StoredDocumentFile | undefined> {
+    return await db.documentFiles.get(documentId);
+  },
+
+  // Delete the original file of a document
+  async delete(documentId: string): Promise<void> {
+    await db.documentFiles.delete(documentId);
+  }
+};
+
+/**
+ * Provider Usage Operations
+ */
+export const UsageStorage = {
+  // Record a provider call
+  async add(entry: Omit<UsageRecord, 'id' | 'createdAt'>): Promise<UsageRecord> {
+    const now = Date.now();
+    const record: UsageRecord = {
+      ...entry,
+      id: `usage_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: now
+    };
+    await db.usage.put(record);
+    return record;
+  },
+
+  // Calls made since a time, oldest first
+  async since(timestamp: number): Promise<UsageRecord[]> {
+    return await db.usage.where('createdAt').aboveOrEqual(timestamp).toArray();
+  },
+
+  // Delete the whole log
+  async clear(): Promise<void> {
+    await db.usage.clear();
+  }
+};
+
+/**
+ * Chat Session Operations
+ */
+export const ConversationStorage = {
+  // Start a session
+  async create(title: string): Promise<StoredConversation> {
+    const now = Date.now();
+    const conversation: StoredConversation = {
+      id: `conv_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      title,
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await db.conversations.put(conversation);
+    return conversation;
+  },
+
+  // Get session by ID
+  async get(id: string): Promise<StoredConversation | undefined> {
+    return await db.conversations.get(id);
+  },
+
+  // All sessions, most recently active first
+  async getAll(): Promise<StoredConversation[]> {
+    return await db.conversations.orderBy('updatedAt').reverse().toArray();
+  },
+
+  // Sessions whose title or messages contain the query (diacritic-insensitive)
+  async search(query: string): Promise<StoredConversation[]> {
+    const needle = normalizeForSearch(query.trim());
+    if (!needle) return await ConversationStorage.getAll();
+
+    const matchingIds = new Set(
+      (await db.messages.filter(message => normalizeForSearch(message.content).includes(needle)).toArray())
+        .map(message => message.conversationId)
+    );
+    return (await ConversationStorage.getAll())
+      .filter(conversation => matchingIds.has(conversation.id) || normalizeForSearch(conversation.title).includes(needle));
+  },
+
+  // Rename session
+  async rename(id: string, title: string): Promise<void> {
+    await db.conversations.update(id, { title });
+  },
+
+  // Delete session with its messages
+  async delete(id: string): Promise<void> {
+    await db.transaction('rw', db.conversations, db.messages, async () => {
+      await db.messages.where('conversationId').equals(id).delete();
+      await db.conversations.delete(id);
+    });
+  },
+
+  // Messages of a session, oldest first
+  async getMessages(conversationId: string): Promise<StoredMessage[]> {
+    const messages = await db.messages.where('conversationId').equals(conversationId).toArray();
+    return messages.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  // Append a message and bump the session to the top of the list
+  async addMessage(message: Omit<StoredMessage, 'id' | 'createdAt'>): Promise<StoredMessage> {
+    const now = Date.now();
+    const stored: StoredMessage = {
+      ...message,
+      id: `msg_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: now
+    };
+    await db.transaction('rw', db.conversations, db.messages, async () => {
+      await db.messages.put(stored);
+      await db.conversations.where('id').equals(message.conversationId)
+        .modify(conversation => {
+          conversation.messageCount += 1;
+          conversation.updatedAt = now;
+        });
+    });
+    return stored;
   }
 };
 
@@ -286,18 +1285,29 @@ export const DatabaseUtils = {
   // Clear all data (use with caution)
   async clearAll(): Promise<void> {
     await db.documents.clear();
+    await db.documentVersions.clear();
     await db.chunks.clear();
     await db.folders.clear();
     await db.settings.clear();
+    await db.ingestionJobs.clear();
+    await db.reembedJobs.clear();
+    await db.conversations.clear();
+    await db.messages.clear();
+    await db.documentFiles.clear();
+    await db.usage.clear();
+    await clearChunkIndexes();
   },
 
   // Export data to JSON
   async exportData(): Promise<string> {
     const data = {
       documents: await db.documents.toArray(),
-      chunks: await db.chunks.toArray(),
+      // Typed arrays would serialize as objects, so export plain arrays
+      chunks: (await db.chunks.toArray()).map(chunk => ({ ...chunk, embedding: Array.from(chunk.embedding) })),
       folders: await db.folders.toArray(),
       settings: await db.settings.toArray(),
+      conversations: await db.conversations.toArray(),
+      messages: await db.messages.toArray(),
       exportDate: new Date().toISOString()
     };
     return JSON.stringify(data, null, 2);
@@ -309,9 +1319,23 @@ export const DatabaseUtils = {
       const data = JSON.parse(jsonData);
       
       if (data.folders) await db.folders.bulkPut(data.folders);
-      if (data.documents) await db.documents.bulkPut(data.documents);
-      if (data.chunks) await db.chunks.bulkPut(data.chunks);
+      if (data.documents) {
+        await db.documents.bulkPut(data.documents);
+        await db.documentVersions.bulkPut(data.documents.map(versionEntry));
+      }
       if (data.settings) await db.settings.bulkPut(data.settings);
+      if (data.conversations) await db.conversations.bulkPut(data.conversations);
+      if (data.messages) await db.messages.bulkPut(data.messages);
+      if (data.chunks) {
+        const chunks: StoredChunk[] = data.chunks.map((chunk: StoredChunk) => ({
+          ...chunk,
+          embedding: chunk.embeddingScale !== undefined
+            ? Int8Array.from(chunk.embedding)
+            : Float32Array.from(chunk.embedding)
+        }));
+        await db.chunks.bulkPut(chunks);
+        await indexChunks(chunks);
+      }
     } catch (error) {
       throw new Error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
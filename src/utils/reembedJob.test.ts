@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Background Re-embedding
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ReembedJob } from './persistentStorage';
+
+// In-memory stand-ins for the IndexedDB-backed storage
+const store = vi.hoisted(() => ({
+  chunks: new Map<string, { id: string; text: string; folderId: string; embeddingModel: string; embedding: number[] }>(),
+  jobs: new Map<string, ReembedJob>()
+}));
+
+vi.mock('./persistentStorage', () => {
+  const stale = (model: string, folderId?: string) =>
+    Array.from(store.chunks.values()).filter(c => c.embeddingModel !== model && (!folderId || c.folderId === folderId));
+
+  return {
+    ChunkStorage: {
+      getStale: async (model: string, folderId?: string, limit = Infinity) => stale(model, folderId).slice(0, limit),
+      countStale: async (model: string, folderId?: string) => stale(model, folderId).length,
+      updateEmbeddings: async (updates: Array<{ id: string; embedding: number[]; embeddingModel: string }>) => {
+        updates.forEach(u => Object.assign(store.chunks.get(u.id)!, u));
+      }
+    },
+    ReembedJobStorage: {
+      save: async (job: ReembedJob) => { store.jobs.set(job.id, { ...job }); },
+      get: async (id: string) => store.jobs.get(id)
+    }
+  };
+});
+
+import { createReembedJob, runReembedJob } from './reembedJob';
+
+const embed = async (text: string) => [text.length, 1];
+
+describe('Re-embed Job', () => {
+  beforeEach(() => {
+    store.chunks.clear();
+    store.jobs.clear();
+    for (let i = 0; i < 10; i++) {
+      store.chunks.set(`c${i}`, {
+        id: `c${i}`,
+        text: `chunk ${i}`,
+        folderId: i < 6 ? 'a' : 'b',
+        embeddingModel: 'old-model',
+        embedding: [0, 0]
+      });
+    }
+  });
+
+  it('should migrate every chunk to the target model', async () => {
+    const job = await createReembedJob('new-model');
+    expect(job.total).toBe(10);
+
+    const result = await runReembedJob(job.id, embed, { batchSize: 3 });
+
+    expect(result.status).toBe('completed');
+    expect(result.processed).toBe(10);
+    store.chunks.forEach(chunk => expect(chunk.embeddingModel).toBe('new-model'));
+  });
+
+  it('should only touch chunks of the job folder', async () => {
+    const job = await createReembedJob('new-model', 'b');
+    const result = await runReembedJob(job.id, embed);
+
+    expect(result.processed).toBe(4);
+    expect(store.chunks.get('c0')!.embeddingModel).toBe('old-model');
+    expect(store.chunks.get('c9')!.embeddingModel).toBe('new-model');
+  });
+
+  it('should pause on abort and resume where it stopped', async () => {
+    const job = await createReembedJob('new-model');
+    const controller = new AbortController();
+
+    const paused = await runReembedJob(job.id, embed, {
+      batchSize: 4,
+      signal: controller.signal,
+      onProgress: progress => { if (progress.processed >= 4) controller.abort(); }
+    });
+
+    expect(paused.status).toBe('paused');
+    expect(paused.processed).toBe(4);
+    expect(store.jobs.get(job.id)!.status).toBe('paused');
+
+    const resumed = await runReembedJob(job.id, embed, { batchSize: 4 });
+    expect(resumed.status).toBe('completed');
+    expect(resumed.processed).toBe(10);
+  });
+
+  it('should record failures so the job can be retried', async () => {
+    const job = await createReembedJob('new-model');
+    const failing = async () => { throw new Error('model unavailable'); };
+
+    const result = await runReembedJob(job.id, failing);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('model unavailable');
+    expect(store.jobs.get(job.id)!.status).toBe('failed');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Background Re-embedding
+ * Migrates stored chunks to a new embedding model in small batches. Progress is kept in
+ * IndexedDB; resuming simply continues with chunks that are not on the target model yet.
+ */
+
+import { ChunkStorage, ReembedJob, ReembedJobStorage } from './persistentStorage';
+
+export const REEMBED_BATCH_SIZE = 32;
+
+export type Embedder = (text: string) => Promise<ArrayLike<number>>;
+
+export interface ReembedRunOptions {
+  signal?: AbortSignal;                    // Abort pauses the job after the current batch
+  onProgress?: (job: ReembedJob) => void;
+  batchSize?: number;
+}
+
+/**
+ * Create a job migrating a folder (or the whole database) to `targetModel`
+ */
+export async function createReembedJob(targetModel: string, folderId?: string): Promise<ReembedJob> {
+  const now = Date.now();
+  const job: ReembedJob = {
+    id: `reembed_${now}`,
+    targetModel,
+    folderId,
+    status: 'paused',
+    total: await ChunkStorage.countStale(targetModel, folderId),
+    processed: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await ReembedJobStorage.save(job);
+  return job;
+}
+
+/**
+ * Run (or resume) a job until every chunk uses the target model, the signal aborts,
+ * or embedding fails. Returns the job in its final state.
+ */
+export async function runReembedJob(
+  jobId: string,
+  embed: Embedder,
+  options: ReembedRunOptions = {}
+): Promise<ReembedJob> {
+  const { signal, onProgress, batchSize = REEMBED_BATCH_SIZE } = options;
+  const stored = await ReembedJobStorage.get(jobId);
+  if (!stored) {
+    throw new Error(`Re-embed job ${jobId} not found`);
+  }
+
+  let job: ReembedJob = { ...stored, status: 'running', error: undefined };
+  const update = async (changes: Partial<ReembedJob>) => {
+    job = { ...job, ...changes, updatedAt: Date.now() };
+    await ReembedJobStorage.save(job);
+    onProgress?.(job);
+  };
+
+  await update({});
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        await update({ status: 'paused' });
+        return job;
+      }
+
+      const batch = await ChunkStorage.getStale(job.targetModel, job.folderId, batchSize);
+      if (batch.length === 0) {
+        await update({ status: 'completed', total: Math.max(job.total, job.processed) });
+        return job;
+      }
+
+      const updates = [];
+      for (const chunk of batch) {
+        updates.push({
+          id: chunk.id,
+          embedding: Array.from(await embed(chunk.text)),
+          embeddingModel: job.targetModel
+        });
+      }
+
+      await ChunkStorage.updateEmbeddings(updates);
+
+      // Chunks added with an older model while the job runs extend the total
+      const processed = job.processed + batch.length;
+      await update({ processed, total: Math.max(job.total, processed) });
+    }
+  } catch (error) {
+    console.error(`[Reembed] Job ${jobId} failed:`, error);
+    await update({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    return job;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for Text Chunking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkText,
+  chunkPages,
+  chunkLegalText,
+  chunkLegalPages,
+  isLegalDocument,
+  sectionPathMatches
+} from './textChunker';
+import { formatSourceCitation } from './citationUtils';
+
+describe('Text Chunker', () => {
+  describe('chunkText', () => {
+    it('should return no chunks for empty text', () => {
+      expect(chunkText('', 500, 100)).toHaveLength(0);
+    });
+
+    it('should keep short text as a single chunk without pages', () => {
+      const chunks = chunkText('Điều 1. Phạm vi điều chỉnh', 500, 100);
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].text).toBe('Điều 1. Phạm vi điều chỉnh');
+      expect(chunks[0].pageStart).toBeUndefined();
+    });
+
+    it('should split long text into overlapping chunks', () => {
+      const sentence = 'Công trình xây dựng phải có giấy phép. ';
+      const text = sentence.repeat(40);
+      const chunks = chunkText(text, 500, 100);
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(600));
+    });
+  });
+
+  describe('chunkPages', () => {
+    it('should tag a chunk spanning two pages with both pages', () => {
+      const chunks = chunkPages(
+        [
+          { pageNumber: 1, text: 'Trang một.' },
+          { pageNumber: 2, text: 'Trang hai.' }
+        ],
+        500,
+        100
+      );
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].pageStart).toBe(1);
+      expect(chunks[0].pageEnd).toBe(2);
+    });
+
+    it('should track page ranges across many pages', () => {
+      const pages = Array.from({ length: 5 }, (_, i) => ({
+        pageNumber: i + 1,
+        text: `Nội dung trang ${i + 1}. `.repeat(30).trim()
+      }));
+      const chunks = chunkPages(pages, 500, 100);
+
+      expect(chunks.length).toBeGreaterThan(5);
+      expect(chunks[0].pageStart).toBe(1);
+      expect(chunks[chunks.length - 1].pageEnd).toBe(5);
+
+      for (const chunk of chunks) {
+        expect(chunk.pageStart).toBeLessThanOrEqual(chunk.pageEnd!);
+        // Every page number mentioned in the chunk must fall inside its range
+        const mentioned = [...chunk.text.matchAll(/trang (\d+)/g)].map(m => Number(m[1]));
+        mentioned.forEach(page => {
+          expect(page).toBeGreaterThanOrEqual(chunk.pageStart!);
+          expect(page).toBeLessThanOrEqual(chunk.pageEnd!);
+        });
+      }
+    });
+  });
+
+  describe('chunkLegalText', () => {
+    const law = [
+      'LUẬT XÂY DỰNG',
+      'Căn cứ Hiến pháp nước Cộng hòa xã hội chủ nghĩa Việt Nam;',
+      '## Chương I',
+      'NHỮNG QUY ĐỊNH CHUNG',
+      'Điều 1. Phạm vi điều chỉnh',
+      'Luật này quy định về quyền, nghĩa vụ, trách nhiệm của cơ quan, tổ chức, cá nhân.',
+      'Điều 2. Đối tượng áp dụng',
+      'Luật này áp dụng đối với cơ quan, tổ chức, cá nhân trong nước và nước ngoài.',
+      'Chương III',
+      'DỰ ÁN ĐẦU TƯ XÂY DỰNG',
+      'Mục 1',
+      'QUY ĐỊNH CHUNG',
+      'Điều 12. Chiều cao tầng',
+      '1. Chiều cao tầng 1 của công trình dân dụng không nhỏ hơn 3,6 m. ' + 'Quy định chi tiết. '.repeat(20),
+      '2. Nhà ở riêng lẻ được phép có chiều cao tầng 1 tối thiểu 3,2 m. ' + 'Quy định chi tiết. '.repeat(20),
+      'a) Trường hợp có tầng lửng thì chiều cao được tính đến sàn tầng lửng;',
+      'b) Trường hợp không có tầng lửng thì tính đến trần.',
+      '3. Mục lục các công trình áp dụng được ban hành kèm theo. ' + 'Quy định chi tiết. '.repeat(20)
+    ].join('\n');
+
+    it('should detect legal documents', () => {
+      expect(isLegalDocument(law)).toBe(true);
+      expect(isLegalDocument('Một đoạn văn bình thường.\nKhông có điều khoản.')).toBe(false);
+    });
+
+    it('should keep short articles intact with their hierarchy path', () => {
+      const chunks = chunkLegalText(law, 1500, 100);
+      const article1 = chunks.find(chunk => chunk.text.includes('Điều 1.'));
+
+      expect(article1?.sectionPath).toBe('Chương I > Điều 1');
+      expect(article1?.text).toContain('Luật này quy định về quyền');
+      expect(article1?.text).not.toContain('Điều 2.');
+      // The chapter heading travels with the first article of the chapter
+      expect(article1?.text).toContain('NHỮNG QUY ĐỊNH CHUNG');
+    });
+
+    it('should split long articles by clause and repeat the article title', () => {
+      const chunks = chunkLegalText(law, 700, 100);
+      const article12 = chunks.filter(chunk => chunk.sectionPath?.includes('Điều 12'));
+
+      expect(article12.map(chunk => chunk.sectionPath)).toEqual([
+        'Chương III > Mục 1 > Điều 12 > Khoản 1',
+        'Chương III > Mục 1 > Điều 12 > Khoản 2',
+        'Chương III > Mục 1 > Điều 12 > Khoản 3'
+      ]);
+      article12.forEach(chunk => expect(chunk.text).toContain('Điều 12. Chiều cao tầng'));
+      expect(article12[1].text).toContain('a) Trường hợp có tầng lửng');
+    });
+
+    it('should merge consecutive clauses that fit together', () => {
+      const chunks = chunkLegalText(law, 1100, 100);
+      const paths = chunks.map(chunk => chunk.sectionPath);
+      expect(paths).toContain('Chương III > Mục 1 > Điều 12 > Khoản 1–2');
+    });
+
+    it('should not treat "Mục lục" as a section heading', () => {
+      const chunks = chunkLegalText(law, 700, 100);
+      expect(chunks.some(chunk => chunk.sectionPath?.includes('Mục L'))).toBe(false);
+    });
+
+    it('should carry page ranges for paginated legal text', () => {
+      const chunks = chunkLegalPages(
+        [
+          { pageNumber: 46, text: 'Điều 11. Quy hoạch\nNội dung điều 11.' },
+          { pageNumber: 47, text: 'Điều 12. Chiều cao tầng\nNội dung điều 12.' }
+        ],
+        1500,
+        100
+      );
+
+      expect(chunks.map(chunk => [chunk.sectionPath, chunk.pageStart, chunk.pageEnd])).toEqual([
+        ['Điều 11', 46, 46],
+        ['Điều 12', 47, 47]
+      ]);
+    });
+
+    it('should match section filters against path segments', () => {
+      expect(sectionPathMatches('Chương III > Điều 12 > Khoản 2', 'Điều 12')).toBe(true);
+      expect(sectionPathMatches('Chương III > Điều 12 > Khoản 2', 'chương iii')).toBe(true);
+      expect(sectionPathMatches('Chương III > Điều 120', 'Điều 12')).toBe(false);
+      expect(sectionPathMatches(undefined, 'Điều 12')).toBe(false);
+    });
+  });
+
+  describe('formatSourceCitation', () => {
+    it('should format single pages and ranges', () => {
+      expect(formatSourceCitation({ documentName: 'Luật Xây dựng 2020', pageStart: 47, pageEnd: 47 }))
+        .toBe('Luật Xây dựng 2020, tr. 47');
+      expect(formatSourceCitation({ documentName: 'QCVN 06:2022', pageStart: 3, pageEnd: 4 }))
+        .toBe('QCVN 06:2022, tr. 3–4');
+    });
+
+    it('should fall back to the document name when pages are unknown', () => {
+      expect(formatSourceCitation({ documentName: 'Thông tư 16-2019' })).toBe('Thông tư 16-2019');
+    });
+  });
+});
@@ -0,0 +1,508 @@
+/**
+ * Text Chunking Utilities
+ * Splits extracted document text into overlapping chunks and keeps track of
+ * which PDF pages each chunk came from (for page-level citations).
+ * Vietnamese legal documents are chunked along their structure
+ * (Chương / Mục / Điều / Khoản / Điểm) instead of fixed windows.
+ */
+
+import type { ExtractedPage } from './ocrEngine';
+
+/**
+ * A chunk of document text, optionally tagged with its source page range
+ */
+export interface TextChunk {
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string; // e.g. "Chương III > Điều 12 > Khoản 2"
+}
+
+/**
+ * Separator between levels of a legal hierarchy path
+ */
+export const SECTION_PATH_SEPARATOR = ' > ';
+
+/**
+ * Character span of a chunk inside the full text
+ */
+interface ChunkSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Compute overlapping chunk spans, preferring paragraph and sentence breaks
+ */
+function computeChunkSpans(text: string, chunkSize: number, overlap: number): ChunkSpan[] {
+  const spans: ChunkSpan[] = [];
+
+  if (!text || text.length === 0) {
+    return spans;
+  }
+
+  let startIndex = 0;
+
+  while (startIndex < text.length) {
+    // Determine end index for this chunk
+    let endIndex = startIndex + chunkSize;
+
+    // If we're not at the end of the text, try to find a sentence or paragraph break
+    if (endIndex < text.length) {
+      // Look for paragraph break first
+      const paragraphBreakIndex = text.indexOf('\n\n', endIndex - 100);
+      if (paragraphBreakIndex !== -1 && paragraphBreakIndex < endIndex + 100) {
+        endIndex = paragraphBreakIndex;
+      } else {
+        // Look for sentence break (period followed by space)
+        const sentenceBreakIndex = text.indexOf('. ', endIndex - 50);
+        if (sentenceBreakIndex !== -1 && sentenceBreakIndex < endIndex + 50) {
+          endIndex = sentenceBreakIndex + 1; // Include the period
+        }
+      }
+    } else {
+      endIndex = text.length;
+    }
+
+    spans.push({ start: startIndex, end: endIndex });
+
+    // The last chunk reached the end of the text - stepping back by the overlap would repeat it forever
+    if (endIndex >= text.length) {
+      break;
+    }
+
+    // Move start index for next chunk, accounting for overlap
+    startIndex = endIndex - overlap;
+
+    // Make sure we're making progress
+    if (startIndex >= text.length || startIndex <= 0) {
+      break;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Split text into overlapping chunks
+ */
+export function chunkText(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  return computeChunkSpans(text, chunkSize, overlap)
+    .map(span => ({ text: text.substring(span.start, span.end).trim() }))
+    .filter(chunk => chunk.text.length > 0);
+}
+
+/**
+ * Full text of a document plus a lookup from character offset to page number
+ */
+interface PagedText {
+  text: string;
+  pageAt?: (offset: number) => number;
+}
+
+/**
+ * Join pages with blank lines while remembering where each page starts
+ */
+function buildPagedText(pages: ExtractedPage[]): PagedText {
+  const pageOffsets: Array<{ pageNumber: number; start: number }> = [];
+  let text = '';
+
+  for (const page of pages) {
+    if (text.length > 0) {
+      text += '\n\n';
+    }
+    pageOffsets.push({ pageNumber: page.pageNumber, start: text.length });
+    text += page.text;
+  }
+
+  const pageAt = (offset: number): number => {
+    let pageNumber = pageOffsets[0]?.pageNumber;
+    for (const page of pageOffsets) {
+      if (page.start > offset) break;
+      pageNumber = page.pageNumber;
+    }
+    return pageNumber;
+  };
+
+  return { text, pageAt };
+}
+
+/**
+ * Cut fixed-size windows out of text[start, end), tagging pages and section path
+ */
+function windowChunks(
+  source: PagedText,
+  start: number,
+  end: number,
+  chunkSize: number,
+  overlap: number,
+  sectionPath?: string,
+  prefix?: string
+): TextChunk[] {
+  const slice = source.text.substring(start, end);
+  const chunks: TextChunk[] = [];
+
+  for (const span of computeChunkSpans(slice, chunkSize, overlap)) {
+    const raw = slice.substring(span.start, span.end);
+    const trimmed = raw.trim();
+    if (trimmed.length === 0) continue;
+
+    // Use trimmed boundaries so leading/trailing page separators don't widen the range
+    const contentStart = start + span.start + (raw.length - raw.trimStart().length);
+    const contentEnd = contentStart + trimmed.length - 1;
+
+    chunks.push({
+      text: prefix ? `${prefix}\n${trimmed}` : trimmed,
+      pageStart: source.pageAt?.(contentStart),
+      pageEnd: source.pageAt?.(contentEnd),
+      sectionPath
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Split paginated text into overlapping chunks, tagging each chunk with the
+ * first and last page it spans
+ */
+export function chunkPages(pages: ExtractedPage[], chunkSize: number, overlap: number): TextChunk[] {
+  const source = buildPagedText(pages);
+  return windowChunks(source, 0, source.text.length, chunkSize, overlap);
+}
+
+// ============================================================================
+// Legal document chunking
+// ============================================================================
+
+// Markdown heading markers are stripped first (DOCX extraction renders headings as "## ...").
+// Roman numerals are matched case-sensitively so "Mục lục" is not read as "Mục L".
+const CHAPTER_PATTERN = /^(?:Chương|CHƯƠNG)\s+([IVXLCDM]+|\d+)(?![\p{L}\p{N}])/u;
+const SECTION_PATTERN = /^(?:Mục|MỤC)\s+([IVXLCDM]+|\d+)(?![\p{L}\p{N}])/u;
+const ARTICLE_PATTERN = /^(?:Điều|ĐIỀU)\s+(\d+[a-zđ]?)\s*(?:[.:\-–]|$)/u;
+const CLAUSE_PATTERN = /^(\d+)\.\s+\S/u;
+const POINT_PATTERN = /^([a-zđ])\)\s+\S/u;
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface LegalUnit {
+  path: string[];
+  lines: Line[];
+  isArticle: boolean;
+}
+
+interface LabeledGroup {
+  label?: string;
+  lines: Line[];
+}
+
+const stripHeadingMarker = (line: string) => line.replace(/^#+\s*/, '');
+
+/**
+ * Detect whether text looks like a Vietnamese legal document (has at least two "Điều" articles)
+ */
+export function isLegalDocument(text: string): boolean {
+  let articles = 0;
+  for (const line of text.split('\n')) {
+    if (ARTICLE_PATTERN.test(stripHeadingMarker(line.trim()))) {
+      articles++;
+      if (articles >= 2) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check whether a chunk's section path contains the given section, e.g. "Điều 12"
+ * matches "Chương III > Điều 12 > Khoản 2"
+ */
+export function sectionPathMatches(sectionPath: string | undefined, filter: string): boolean {
+  if (!sectionPath) return false;
+  const wanted = filter.trim().toLowerCase();
+  return sectionPath
+    .split(SECTION_PATH_SEPARATOR)
+    .some(segment => segment.toLowerCase() === wanted);
+}
+
+/**
+ * Chunk a legal document along its Chương / Mục / Điều / Khoản / Điểm structure.
+ * Each article is kept whole when it fits in maxChunkSize; longer articles are
+ * split by clause, then by point, then by fixed windows as a last resort.
+ */
+export function chunkLegalText(text: string, maxChunkSize: number, overlap: number): TextChunk[] {
+  return chunkLegalSource({ text }, maxChunkSize, overlap);
+}
+
+/**
+ * Page-aware variant of chunkLegalText
+ */
+export function chunkLegalPages(pages: ExtractedPage[], maxChunkSize: number, overlap: number): TextChunk[] {
+  return chunkLegalSource(buildPagedText(pages), maxChunkSize, overlap);
+}
+
+function chunkLegalSource(source: PagedText, maxChunkSize: number, overlap: number): TextChunk[] {
+  const units = splitLegalUnits(source.text);
+  const chunks: TextChunk[] = [];
+  let carried: Line[] = [];
+
+  units.forEach((unit, i) => {
+    const next = units[i + 1];
+
+    if (!unit.isArticle) {
+      // Short headings/preambles (e.g. "Chương II / QUY HOẠCH XÂY DỰNG") travel with the next article
+      if (next?.isArticle && linesLength(unit.lines) < maxChunkSize / 2) {
+        carried = [...carried, ...unit.lines];
+        return;
+      }
+      chunks.push(...emitGroup(source, [...carried, ...unit.lines], unit.path, maxChunkSize, overlap));
+      carried = [];
+      return;
+    }
+
+    chunks.push(...chunkArticle(source, unit, carried, maxChunkSize, overlap));
+    carried = [];
+  });
+
+  if (carried.length > 0) {
+    chunks.push(...emitGroup(source, carried, [], maxChunkSize, overlap));
+  }
+
+  return chunks;
+}
+
+/**
+ * Split text into top-level units: one per article plus loose text between them
+ */
+function splitLegalUnits(text: string): LegalUnit[] {
+  const units: LegalUnit[] = [];
+  let chapter: string | undefined;
+  let section: string | undefined;
+  let current: LegalUnit | undefined;
+
+  const contextPath = () => [chapter, section].filter(Boolean) as string[];
+  const startUnit = (isArticle: boolean, path: string[]) => {
+    current = { path, lines: [], isArticle };
+    units.push(current);
+  };
+
+  for (const line of splitLines(text)) {
+    const heading = stripHeadingMarker(line.text);
+    const chapterMatch = heading.match(CHAPTER_PATTERN);
+    const sectionMatch = heading.match(SECTION_PATTERN);
+    const articleMatch = heading.match(ARTICLE_PATTERN);
+
+    if (chapterMatch) {
+      chapter = `Chương ${chapterMatch[1]}`;
+      section = undefined;
+      startUnit(false, contextPath());
+    } else if (sectionMatch) {
+      section = `Mục ${sectionMatch[1]}`;
+      startUnit(false, contextPath());
+    } else if (articleMatch) {
+      startUnit(true, [...contextPath(), `Điều ${articleMatch[1]}`]);
+    } else if (!current) {
+      startUnit(false, contextPath());
+    }
+
+    current!.lines.push({ ...line, text: heading });
+  }
+
+  return units;
+}
+
+/**
+ * Chunk a single article, splitting by clause and point only when it is too long
+ */
+function chunkArticle(
+  source: PagedText,
+  article: LegalUnit,
+  leading: Line[],
+  maxChunkSize: number,
+  overlap: number
+): TextChunk[] {
+  const lines = [...leading, ...article.lines];
+  if (linesLength(lines) <= maxChunkSize) {
+    return [makeChunk(source, lines, article.path)];
+  }
+
+  // The article title line is repeated on every sub-chunk for context
+  const title = article.lines[0].text;
+  const { head, items } = groupByMarker(article.lines.slice(1), CLAUSE_PATTERN, 'Khoản');
+  const chunks: TextChunk[] = [];
+
+  if (items.length === 0) {
+    return emitGroup(source, lines, article.path, maxChunkSize, overlap);
+  }
+
+  // Title + introduction (+ carried headings) form the first chunk's lead-in
+  const intro = [...leading, article.lines[0], ...head];
+  const packed = packGroups(items, maxChunkSize - title.length - 1);
+
+  packed.forEach((group, i) => {
+    const groupLines = i === 0 ? [...intro, ...group.lines] : group.lines;
+    const prefix = i === 0 ? undefined : title;
+    const path = [...article.path, group.label!];
+
+    if (linesLength(groupLines) + (prefix ? prefix.length + 1 : 0) <= maxChunkSize) {
+      chunks.push(makeChunk(source, groupLines, path, prefix));
+      return;
+    }
+
+    // A single oversized clause: emit the lead-in separately, then split by point
+    if (i === 0 && intro.length > 0) {
+      chunks.push(...emitGroup(source, intro, article.path, maxChunkSize, overlap));
+    }
+    chunks.push(...chunkClause(source, group, article.path, title, maxChunkSize, overlap));
+  });
+
+  return chunks;
+}
+
+/**
+ * Split an oversized clause by its points (a, b, c...), falling back to windows
+ */
+function chunkClause(
+  source: PagedText,
+  clause: LabeledGroup,
+  articlePath: string[],
+  title: string,
+  maxChunkSize: number,
+  overlap: number
+): TextChunk[] {
+  const clausePath = [...articlePath, clause.label!];
+  const clauseLead = clause.lines[0].text;
+  const { head, items } = groupByMarker(clause.lines.slice(1), POINT_PATTERN, 'Điểm');
+
+  if (items.length === 0) {
+    return emitGroup(source, clause.lines, clausePath, maxChunkSize, overlap, title);
+  }
+
+  const prefix = `${title}\n${clauseLead}`;
+  const packed = packGroups(items, maxChunkSize - prefix.length - 1);
+  const chunks: TextChunk[] = [];
+
+  if (head.length > 0) {
+    chunks.push(...emitGroup(source, [clause.lines[0], ...head], clausePath, maxChunkSize, overlap, title));
+  }
+
+  for (const group of packed) {
+    chunks.push(...emitGroup(source, group.lines, [...clausePath, group.label!], maxChunkSize, overlap, prefix));
+  }
+
+  return chunks;
+}
+
+/**
+ * Emit lines as one chunk if they fit, otherwise as fixed windows
+ */
+function emitGroup(
+  source: PagedText,
+  lines: Line[],
+  path: string[],
+  maxChunkSize: number,
+  overlap: number,
+  prefix?: string
+): TextChunk[] {
+  if (lines.length === 0) return [];
+
+  if (linesLength(lines) + (prefix ? prefix.length + 1 : 0) <= maxChunkSize) {
+    return [makeChunk(source, lines, path, prefix)];
+  }
+
+  const windowSize = Math.max(maxChunkSize - (prefix ? prefix.length + 1 : 0), overlap * 2);
+  return windowChunks(
+    source,
+    lines[0].start,
+    lines[lines.length - 1].end,
+    windowSize,
+    overlap,
+    formatPath(path),
+    prefix
+  );
+}
+
+/**
+ * Split lines into a head (before the first marker) and groups starting at each marker
+ */
+function groupByMarker(lines: Line[], pattern: RegExp, labelPrefix: string): { head: Line[]; items: LabeledGroup[] } {
+  const head: Line[] = [];
+  const items: LabeledGroup[] = [];
+
+  for (const line of lines) {
+    const match = line.text.match(pattern);
+    if (match) {
+      items.push({ label: `${labelPrefix} ${match[1]}`, lines: [line] });
+    } else if (items.length > 0) {
+      items[items.length - 1].lines.push(line);
+    } else {
+      head.push(line);
+    }
+  }
+
+  return { head, items };
+}
+
+/**
+ * Greedily merge consecutive groups while they fit, labelling merged ranges "Khoản 2–4"
+ */
+function packGroups(groups: LabeledGroup[], maxSize: number): LabeledGroup[] {
+  const packed: Array<LabeledGroup & { first: string; last: string }> = [];
+
+  for (const group of groups) {
+    const current = packed[packed.length - 1];
+    if (current && linesLength(current.lines) + linesLength(group.lines) + 1 <= maxSize) {
+      current.lines.push(...group.lines);
+      current.last = group.label!;
+    } else {
+      packed.push({ lines: [...group.lines], first: group.label!, last: group.label! });
+    }
+  }
+
+  return packed.map(group => ({
+    lines: group.lines,
+    label: group.first === group.last
+      ? group.first
+      : `${group.first}–${group.last.split(' ').pop()}`
+  }));
+}
+
+function makeChunk(source: PagedText, lines: Line[], path: string[], prefix?: string): TextChunk {
+  const body = lines.map(line => line.text).join('\n');
+  return {
+    text: prefix ? `${prefix}\n${body}` : body,
+    pageStart: source.pageAt?.(lines[0].start),
+    pageEnd: source.pageAt?.(lines[lines.length - 1].end - 1),
+    sectionPath: formatPath(path)
+  };
+}
+
+function formatPath(path: string[]): string | undefined {
+  return path.length > 0 ? path.join(SECTION_PATH_SEPARATOR) : undefined;
+}
+
+function linesLength(lines: Line[]): number {
+  return lines.reduce((total, line) => total + line.text.length + 1, 0);
+}
+
+/**
+ * Split text into trimmed, non-empty lines with their offsets in the original text
+ */
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let offset = 0;
+
+  for (const raw of text.split('\n')) {
+    const trimmed = raw.trim();
+    if (trimmed.length > 0) {
+      const start = offset + raw.indexOf(trimmed);
+      lines.push({ text: trimmed, start, end: start + trimmed.length });
+    }
+    offset += raw.length + 1;
+  }
+
+  return lines;
+}
@@ -6,7 +6,8 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { 
   cosineSimilarity, 
   VectorChunk,
-  inMemoryVectorStore 
+  inMemoryVectorStore,
+  embedInBatches
 } from './vectorUtils';
 
 describe('Vector Utilities', () => {
@@ -68,4 +69,29 @@ describe('Vector Utilities', () => {
       expect(hasVietnamese).toBe(true);
     });
   });
+
+  describe('embedInBatches', () => {
+    // Fake pipeline: one [length, batchSize] row per text
+    const extractor = async (texts: string[]) => ({
+      tolist: () => texts.map(text => [text.length, texts.length])
+    });
+
+    it('should embed texts in batches and keep their order', async () => {
+      const progress: number[] = [];
+      const embeddings = await embedInBatches(extractor, ['a', 'bb', 'ccc', 'dddd', 'eeeee'], {
+        batchSize: 2,
+        onProgress: done => progress.push(done)
+      });
+
+      expect(embeddings.map(e => e[0])).toEqual([1, 2, 3, 4, 5]);
+      expect(embeddings.map(e => e[1])).toEqual([2, 2, 2, 2, 1]);
+      expect(progress).toEqual([2, 4, 5]);
+    });
+
+    it('should stop when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(embedInBatches(extractor, ['a'], { signal: controller.signal })).rejects.toThrow();
+    });
+  });
 });
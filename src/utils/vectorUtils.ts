@@ -1,6 +1,10 @@
 
 import { EmbeddingModelType } from '@/hooks/useAiModel';
 import { pipeline, env } from '@huggingface/transformers';
+import { rankByBM25 } from './bm25';
+import { cosineSimilarity, EmbeddingVector } from './embeddingCodec';
+import { WorkerPool, WorkerTaskOptions, canSpawnWorkers } from './performance';
+import type { EmbeddingTask } from '@/workers/workerProtocol';
 
 // IMPORTANT: Create a polyfill for globalThisOrWindow to fix the reference error
 // This needs to be done before any other transformers.js code runs
@@ -38,18 +42,30 @@ if (env.backends && env.backends.onnx) {
   }
 }
 
+// Default model for new chunks and queries
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingModelType = 'Xenova/all-MiniLM-L6-v2';
+
+// Label for chunks whose embeddings came from a mock pipeline (no real model available)
+export const MOCK_EMBEDDING_MODEL = 'mock';
+
 // Fallback model that's small and likely to work
-const FALLBACK_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const FALLBACK_MODEL = DEFAULT_EMBEDDING_MODEL;
 
 // Interface for vector store chunks
 export interface VectorChunk {
   id: string;
   text: string;
-  embedding: number[];
+  embedding: EmbeddingVector; // number[] from the model, Float32Array/Int8Array once stored
+  embeddingScale?: number; // Set when the embedding is int8-quantized
+  embeddingModel?: string; // Model that produced the embedding
+  dimension?: number; // Embedding length
   documentId: string;
   documentName: string;
   folderId: string;
   score?: number; // Add score property as optional
+  pageStart?: number; // First PDF page the chunk spans (1-based)
+  pageEnd?: number; // Last PDF page the chunk spans (1-based)
+  sectionPath?: string; // Legal hierarchy, e.g. "Chương III > Điều 12 > Khoản 2"
 }
 
 // Simple in-memory vector store for demo purposes
@@ -232,21 +248,132 @@ export const generateEmbedding = async (text: string, modelId: EmbeddingModelTyp
   }
 };
 
-// Calculate cosine similarity between two vectors
-export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
+// Texts per pipeline call when embedding in batches
+export const EMBEDDING_BATCH_SIZE = 16;
+
+/**
+ * Embeddings for a list of texts, with the model that actually produced them
+ */
+export interface EmbeddedTexts {
+  model: string;
+  embeddings: number[][];
+}
+
+/**
+ * Embeds a list of texts; progress is reported as a percentage
+ */
+export type BatchEmbedder = (texts: string[], onProgress?: (progress: number) => void) => Promise<EmbeddedTexts>;
+
+/**
+ * The part of a transformers.js feature-extraction pipeline used for batching
+ */
+export type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): unknown }>;
+
+interface LoadedFeatureExtractor {
+  extractor: FeatureExtractor;
+  model: string; // Model actually loaded (may be the fallback)
+}
+
+const featureExtractors = new Map<string, Promise<LoadedFeatureExtractor>>();
+
+/**
+ * Load a feature-extraction pipeline once per model in this thread,
+ * falling back to the default model when the requested one cannot be loaded
+ */
+export function loadFeatureExtractor(modelId: string): Promise<LoadedFeatureExtractor> {
+  let loading = featureExtractors.get(modelId);
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const extractor = await pipeline("feature-extraction", modelId);
+        return { extractor: extractor as unknown as FeatureExtractor, model: modelId };
+      } catch (error) {
+        if (modelId === FALLBACK_MODEL) throw error;
+        logDiagnostic(`Failed to load ${modelId}, falling back to ${FALLBACK_MODEL}: ${error}`, 'warning');
+        const extractor = await pipeline("feature-extraction", FALLBACK_MODEL);
+        return { extractor: extractor as unknown as FeatureExtractor, model: FALLBACK_MODEL };
+      }
+    })();
+    // A failed load may be retried later
+    loading.catch(() => featureExtractors.delete(modelId));
+    featureExtractors.set(modelId, loading);
+  }
+  return loading;
+}
+
+/**
+ * Embed texts with a loaded pipeline, several texts per call
+ */
+export async function embedInBatches(
+  extractor: FeatureExtractor,
+  texts: string[],
+  options: { batchSize?: number; signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<number[][]> {
+  const { batchSize = EMBEDDING_BATCH_SIZE, signal, onProgress } = options;
+  const embeddings: number[][] = [];
+  
+  for (let i = 0; i < texts.length; i += batchSize) {
+    signal?.throwIfAborted();
+    const batch = texts.slice(i, i + batchSize);
+    const output = await extractor(batch, { pooling: "mean", normalize: true });
+    embeddings.push(...(output.tolist() as number[][]));
+    onProgress?.(Math.min(i + batchSize, texts.length), texts.length);
+  }
+  
+  return embeddings;
+}
+
+let embeddingPool: WorkerPool | null = null;
+
+/**
+ * Embed texts in the embedding worker (one worker keeps the models loaded);
+ * runs in the current thread where workers are unavailable
+ */
+export async function embedTexts(texts: string[], modelId: string, options: WorkerTaskOptions = {}): Promise<EmbeddedTexts> {
+  if (!canSpawnWorkers()) {
+    const { extractor, model } = await loadFeatureExtractor(modelId);
+    const embeddings = await embedInBatches(extractor, texts, {
+      signal: options.signal,
+      onProgress: (done, total) => options.onProgress?.((done / total) * 100)
+    });
+    return { model, embeddings };
+  }
   
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
+  embeddingPool ??= new WorkerPool(
+    () => new Worker(new URL('../workers/embeddingWorker.ts', import.meta.url), { type: 'module' }),
+    1
+  );
+  const task: EmbeddingTask = { texts, model: modelId };
+  return await embeddingPool.execute<EmbeddedTexts>(task, options);
+}
+
+/**
+ * Batch embedder for one model, cancelled through `signal`
+ */
+export function createBatchEmbedder(modelId: string, signal?: AbortSignal): BatchEmbedder {
+  return (texts, onProgress) => embedTexts(texts, modelId, { signal, onProgress });
+}
+
+/**
+ * Reusable single-text embedding function for a model (runs in the embedding worker).
+ * Throws instead of silently switching models, since callers label vectors with `modelId`.
+ */
+export const createEmbedder = async (modelId: string): Promise<(text: string) => Promise<number[]>> => {
+  logDiagnostic(`Creating reusable embedder for model: ${modelId}`);
+  const { model } = await embedTexts([], modelId);
+  if (model !== modelId) {
+    throw new Error(`Embedding model ${modelId} could not be loaded`);
   }
   
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  return async (text: string) => (await embedTexts([text], modelId)).embeddings[0];
 };
 
+// Calculate cosine similarity between two vectors (plain or typed arrays)
+export { cosineSimilarity };
+
 /**
  * Search for similar chunks with enhanced diagnostic logging
  */
@@ -278,6 +405,9 @@ export async function searchSimilarChunks(
       logDiagnostic(`Filtered to ${filteredChunks.length} chunks from selected folders`, 'info');
     }
     
+    // Only chunks embedded in the same vector space can be compared
+    filteredChunks = filteredChunks.filter(chunk => chunk.embedding.length === queryEmbedding.length);
+    
     // Calculate similarity scores
     logDiagnostic(`Calculating similarity scores for ${filteredChunks.length} chunks`, 'info');
     const scoredChunks = filteredChunks.map(chunk => ({
@@ -301,7 +431,7 @@ export async function searchSimilarChunks(
   }
 }
 
-// Text search fallback that doesn't rely on embeddings
+// BM25 keyword search fallback that doesn't rely on embeddings
 function performTextSearch(query: string, folderIds: string[] = [], limit: number = 5): VectorChunk[] {
   console.log('[DEBUG] Performing text search fallback');
   
@@ -312,42 +442,15 @@ function performTextSearch(query: string, folderIds: string[] = [], limit: numbe
       return [];
     }
     
-    const queryLower = query.toLowerCase();
-    const queryWords = queryLower.split(/\s+/).filter(word => word.length > 1);
-    
     // Filter by folders if specified
     let filteredChunks = inMemoryVectorStore;
     if (folderIds.length > 0) {
       filteredChunks = inMemoryVectorStore.filter(chunk => folderIds.includes(chunk.folderId));
     }
     
-    // Assign scores based on word matches
-    const scoredChunks = filteredChunks.map(chunk => {
-      const textLower = chunk.text.toLowerCase();
-      let score = 0;
-      
-      // Exact phrase match (highest score)
-      if (textLower.includes(queryLower)) {
-        score += 1.0;
-      }
-      
-      // Individual word matches
-      queryWords.forEach(word => {
-        if (textLower.includes(word)) {
-          score += 0.2;
-        }
-      });
-      
-      return {
-        ...chunk,
-        score
-      };
-    });
-    
-    // Filter out zero scores and sort by score (descending)
-    const matchingChunks = scoredChunks
-      .filter(chunk => chunk.score > 0)
-      .sort((a, b) => (b.score || 0) - (a.score || 0));
+    // Rank by BM25 so exact codes like "QCVN 06:2022/BXD" outrank common words
+    const matchingChunks = rankByBM25(query, filteredChunks, chunk => chunk.text)
+      .map(({ item, score }) => ({ ...item, score }));
     
     console.log(`[DEBUG] Text search found ${matchingChunks.length} matches, returning top ${limit}`);
     
@@ -0,0 +1,47 @@
+/**
+ * Unit Tests for Vietnamese Text Normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { foldDiacritics, normalizeForSearch, tokenizeVietnamese, findMatchRanges } from './vietnameseText';
+
+describe('Vietnamese Text', () => {
+  it('should fold diacritics and đ', () => {
+    expect(foldDiacritics('Đường giao thông nội bộ')).toBe('Duong giao thong noi bo');
+    expect(normalizeForSearch('CHIỀU CAO TẦNG')).toBe('chieu cao tang');
+  });
+
+  it('should treat combining and precomposed forms the same', () => {
+    const combining = 'Tầng'.normalize('NFD');
+    expect(normalizeForSearch(combining)).toBe(normalizeForSearch('Tầng'));
+  });
+
+  it('should emit folded syllables, accented syllables and compounds', () => {
+    expect(tokenizeVietnamese('Chiều cao')).toEqual(['chieu', 'chiều', 'cao', 'chieu_cao']);
+  });
+
+  it('should give unaccented and accented text shared tokens', () => {
+    const accented = new Set(tokenizeVietnamese('chiều cao tầng 1'));
+    tokenizeVietnamese('chieu cao tang 1').forEach(token => expect(accented.has(token)).toBe(true));
+  });
+
+  describe('findMatchRanges', () => {
+    const text = 'Chiều cao tầng 1 của nhà ở riêng lẻ';
+
+    it('should locate unaccented query terms in accented text', () => {
+      const ranges = findMatchRanges(text, 'chieu cao tang');
+      expect(ranges.map(range => text.slice(range.start, range.end))).toEqual(['Chiều cao tầng']);
+    });
+
+    it('should only match whole syllables', () => {
+      const ranges = findMatchRanges(text, 'ca');
+      expect(ranges).toEqual([]);
+    });
+
+    it('should keep offsets correct for decomposed text', () => {
+      const decomposed = 'Điều 12. Chiều cao'.normalize('NFD');
+      const [range] = findMatchRanges(decomposed, 'chieu');
+      expect(decomposed.slice(range.start, range.end).normalize('NFC')).toBe('Chiều');
+    });
+  });
+});
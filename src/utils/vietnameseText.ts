@@ -0,0 +1,124 @@
+/**
+ * Vietnamese Text Normalization
+ * NFC normalization, diacritic folding (including đ → d) and syllable/compound
+ * tokenization, so unaccented queries ("chieu cao tang 1") match accented text
+ */
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Separator joining the syllables of a compound token, e.g. "chieu_cao"
+ */
+export const COMPOUND_SEPARATOR = '_';
+
+/**
+ * Normalize to NFC so precomposed and combining forms compare equal
+ */
+export function normalizeVietnamese(text: string): string {
+  return text ? text.normalize('NFC') : '';
+}
+
+/**
+ * Remove Vietnamese diacritics ("Đường" → "Duong")
+ */
+export function foldDiacritics(text: string): string {
+  if (!text) return '';
+  return text
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .normalize('NFC');
+}
+
+/**
+ * Lowercase, NFC-normalized, diacritic-free form used for matching
+ */
+export function normalizeForSearch(text: string): string {
+  return foldDiacritics(normalizeVietnamese(text).toLowerCase());
+}
+
+/**
+ * Split text into lowercase NFC syllables (Vietnamese words are written syllable by syllable)
+ */
+export function segmentSyllables(text: string): string[] {
+  return normalizeVietnamese(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(syllable => syllable.length > 0);
+}
+
+/**
+ * Search tokens for Vietnamese text:
+ * - every syllable in folded form ("tầng" → "tang"), so unaccented queries match
+ * - the accented syllable as well, so exact accents still score higher
+ * - folded bigrams of adjacent syllables ("chieu_cao") to capture compound words
+ */
+export function tokenizeVietnamese(text: string): string[] {
+  const syllables = segmentSyllables(text);
+  const folded = syllables.map(foldDiacritics);
+  const tokens: string[] = [];
+
+  syllables.forEach((syllable, i) => {
+    tokens.push(folded[i]);
+    if (syllable !== folded[i]) {
+      tokens.push(syllable);
+    }
+    if (i > 0) {
+      tokens.push(`${folded[i - 1]}${COMPOUND_SEPARATOR}${folded[i]}`);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Find ranges in `text` matching any query syllable, ignoring case and diacritics.
+ * Matches must cover whole syllables; overlapping or adjacent ranges are merged.
+ */
+export function findMatchRanges(text: string, query: string): Array<{ start: number; end: number }> {
+  const terms = Array.from(new Set(segmentSyllables(query).map(foldDiacritics)));
+  if (!text || terms.length === 0) return [];
+
+  // Fold character by character, remembering where each folded char came from
+  let folded = '';
+  const origins: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const foldedChar = normalizeForSearch(text[i]);
+    for (const ch of foldedChar) {
+      folded += ch;
+      origins.push(i);
+    }
+  }
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const term of terms) {
+    let from = 0;
+    let index: number;
+    while ((index = folded.indexOf(term, from)) !== -1) {
+      const end = index + term.length;
+      const boundaryBefore = index === 0 || !WORD_CHAR.test(folded[index - 1]);
+      const boundaryAfter = end === folded.length || !WORD_CHAR.test(folded[end]);
+      if (boundaryBefore && boundaryAfter) {
+        ranges.push({ start: origins[index], end: origins[end - 1] + 1 });
+      }
+      from = index + 1;
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  // Merge ranges separated only by whitespace so phrases highlight as one span
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && (range.start <= last.end || !text.slice(last.end, range.start).trim())) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,17 @@
+/**
+ * Embedding Worker
+ * Runs transformers.js feature extraction in batches, keeping loaded models between tasks
+ */
+
+import { loadFeatureExtractor, embedInBatches, EmbeddedTexts } from '@/utils/vectorUtils';
+import { serveWorkerTasks, EmbeddingTask } from './workerProtocol';
+
+serveWorkerTasks<EmbeddingTask, EmbeddedTexts>(async ({ texts, model, batchSize }, { signal, onProgress }) => {
+  const loaded = await loadFeatureExtractor(model);
+  const embeddings = await embedInBatches(loaded.extractor, texts, {
+    batchSize,
+    signal,
+    onProgress: (done, total) => onProgress((done / total) * 100, `Đã tạo embedding ${done}/${total} đoạn`)
+  });
+  return { model: loaded.model, embeddings };
+});
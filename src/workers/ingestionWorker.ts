@@ -0,0 +1,63 @@
+/**
+ * Ingestion Worker
+ * Drains the persistent ingestion queue off the main thread. The queue lives in
+ * IndexedDB, so the page only has to send start/pause and listen for job updates.
+ */
+
+import { createBatchEmbedder } from '@/utils/vectorUtils';
+import { VectorIndex } from '@/utils/persistentStorage';
+import {
+  drainIngestionQueue,
+  summarizeJob,
+  IngestionWorkerRequest,
+  IngestionWorkerMessage
+} from '@/utils/ingestionQueue';
+
+// The page deletes documents while this worker indexes, each through its own graph copy
+VectorIndex.reloadBeforeWrites();
+
+let controller: AbortController | null = null;
+let drainAgain = false;
+
+const post = (message: IngestionWorkerMessage) => self.postMessage(message);
+
+async function drain(): Promise<void> {
+  if (controller) {
+    // Check the queue again once the current run ends (it may be finishing or pausing)
+    drainAgain = true;
+    return;
+  }
+
+  controller = new AbortController();
+  try {
+    const { signal } = controller;
+    await drainIngestionQueue({
+      // Embedding and OCR go to their worker pools, which keep the models loaded
+      embedderFor: model => createBatchEmbedder(model, signal),
+      signal,
+      onUpdate: job => post({ type: 'update', job: summarizeJob(job) })
+    });
+  } catch (error) {
+    console.error('[IngestionWorker] Queue stopped:', error);
+  } finally {
+    controller = null;
+    if (drainAgain) {
+      drainAgain = false;
+      drain();
+    } else {
+      post({ type: 'idle' });
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<IngestionWorkerRequest>) => {
+  switch (event.data.type) {
+    case 'start':
+      drain();
+      break;
+    case 'pause':
+      drainAgain = false;
+      controller?.abort();
+      break;
+  }
+};
@@ -0,0 +1,12 @@
+/**
+ * OCR Worker
+ * Renders PDF pages on an OffscreenCanvas and recognizes them with Tesseract
+ */
+
+import { extractTextFromPDFWithOCR, ExtractedPage } from '@/utils/ocrEngine';
+import { serveWorkerTasks, OcrTask } from './workerProtocol';
+
+serveWorkerTasks<OcrTask, ExtractedPage[]>(async ({ name, data }, { signal, onProgress }) => {
+  const file = new File([data], name, { type: 'application/pdf' });
+  return await extractTextFromPDFWithOCR(file, progress => onProgress(progress.progress, progress.message), signal);
+});
@@ -0,0 +1,12 @@
+/**
+ * Rerank Worker
+ * Runs transformers.js cross-encoders on (query, passage) pairs, keeping loaded models between tasks
+ */
+
+import { loadCrossEncoder, scorePassages } from '@/utils/crossEncoder';
+import { serveWorkerTasks, RerankTask } from './workerProtocol';
+
+serveWorkerTasks<RerankTask, number[]>(async ({ query, texts, model }, { signal }) => {
+  const crossEncoder = await loadCrossEncoder(model);
+  return await scorePassages(crossEncoder, query, texts, { signal });
+});
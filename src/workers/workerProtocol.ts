@@ -0,0 +1,82 @@
+/**
+ * Worker Task Protocol
+ * Messages exchanged between WorkerPool and worker entry points: each task has an ID,
+ * may report progress any number of times and ends with a result or an error.
+ */
+
+export type WorkerRequest<T = unknown> =
+  | { type: 'task'; taskId: number; data: T }
+  | { type: 'cancel'; taskId: number };
+
+export type WorkerResponse<R = unknown> =
+  | { type: 'progress'; taskId: number; progress: number; message?: string }
+  | { type: 'result'; taskId: number; result: R }
+  | { type: 'error'; taskId: number; error: string; cancelled?: boolean };
+
+/**
+ * Embedding worker task (texts are embedded in batches)
+ */
+export interface EmbeddingTask {
+  texts: string[];
+  model: string;
+  batchSize?: number;
+}
+
+/**
+ * Rerank worker task: each text is scored against the query by a cross-encoder
+ */
+export interface RerankTask {
+  query: string;
+  texts: string[];
+  model: string;
+}
+
+/**
+ * OCR worker task: a PDF whose pages are rendered on an OffscreenCanvas and recognized
+ */
+export interface OcrTask {
+  name: string;
+  data: ArrayBuffer;
+}
+
+export interface WorkerTaskContext {
+  signal: AbortSignal; // Aborted when the page cancels the task
+  onProgress: (progress: number, message?: string) => void;
+}
+
+/**
+ * Serve tasks inside a worker; one AbortController per task backs cancellation
+ */
+export function serveWorkerTasks<T, R>(handler: (data: T, context: WorkerTaskContext) => Promise<R>): void {
+  const running = new Map<number, AbortController>();
+  const post = (response: WorkerResponse<R>) => self.postMessage(response);
+
+  self.onmessage = async (event: MessageEvent<WorkerRequest<T>>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+      running.get(request.taskId)?.abort();
+      return;
+    }
+
+    const { taskId, data } = request;
+    const controller = new AbortController();
+    running.set(taskId, controller);
+
+    try {
+      const result = await handler(data, {
+        signal: controller.signal,
+        onProgress: (progress, message) => post({ type: 'progress', taskId, progress, message })
+      });
+      post({ type: 'result', taskId, result });
+    } catch (error) {
+      post({
+        type: 'error',
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+        cancelled: controller.signal.aborted
+      });
+    } finally {
+      running.delete(taskId);
+    }
+  };
+}
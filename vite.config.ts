@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // Workers import transformers.js and pdf.js, which need code splitting
+    format: "es",
+  },
 }));